@@ -0,0 +1,12 @@
+CREATE TABLE "GMP_refresh_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"revoked_at" timestamp,
+	"replaced_by_token_id" integer,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "GMP_refresh_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "GMP_refresh_tokens" ADD CONSTRAINT "GMP_refresh_tokens_user_id_GMP_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."GMP_users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
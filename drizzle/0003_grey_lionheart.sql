@@ -0,0 +1,20 @@
+CREATE TABLE "GMP_payments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"order_id" integer NOT NULL,
+	"reference" varchar(100) NOT NULL,
+	"provider" varchar(50) NOT NULL,
+	"method" varchar(50) NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"currency" varchar(3) DEFAULT 'GHS' NOT NULL,
+	"phone" varchar(20),
+	"status" varchar(50) DEFAULT 'pending',
+	"provider_reference" varchar(255),
+	"checkout_url" text,
+	"failure_reason" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "GMP_payments_reference_unique" UNIQUE("reference"),
+	CONSTRAINT "GMP_payments_provider_reference_unique" UNIQUE("provider_reference")
+);
+--> statement-breakpoint
+ALTER TABLE "GMP_payments" ADD CONSTRAINT "GMP_payments_order_id_GMP_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."GMP_orders"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
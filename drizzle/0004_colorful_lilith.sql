@@ -0,0 +1,95 @@
+ALTER TABLE "GMP_categories" ADD COLUMN "slug" varchar(255);--> statement-breakpoint
+ALTER TABLE "GMP_categories" ADD COLUMN "parent_id" integer;--> statement-breakpoint
+ALTER TABLE "GMP_categories" ADD COLUMN "updated_at" timestamp DEFAULT now();--> statement-breakpoint
+ALTER TABLE "GMP_products" ADD COLUMN "category_id" integer;--> statement-breakpoint
+ALTER TABLE "GMP_products" ADD COLUMN "sub_category_id" integer;--> statement-breakpoint
+ALTER TABLE "GMP_categories" ADD CONSTRAINT "GMP_categories_parent_id_GMP_categories_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."GMP_categories"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_products" ADD CONSTRAINT "GMP_products_category_id_GMP_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."GMP_categories"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_products" ADD CONSTRAINT "GMP_products_sub_category_id_GMP_categories_id_fk" FOREIGN KEY ("sub_category_id") REFERENCES "public"."GMP_categories"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Backfill slugs for existing categories, suffixing duplicates with their id
+UPDATE "GMP_categories" c SET "slug" = s."slug"
+FROM (
+  SELECT "id",
+    CASE WHEN row_number() OVER (PARTITION BY "base" ORDER BY "id") = 1 THEN "base" ELSE "base" || '-' || "id" END AS "slug"
+  FROM (
+    SELECT "id", trim(both '-' from lower(regexp_replace("name", '[^a-zA-Z0-9]+', '-', 'g'))) AS "base"
+    FROM "GMP_categories"
+  ) b
+) s
+WHERE c."id" = s."id";--> statement-breakpoint
+ALTER TABLE "GMP_categories" ADD CONSTRAINT "GMP_categories_slug_unique" UNIQUE("slug");--> statement-breakpoint
+-- Create top-level categories for free-text product categories that don't exist yet
+-- New categories start with a placeholder slug (slugs never contain "_") and get their
+-- real slug below, so a slug collision can't skip a category and orphan its products
+INSERT INTO "GMP_categories" ("name", "slug")
+SELECT DISTINCT ON (lower(trim(p."category")))
+  trim(p."category"),
+  '__pending__' || md5(lower(trim(p."category")))
+FROM "GMP_products" p
+WHERE NOT EXISTS (
+  SELECT 1 FROM "GMP_categories" c
+  WHERE c."parent_id" IS NULL AND lower(c."name") = lower(trim(p."category"))
+);--> statement-breakpoint
+-- Slug the new top-level categories; a slug already taken, or wanted by two new
+-- categories, gets the id appended
+UPDATE "GMP_categories" c SET "slug" = CASE
+    WHEN s."rank" = 1 AND NOT EXISTS (SELECT 1 FROM "GMP_categories" t WHERE t."slug" = s."base") THEN s."base"
+    ELSE s."base" || '-' || c."id"
+  END
+FROM (
+  SELECT n."id", b."base", row_number() OVER (PARTITION BY b."base" ORDER BY n."id") AS "rank"
+  FROM "GMP_categories" n
+  LEFT JOIN "GMP_categories" parent ON parent."id" = n."parent_id"
+  CROSS JOIN LATERAL (
+    SELECT concat_ws('-', parent."slug", coalesce(nullif(trim(both '-' from lower(regexp_replace(n."name", '[^a-zA-Z0-9]+', '-', 'g'))), ''), 'category')) AS "base"
+  ) b
+  WHERE n."slug" LIKE '\_\_pending\_\_%' AND n."parent_id" IS NULL
+) s
+WHERE c."id" = s."id";--> statement-breakpoint
+-- Create subcategories under their parent category
+INSERT INTO "GMP_categories" ("name", "slug", "parent_id")
+SELECT DISTINCT ON (c."id", lower(trim(p."sub_category")))
+  trim(p."sub_category"),
+  '__pending__' || md5(c."id" || ':' || lower(trim(p."sub_category"))),
+  c."id"
+FROM "GMP_products" p
+JOIN "GMP_categories" c ON c."parent_id" IS NULL AND lower(c."name") = lower(trim(p."category"))
+WHERE p."sub_category" IS NOT NULL AND trim(p."sub_category") <> ''
+AND NOT EXISTS (
+  SELECT 1 FROM "GMP_categories" sc
+  WHERE sc."parent_id" = c."id" AND lower(sc."name") = lower(trim(p."sub_category"))
+);--> statement-breakpoint
+-- Subcategory slugs are prefixed with their parent's, resolving collisions the same way
+UPDATE "GMP_categories" c SET "slug" = CASE
+    WHEN s."rank" = 1 AND NOT EXISTS (SELECT 1 FROM "GMP_categories" t WHERE t."slug" = s."base") THEN s."base"
+    ELSE s."base" || '-' || c."id"
+  END
+FROM (
+  SELECT n."id", b."base", row_number() OVER (PARTITION BY b."base" ORDER BY n."id") AS "rank"
+  FROM "GMP_categories" n
+  LEFT JOIN "GMP_categories" parent ON parent."id" = n."parent_id"
+  CROSS JOIN LATERAL (
+    SELECT concat_ws('-', parent."slug", coalesce(nullif(trim(both '-' from lower(regexp_replace(n."name", '[^a-zA-Z0-9]+', '-', 'g'))), ''), 'category')) AS "base"
+  ) b
+  WHERE n."slug" LIKE '\_\_pending\_\_%' AND n."parent_id" IS NOT NULL
+) s
+WHERE c."id" = s."id";--> statement-breakpoint
+-- Link products to the categories by foreign key
+UPDATE "GMP_products" p SET "category_id" = c."id"
+FROM "GMP_categories" c
+WHERE c."parent_id" IS NULL AND lower(c."name") = lower(trim(p."category"));--> statement-breakpoint
+UPDATE "GMP_products" p SET "sub_category_id" = sc."id"
+FROM "GMP_categories" sc
+WHERE sc."parent_id" = p."category_id" AND lower(sc."name") = lower(trim(p."sub_category"));--> statement-breakpoint
+-- Every product must now have its categories; stop rather than hide products from the tree
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM "GMP_products"
+    WHERE "category_id" IS NULL
+    OR ("sub_category" IS NOT NULL AND trim("sub_category") <> '' AND "sub_category_id" IS NULL)
+  ) THEN
+    RAISE EXCEPTION 'Some products could not be linked to their category or subcategory';
+  END IF;
+END $$;--> statement-breakpoint
+ALTER TABLE "GMP_categories" ALTER COLUMN "slug" SET NOT NULL;
@@ -0,0 +1,19 @@
+ALTER TABLE "GMP_products" ADD COLUMN "review_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "GMP_reviews" ADD COLUMN "updated_at" timestamp DEFAULT now();--> statement-breakpoint
+-- Keep only the latest review per user per product before adding the unique constraint
+DELETE FROM "GMP_reviews" r
+USING "GMP_reviews" newer
+WHERE r."product_id" = newer."product_id"
+AND r."user_id" = newer."user_id"
+AND r."id" < newer."id";--> statement-breakpoint
+ALTER TABLE "GMP_reviews" ADD CONSTRAINT "GMP_reviews_product_id_user_id_unique" UNIQUE("product_id","user_id");--> statement-breakpoint
+-- Backfill stored ratings from existing reviews
+UPDATE "GMP_products" p SET
+  "rating" = round(s."average", 1),
+  "review_count" = s."total"
+FROM (
+  SELECT "product_id", avg("rating") AS "average", count(*) AS "total"
+  FROM "GMP_reviews"
+  GROUP BY "product_id"
+) s
+WHERE p."id" = s."product_id";
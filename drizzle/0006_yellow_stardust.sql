@@ -0,0 +1,16 @@
+CREATE TABLE "GMP_addresses" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"label" varchar(100),
+	"home_address" varchar(255) NOT NULL,
+	"city" varchar(100) NOT NULL,
+	"region_or_state" varchar(100) NOT NULL,
+	"country" varchar(100) DEFAULT 'Ghana' NOT NULL,
+	"zip_code" varchar(20),
+	"is_default" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "GMP_users" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "GMP_addresses" ADD CONSTRAINT "GMP_addresses_user_id_GMP_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."GMP_users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "GMP_product_stock" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"product_id" integer NOT NULL,
+	"size" varchar(50) NOT NULL,
+	"quantity" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "GMP_product_stock_product_id_size_unique" UNIQUE("product_id","size")
+);
+--> statement-breakpoint
+ALTER TABLE "GMP_products" ADD COLUMN "low_stock_threshold" integer DEFAULT 5 NOT NULL;--> statement-breakpoint
+ALTER TABLE "GMP_product_stock" ADD CONSTRAINT "GMP_product_stock_product_id_GMP_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."GMP_products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Create a stock row for every existing size (or "default" when a product has no sizes)
+-- Nothing is known about real quantities, so every size starts at 0 and checkout
+-- refuses it until a seller or admin sets the stock (PUT /api/v1/products/product/:id/stock)
+-- in_stock is left as it was and is recomputed when the stock is set
+INSERT INTO "GMP_product_stock" ("product_id", "size", "quantity")
+SELECT p."id", s."size", 0
+FROM "GMP_products" p
+CROSS JOIN LATERAL (
+  SELECT json_array_elements_text(p."sizes") AS "size"
+  WHERE json_typeof(p."sizes") = 'array' AND json_array_length(p."sizes") > 0
+  UNION ALL
+  SELECT 'default'
+  WHERE p."sizes" IS NULL OR json_typeof(p."sizes") <> 'array' OR json_array_length(p."sizes") = 0
+) s
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,13 @@
+CREATE TABLE "GMP_idempotency_keys" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"scope" varchar(100) NOT NULL,
+	"key" varchar(255) NOT NULL,
+	"request_hash" varchar(64) NOT NULL,
+	"order_id" integer,
+	"response_status" integer,
+	"response_body" json,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "GMP_idempotency_keys_scope_key_unique" UNIQUE("scope","key")
+);
+--> statement-breakpoint
+ALTER TABLE "GMP_idempotency_keys" ADD CONSTRAINT "GMP_idempotency_keys_order_id_GMP_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."GMP_orders"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
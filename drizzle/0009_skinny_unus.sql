@@ -0,0 +1,17 @@
+CREATE TABLE "GMP_order_status_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"order_id" integer NOT NULL,
+	"from_status" varchar(50),
+	"to_status" varchar(50) NOT NULL,
+	"changed_by" integer,
+	"actor_role" varchar(50) NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "GMP_order_status_history" ADD CONSTRAINT "GMP_order_status_history_order_id_GMP_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."GMP_orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_order_status_history" ADD CONSTRAINT "GMP_order_status_history_changed_by_GMP_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."GMP_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Seed history with each existing order's current status
+INSERT INTO "GMP_order_status_history" ("order_id", "from_status", "to_status", "actor_role", "note", "created_at")
+SELECT "id", NULL, coalesce("status", 'pending'), 'system', 'Recorded when status history was introduced', coalesce("updated_at", "created_at", now())
+FROM "GMP_orders";
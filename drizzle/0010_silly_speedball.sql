@@ -0,0 +1,5 @@
+ALTER TABLE "GMP_orders" ADD COLUMN "order_number" varchar(20);--> statement-breakpoint
+-- Existing orders get a number derived from their id
+UPDATE "GMP_orders" SET "order_number" = 'GMP-' || lpad("id"::text, 8, '0');--> statement-breakpoint
+ALTER TABLE "GMP_orders" ALTER COLUMN "order_number" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "GMP_orders" ADD CONSTRAINT "GMP_orders_order_number_unique" UNIQUE("order_number");
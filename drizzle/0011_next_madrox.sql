@@ -0,0 +1,9 @@
+-- Full-text and typo-tolerant product search (see src/services/productSearch.service.ts)
+-- The index expression must stay identical to productSearchDocument
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "GMP_products_search_document_idx" ON "GMP_products" USING gin ((
+  setweight(to_tsvector('english'::regconfig, coalesce("name", '')), 'A') ||
+  setweight(to_tsvector('english'::regconfig, coalesce("category", '') || ' ' || coalesce("sub_category", '')), 'B') ||
+  setweight(to_tsvector('english'::regconfig, coalesce("description", '')), 'C')
+));--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "GMP_products_name_trgm_idx" ON "GMP_products" USING gin ("name" gin_trgm_ops);
@@ -0,0 +1,22 @@
+CREATE TABLE "GMP_seller_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"business_name" varchar(255) NOT NULL,
+	"slug" varchar(255) NOT NULL,
+	"description" text,
+	"ghana_card_number" varchar(20),
+	"business_registration_number" varchar(50),
+	"payout_momo_number" varchar(20) NOT NULL,
+	"payout_momo_provider" varchar(50) NOT NULL,
+	"status" varchar(50) DEFAULT 'pending' NOT NULL,
+	"rejection_reason" text,
+	"reviewed_by" integer,
+	"reviewed_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "GMP_seller_profiles_user_id_unique" UNIQUE("user_id"),
+	CONSTRAINT "GMP_seller_profiles_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+ALTER TABLE "GMP_seller_profiles" ADD CONSTRAINT "GMP_seller_profiles_user_id_GMP_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."GMP_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_seller_profiles" ADD CONSTRAINT "GMP_seller_profiles_reviewed_by_GMP_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."GMP_users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
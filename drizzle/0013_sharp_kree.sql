@@ -0,0 +1,30 @@
+CREATE TABLE "GMP_order_fulfilments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"order_id" integer NOT NULL,
+	"seller_id" integer,
+	"status" varchar(50) DEFAULT 'pending' NOT NULL,
+	"tracking_number" varchar(100),
+	"carrier" varchar(100),
+	"shipping_fee" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "GMP_order_items" ADD COLUMN "fulfilment_id" integer;--> statement-breakpoint
+ALTER TABLE "GMP_order_status_history" ADD COLUMN "fulfilment_id" integer;--> statement-breakpoint
+ALTER TABLE "GMP_order_fulfilments" ADD CONSTRAINT "GMP_order_fulfilments_order_id_GMP_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."GMP_orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_order_fulfilments" ADD CONSTRAINT "GMP_order_fulfilments_seller_id_GMP_users_id_fk" FOREIGN KEY ("seller_id") REFERENCES "public"."GMP_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_order_items" ADD CONSTRAINT "GMP_order_items_fulfilment_id_GMP_order_fulfilments_id_fk" FOREIGN KEY ("fulfilment_id") REFERENCES "public"."GMP_order_fulfilments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_order_status_history" ADD CONSTRAINT "GMP_order_status_history_fulfilment_id_GMP_order_fulfilments_id_fk" FOREIGN KEY ("fulfilment_id") REFERENCES "public"."GMP_order_fulfilments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Backfill: one fulfilment per seller in each existing order, carrying the order's status
+INSERT INTO "GMP_order_fulfilments" ("order_id", "seller_id", "status", "created_at", "updated_at")
+SELECT DISTINCT oi."order_id", p."seller_id", coalesce(o."status", 'pending'), o."created_at", o."updated_at"
+FROM "GMP_order_items" oi
+JOIN "GMP_products" p ON p."id" = oi."product_id"
+JOIN "GMP_orders" o ON o."id" = oi."order_id";--> statement-breakpoint
+UPDATE "GMP_order_items" oi
+SET "fulfilment_id" = f."id"
+FROM "GMP_products" p, "GMP_order_fulfilments" f
+WHERE p."id" = oi."product_id"
+  AND f."order_id" = oi."order_id"
+  AND f."seller_id" IS NOT DISTINCT FROM p."seller_id";
@@ -0,0 +1,59 @@
+CREATE TABLE "GMP_commission_rates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"category_id" integer,
+	"seller_id" integer,
+	"rate" numeric(5, 4) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "GMP_commission_rates_category_id_unique" UNIQUE("category_id"),
+	CONSTRAINT "GMP_commission_rates_seller_id_unique" UNIQUE("seller_id")
+);
+--> statement-breakpoint
+CREATE TABLE "GMP_ledger_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"entry_group" varchar(64) NOT NULL,
+	"entry_type" varchar(50) NOT NULL,
+	"account" varchar(50) NOT NULL,
+	"seller_id" integer,
+	"order_item_id" integer,
+	"payout_id" integer,
+	"debit" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"credit" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"commission_rate" numeric(5, 4),
+	"memo" text,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "GMP_ledger_entries_order_item_id_account_unique" UNIQUE("order_item_id","account")
+);
+--> statement-breakpoint
+CREATE TABLE "GMP_payout_batches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"status" varchar(50) DEFAULT 'pending' NOT NULL,
+	"total_amount" numeric(12, 2) NOT NULL,
+	"payout_count" integer NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now(),
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "GMP_payouts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"batch_id" integer NOT NULL,
+	"seller_id" integer NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"momo_number" varchar(20) NOT NULL,
+	"momo_provider" varchar(50) NOT NULL,
+	"status" varchar(50) DEFAULT 'pending' NOT NULL,
+	"provider_reference" varchar(255),
+	"failure_reason" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "GMP_commission_rates" ADD CONSTRAINT "GMP_commission_rates_category_id_GMP_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."GMP_categories"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_commission_rates" ADD CONSTRAINT "GMP_commission_rates_seller_id_GMP_users_id_fk" FOREIGN KEY ("seller_id") REFERENCES "public"."GMP_users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_ledger_entries" ADD CONSTRAINT "GMP_ledger_entries_seller_id_GMP_users_id_fk" FOREIGN KEY ("seller_id") REFERENCES "public"."GMP_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_ledger_entries" ADD CONSTRAINT "GMP_ledger_entries_order_item_id_GMP_order_items_id_fk" FOREIGN KEY ("order_item_id") REFERENCES "public"."GMP_order_items"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_ledger_entries" ADD CONSTRAINT "GMP_ledger_entries_payout_id_GMP_payouts_id_fk" FOREIGN KEY ("payout_id") REFERENCES "public"."GMP_payouts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_payout_batches" ADD CONSTRAINT "GMP_payout_batches_created_by_GMP_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."GMP_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_payouts" ADD CONSTRAINT "GMP_payouts_batch_id_GMP_payout_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."GMP_payout_batches"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_payouts" ADD CONSTRAINT "GMP_payouts_seller_id_GMP_users_id_fk" FOREIGN KEY ("seller_id") REFERENCES "public"."GMP_users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,48 @@
+CREATE TABLE "GMP_coupon_redemptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"coupon_id" integer NOT NULL,
+	"order_id" integer NOT NULL,
+	"user_id" integer,
+	"guest_email" varchar(255),
+	"discount_amount" numeric(10, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "GMP_coupon_redemptions_order_id_unique" UNIQUE("order_id")
+);
+--> statement-breakpoint
+CREATE TABLE "GMP_coupons" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" varchar(50) NOT NULL,
+	"description" text,
+	"type" varchar(50) NOT NULL,
+	"value" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"max_discount_amount" numeric(10, 2),
+	"min_order_amount" numeric(10, 2),
+	"category_id" integer,
+	"seller_id" integer,
+	"usage_limit" integer,
+	"per_user_limit" integer,
+	"used_count" integer DEFAULT 0 NOT NULL,
+	"starts_at" timestamp,
+	"expires_at" timestamp,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "GMP_coupons_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "GMP_order_items" ADD COLUMN "discount_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+-- Existing orders had no discounts or shipping, so their subtotal is the total
+ALTER TABLE "GMP_orders" ADD COLUMN "subtotal_amount" numeric(10, 2);--> statement-breakpoint
+UPDATE "GMP_orders" SET "subtotal_amount" = "total_amount";--> statement-breakpoint
+ALTER TABLE "GMP_orders" ALTER COLUMN "subtotal_amount" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "GMP_orders" ADD COLUMN "shipping_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "GMP_orders" ADD COLUMN "discount_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "GMP_orders" ADD COLUMN "coupon_code" varchar(50);--> statement-breakpoint
+ALTER TABLE "GMP_orders" ADD COLUMN "discount_breakdown" json;--> statement-breakpoint
+ALTER TABLE "GMP_coupon_redemptions" ADD CONSTRAINT "GMP_coupon_redemptions_coupon_id_GMP_coupons_id_fk" FOREIGN KEY ("coupon_id") REFERENCES "public"."GMP_coupons"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_coupon_redemptions" ADD CONSTRAINT "GMP_coupon_redemptions_order_id_GMP_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."GMP_orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_coupon_redemptions" ADD CONSTRAINT "GMP_coupon_redemptions_user_id_GMP_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."GMP_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_coupons" ADD CONSTRAINT "GMP_coupons_category_id_GMP_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."GMP_categories"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_coupons" ADD CONSTRAINT "GMP_coupons_seller_id_GMP_users_id_fk" FOREIGN KEY ("seller_id") REFERENCES "public"."GMP_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_coupons" ADD CONSTRAINT "GMP_coupons_created_by_GMP_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."GMP_users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,46 @@
+CREATE TABLE "GMP_delivery_zones" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"regions" json DEFAULT '[]'::json NOT NULL,
+	"rate_type" varchar(20) DEFAULT 'weight' NOT NULL,
+	"base_fee" numeric(10, 2) NOT NULL,
+	"per_unit_fee" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"included_units" integer DEFAULT 1 NOT NULL,
+	"eta_min_days" integer NOT NULL,
+	"eta_max_days" integer NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "GMP_delivery_zones_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE "GMP_pickup_points" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"zone_id" integer NOT NULL,
+	"name" varchar(150) NOT NULL,
+	"address" varchar(255) NOT NULL,
+	"city" varchar(100) NOT NULL,
+	"opening_hours" varchar(255),
+	"fee" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"eta_min_days" integer NOT NULL,
+	"eta_max_days" integer NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "GMP_orders" ADD COLUMN "delivery_method" varchar(20) DEFAULT 'delivery' NOT NULL;--> statement-breakpoint
+ALTER TABLE "GMP_orders" ADD COLUMN "delivery_zone_id" integer;--> statement-breakpoint
+ALTER TABLE "GMP_orders" ADD COLUMN "pickup_point_id" integer;--> statement-breakpoint
+ALTER TABLE "GMP_orders" ADD COLUMN "estimated_delivery_from" timestamp;--> statement-breakpoint
+ALTER TABLE "GMP_orders" ADD COLUMN "estimated_delivery_to" timestamp;--> statement-breakpoint
+ALTER TABLE "GMP_products" ADD COLUMN "weight_kg" numeric(8, 3);--> statement-breakpoint
+ALTER TABLE "GMP_pickup_points" ADD CONSTRAINT "GMP_pickup_points_zone_id_GMP_delivery_zones_id_fk" FOREIGN KEY ("zone_id") REFERENCES "public"."GMP_delivery_zones"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_orders" ADD CONSTRAINT "GMP_orders_delivery_zone_id_GMP_delivery_zones_id_fk" FOREIGN KEY ("delivery_zone_id") REFERENCES "public"."GMP_delivery_zones"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_orders" ADD CONSTRAINT "GMP_orders_pickup_point_id_GMP_pickup_points_id_fk" FOREIGN KEY ("pickup_point_id") REFERENCES "public"."GMP_pickup_points"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Default zones covering all 16 regions; admins can change rates at /api/v1/shipping/zones
+INSERT INTO "GMP_delivery_zones" ("name", "regions", "rate_type", "base_fee", "per_unit_fee", "included_units", "eta_min_days", "eta_max_days") VALUES
+	('Greater Accra', '["Greater Accra"]', 'weight', '25.00', '5.00', 1, 1, 2),
+	('Southern', '["Ashanti","Central","Eastern","Western","Volta"]', 'weight', '35.00', '7.00', 1, 2, 4),
+	('Middle Belt', '["Bono","Bono East","Ahafo","Western North","Oti"]', 'weight', '45.00', '8.00', 1, 3, 5),
+	('Northern', '["Northern","Savannah","North East","Upper East","Upper West"]', 'weight', '55.00', '10.00', 1, 4, 7);
@@ -0,0 +1,2 @@
+ALTER TABLE "GMP_addresses" ADD COLUMN "digital_address" varchar(20);--> statement-breakpoint
+ALTER TABLE "GMP_addresses" ADD COLUMN "landmark" varchar(255);
\ No newline at end of file
@@ -0,0 +1,16 @@
+ALTER TABLE "GMP_cart" ALTER COLUMN "size" SET DEFAULT 'default';--> statement-breakpoint
+UPDATE "GMP_cart" SET "size" = 'default' WHERE "size" IS NULL;--> statement-breakpoint
+ALTER TABLE "GMP_cart" ALTER COLUMN "size" SET NOT NULL;--> statement-breakpoint
+-- Existing lines are priced at today's price, so none start out flagged as changed
+ALTER TABLE "GMP_cart" ADD COLUMN "price_at_add" numeric(10, 2);--> statement-breakpoint
+UPDATE "GMP_cart" SET "price_at_add" = "GMP_products"."price" FROM "GMP_products" WHERE "GMP_products"."id" = "GMP_cart"."product_id";--> statement-breakpoint
+ALTER TABLE "GMP_cart" ALTER COLUMN "price_at_add" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "GMP_cart" ADD COLUMN "updated_at" timestamp DEFAULT now();--> statement-breakpoint
+-- Duplicate lines were possible before the unique constraint; keep the newest with the largest quantity
+UPDATE "GMP_cart" SET "quantity" = "merged"."quantity" FROM (
+  SELECT max("id") AS "id", max("quantity") AS "quantity" FROM "GMP_cart" GROUP BY "user_id", "product_id", "size"
+) AS "merged" WHERE "GMP_cart"."id" = "merged"."id";--> statement-breakpoint
+DELETE FROM "GMP_cart" WHERE "id" NOT IN (
+  SELECT max("id") FROM "GMP_cart" GROUP BY "user_id", "product_id", "size"
+);--> statement-breakpoint
+ALTER TABLE "GMP_cart" ADD CONSTRAINT "GMP_cart_user_id_product_id_size_unique" UNIQUE("user_id","product_id","size");
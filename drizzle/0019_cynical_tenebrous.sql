@@ -0,0 +1,12 @@
+CREATE TABLE "GMP_guest_carts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "GMP_cart" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "GMP_cart" ADD COLUMN "guest_cart_id" integer;--> statement-breakpoint
+ALTER TABLE "GMP_cart" ADD CONSTRAINT "GMP_cart_guest_cart_id_GMP_guest_carts_id_fk" FOREIGN KEY ("guest_cart_id") REFERENCES "public"."GMP_guest_carts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_cart" ADD CONSTRAINT "GMP_cart_guest_cart_id_product_id_size_unique" UNIQUE("guest_cart_id","product_id","size");--> statement-breakpoint
+ALTER TABLE "GMP_cart" ADD CONSTRAINT "GMP_cart_one_owner" CHECK (("GMP_cart"."user_id" is null) <> ("GMP_cart"."guest_cart_id" is null));
\ No newline at end of file
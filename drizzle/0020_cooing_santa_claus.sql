@@ -0,0 +1,34 @@
+CREATE TABLE "GMP_abandoned_carts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"guest_cart_id" integer,
+	"item_count" integer NOT NULL,
+	"cart_value" numeric(10, 2) NOT NULL,
+	"last_activity_at" timestamp NOT NULL,
+	"detected_at" timestamp DEFAULT now() NOT NULL,
+	"reminded_at" timestamp,
+	"recovered_order_id" integer,
+	"recovered_amount" numeric(10, 2),
+	"recovered_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "GMP_notifications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"kind" varchar(50) NOT NULL,
+	"channel" varchar(10) NOT NULL,
+	"recipient" varchar(255) NOT NULL,
+	"subject" varchar(255),
+	"body" text NOT NULL,
+	"user_id" integer,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"transport" varchar(50),
+	"provider_reference" varchar(255),
+	"error" text,
+	"created_at" timestamp DEFAULT now(),
+	"sent_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "GMP_abandoned_carts" ADD CONSTRAINT "GMP_abandoned_carts_user_id_GMP_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."GMP_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_abandoned_carts" ADD CONSTRAINT "GMP_abandoned_carts_guest_cart_id_GMP_guest_carts_id_fk" FOREIGN KEY ("guest_cart_id") REFERENCES "public"."GMP_guest_carts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_abandoned_carts" ADD CONSTRAINT "GMP_abandoned_carts_recovered_order_id_GMP_orders_id_fk" FOREIGN KEY ("recovered_order_id") REFERENCES "public"."GMP_orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_notifications" ADD CONSTRAINT "GMP_notifications_user_id_GMP_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."GMP_users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
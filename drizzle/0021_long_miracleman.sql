@@ -0,0 +1,18 @@
+CREATE TABLE "GMP_notification_preferences" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"language" varchar(5) DEFAULT 'en' NOT NULL,
+	"email_enabled" boolean DEFAULT true NOT NULL,
+	"sms_enabled" boolean DEFAULT true NOT NULL,
+	"order_updates" boolean DEFAULT true NOT NULL,
+	"cart_reminders" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "GMP_notification_preferences_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "GMP_notifications" ADD COLUMN "attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "GMP_notifications" ADD COLUMN "next_attempt_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+-- Messages already sent or failed were tried once
+UPDATE "GMP_notifications" SET "attempts" = 1 WHERE "status" <> 'pending';--> statement-breakpoint
+ALTER TABLE "GMP_notification_preferences" ADD CONSTRAINT "GMP_notification_preferences_user_id_GMP_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."GMP_users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
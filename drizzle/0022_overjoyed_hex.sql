@@ -0,0 +1,17 @@
+CREATE TABLE "GMP_wishlist" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"product_id" integer NOT NULL,
+	"size" varchar(50) DEFAULT 'default' NOT NULL,
+	"price_at_add" numeric(10, 2) NOT NULL,
+	"alert_price_drop" boolean DEFAULT false NOT NULL,
+	"alert_back_in_stock" boolean DEFAULT false NOT NULL,
+	"watch_price" numeric(10, 2) NOT NULL,
+	"was_in_stock" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "GMP_wishlist_user_id_product_id_size_unique" UNIQUE("user_id","product_id","size")
+);
+--> statement-breakpoint
+ALTER TABLE "GMP_wishlist" ADD CONSTRAINT "GMP_wishlist_user_id_GMP_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."GMP_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_wishlist" ADD CONSTRAINT "GMP_wishlist_product_id_GMP_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."GMP_products"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "GMP_seller_profiles" ALTER COLUMN "payout_momo_number" DROP NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "GMP_ledger_entries" ADD COLUMN "fulfilment_id" integer;--> statement-breakpoint
+ALTER TABLE "GMP_order_fulfilments" ADD COLUMN "shipping_discount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "GMP_ledger_entries" ADD CONSTRAINT "GMP_ledger_entries_fulfilment_id_GMP_order_fulfilments_id_fk" FOREIGN KEY ("fulfilment_id") REFERENCES "public"."GMP_order_fulfilments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "GMP_ledger_entries" ADD CONSTRAINT "GMP_ledger_entries_fulfilment_id_account_unique" UNIQUE("fulfilment_id","account");
\ No newline at end of file
@@ -0,0 +1,42 @@
+import express from "express";
+import v1Routes from "./routes/v1/index.js";
+import { requestId } from "./middleware/requestId.middleware.js";
+import {
+  notFoundHandler,
+  errorHandler,
+} from "./middleware/error.middleware.js";
+
+
+const app = express();
+
+// Middleware
+app.use(requestId);
+
+// Keep the raw body so payment webhooks can verify provider signatures
+app.use(
+  express.json({
+    verify: (req, _res, buf) => {
+      (req as typeof req & { rawBody?: Buffer }).rawBody = buf;
+    },
+  })
+);
+
+// Health check
+app.get("/", (req, res)=>{
+    res.json({
+        message: "Ghana Marketplace API",
+        status: "running",
+        version: "1.0.0"
+        
+    });
+});
+
+//API Routes -v1
+
+app.use("/api/v1", v1Routes);
+
+// Errors: unmatched routes, then every error thrown or passed on by a handler
+app.use(notFoundHandler);
+app.use(errorHandler);
+
+export default app;
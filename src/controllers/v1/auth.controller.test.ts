@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { refreshTokens } from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import { resetDb } from "../../test/db.js";
+import { api } from "../../test/http.js";
+import { TEST_PASSWORD, createUser } from "../../test/fixtures.js";
+
+vi.mock("../../db/index.js", () => import("../../test/db.js"));
+
+const login = async (email: string) => {
+  const response = await api("POST", "/auth/login", { body: { email, password: TEST_PASSWORD } });
+  expect(response.status).toBe(200);
+  return response.body.data.refreshToken as string;
+};
+
+const refresh = (refreshToken: string) => api("POST", "/auth/refresh", { body: { refreshToken } });
+
+describe("POST /auth/refresh", () => {
+  let email: string;
+
+  beforeEach(async () => {
+    await resetDb();
+    ({ email } = await createUser());
+  });
+
+  it("rotates the refresh token and links the old one to its replacement", async () => {
+    const first = await login(email);
+
+    const response = await refresh(first);
+    expect(response.status).toBe(200);
+    expect(response.body.data.accessToken).toEqual(expect.any(String));
+    expect(response.body.data.refreshToken).not.toBe(first);
+
+    const tokens = await db.select().from(refreshTokens).orderBy(refreshTokens.id);
+    expect(tokens).toHaveLength(2);
+    expect(tokens[0]!.revokedAt).not.toBeNull();
+    expect(tokens[0]!.replacedByTokenId).toBe(tokens[1]!.id);
+    expect(tokens[1]!.revokedAt).toBeNull();
+
+    expect((await refresh(response.body.data.refreshToken)).status).toBe(200);
+  });
+
+  it("treats reuse of a rotated token as theft and ends every session", async () => {
+    const first = await login(email);
+    const otherDevice = await login(email);
+    const second = (await refresh(first)).body.data.refreshToken;
+
+    const reused = await refresh(first);
+    expect(reused.status).toBe(401);
+    expect(reused.body.message).toBe("Refresh token has been revoked");
+
+    expect((await refresh(second)).status).toBe(401);
+    expect((await refresh(otherDevice)).status).toBe(401);
+  });
+
+  it("lets only one of two concurrent refreshes with the same token through", async () => {
+    const first = await login(email);
+
+    const responses = await Promise.all([refresh(first), refresh(first)]);
+    expect(responses.map(({ status }) => status).sort()).toEqual([200, 401]);
+
+    const winner = responses.find(({ status }) => status === 200)!;
+    expect((await refresh(winner.body.data.refreshToken)).status).toBe(401);
+  });
+
+  it("rejects an unknown token", async () => {
+    const response = await refresh("not-a-token");
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe("Invalid refresh token");
+  });
+
+  it("rejects an expired token", async () => {
+    const token = await login(email);
+    await db.update(refreshTokens).set({ expiresAt: new Date(Date.now() - 1000) });
+
+    const response = await refresh(token);
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe("Refresh token has expired");
+  });
+
+  it("stops accepting a token after logout", async () => {
+    const token = await login(email);
+    expect((await api("POST", "/auth/logout", { body: { refreshToken: token } })).status).toBe(200);
+
+    const response = await refresh(token);
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe("Refresh token has been revoked");
+  });
+});
@@ -0,0 +1,261 @@
+import type { Request, Response } from "express";
+import { users, refreshTokens } from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import { eq, and, isNull } from "drizzle-orm";
+import type { AuthRequest } from "../../middleware/auth.middleware.js";
+import {
+  signAccessToken,
+  generateRefreshToken,
+  hashToken,
+} from "../../utils/token.js";
+import { hashPassword, verifyPassword } from "../../utils/password.js";
+import { toPublicUser } from "../../utils/user.js";
+import {
+  CART_TOKEN_HEADER,
+  findGuestCart,
+  mergeGuestCart,
+} from "../../services/cart.service.js";
+import type {
+  RegisterBody,
+  LoginBody,
+  RefreshTokenBody,
+} from "../../schemas/v1/auth.schema.js";
+import { ConflictError, NotFoundError, UnauthorizedError } from "../../utils/errors.js";
+
+type UserRow = typeof users.$inferSelect;
+
+// Issue an access token and persist a new refresh token for the user
+const issueTokens = async (user: UserRow) => {
+  const accessToken = signAccessToken({
+    id: user.id,
+    email: user.email,
+    role: user.role || "customer",
+  });
+  const { token, tokenHash, expiresAt } = generateRefreshToken();
+
+  await db.insert(refreshTokens).values({
+    userId: user.id,
+    tokenHash,
+    expiresAt,
+  });
+
+  return { accessToken, refreshToken: token };
+};
+
+// A guest cart sent in X-Cart-Token moves into the user's cart on login or register
+// Returns the number of lines merged; the cart token stops working afterwards
+const adoptGuestCart = async (req: Request, userId: number) => {
+  const token = req.get(CART_TOKEN_HEADER);
+  const guestCart = token ? await findGuestCart(token) : undefined;
+
+  return guestCart ? mergeGuestCart(guestCart.guestCartId, userId) : 0;
+};
+
+// POST /api/v1/auth/register - Create a customer account
+export const register = async (req: Request, res: Response) => {
+  const { name, email, password, phone } = req.body as RegisterBody;
+
+  const existingUser = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.email, email))
+    .limit(1);
+
+  if (existingUser.length) {
+    throw new ConflictError("An account with this email already exists");
+  }
+
+  const hashedPassword = await hashPassword(password);
+
+  // New accounts are always customers; roles are changed by admins
+  const newUser = await db
+    .insert(users)
+    .values({
+      name,
+      email,
+      password: hashedPassword,
+      phone: phone || null,
+      role: "customer",
+    })
+    .returning();
+
+  if (!newUser.length || !newUser[0]) {
+    return res.status(500).json({
+      success: false,
+      message: "Failed to create account",
+    });
+  }
+
+  const tokens = await issueTokens(newUser[0]);
+  const cartItemsMerged = await adoptGuestCart(req, newUser[0].id);
+
+  res.status(201).json({
+    success: true,
+    message: "Account created successfully",
+    data: {
+      user: toPublicUser(newUser[0]),
+      ...tokens,
+      cartItemsMerged,
+    },
+  });
+};
+
+// POST /api/v1/auth/login - Exchange email and password for tokens
+export const login = async (req: Request, res: Response) => {
+  const { email, password } = req.body as LoginBody;
+
+  const user = await db
+    .select()
+    .from(users)
+    .where(eq(users.email, email))
+    .limit(1);
+
+  const passwordMatches =
+    user[0] !== undefined &&
+    (await verifyPassword(String(password), user[0].password));
+
+  if (!user[0] || !passwordMatches) {
+    throw new UnauthorizedError("Invalid email or password");
+  }
+
+  const tokens = await issueTokens(user[0]);
+  const cartItemsMerged = await adoptGuestCart(req, user[0].id);
+
+  res.json({
+    success: true,
+    message: "Logged in successfully",
+    data: {
+      user: toPublicUser(user[0]),
+      ...tokens,
+      cartItemsMerged,
+    },
+  });
+};
+
+// Revoke every refresh token the user still has, ending all their sessions
+const revokeUserSessions = (userId: number) =>
+  db
+    .update(refreshTokens)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt)));
+
+// POST /api/v1/auth/refresh - Rotate a refresh token
+// Purpose: Each refresh token can be used once; reuse revokes the whole session family
+export const refresh = async (req: Request, res: Response) => {
+  const { refreshToken } = req.body as RefreshTokenBody;
+
+  const stored = await db
+    .select()
+    .from(refreshTokens)
+    .where(eq(refreshTokens.tokenHash, hashToken(refreshToken)))
+    .limit(1);
+
+  if (!stored.length || !stored[0]) {
+    throw new UnauthorizedError("Invalid refresh token");
+  }
+
+  const storedToken = stored[0];
+
+  // A revoked token being presented again means it was likely stolen
+  if (storedToken.revokedAt) {
+    await revokeUserSessions(storedToken.userId);
+    throw new UnauthorizedError("Refresh token has been revoked");
+  }
+
+  if (storedToken.expiresAt < new Date()) {
+    throw new UnauthorizedError("Refresh token has expired");
+  }
+
+  const user = await db
+    .select()
+    .from(users)
+    .where(eq(users.id, storedToken.userId))
+    .limit(1);
+
+  if (!user.length || !user[0]) {
+    throw new UnauthorizedError("Invalid refresh token");
+  }
+
+  const userData = user[0];
+  const { token, tokenHash, expiresAt } = generateRefreshToken();
+
+  const rotated = await db.transaction(async (tx) => {
+    // Claim the old token first: of two concurrent refreshes with the same
+    // token, only one finds it unrevoked
+    const claimed = await tx
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.id, storedToken.id), isNull(refreshTokens.revokedAt)))
+      .returning({ id: refreshTokens.id });
+
+    if (!claimed.length) return false;
+
+    const inserted = await tx
+      .insert(refreshTokens)
+      .values({ userId: userData.id, tokenHash, expiresAt })
+      .returning({ id: refreshTokens.id });
+
+    await tx
+      .update(refreshTokens)
+      .set({ replacedByTokenId: inserted[0]?.id ?? null })
+      .where(eq(refreshTokens.id, storedToken.id));
+
+    return true;
+  });
+
+  // Lost the race: the token was used twice, which is treated as reuse
+  if (!rotated) {
+    await revokeUserSessions(storedToken.userId);
+    throw new UnauthorizedError("Refresh token has been revoked");
+  }
+
+  res.json({
+    success: true,
+    data: {
+      accessToken: signAccessToken({
+        id: userData.id,
+        email: userData.email,
+        role: userData.role || "customer",
+      }),
+      refreshToken: token,
+    },
+  });
+};
+
+// POST /api/v1/auth/logout - Revoke a refresh token
+export const logout = async (req: Request, res: Response) => {
+  const { refreshToken } = req.body as RefreshTokenBody;
+
+  await db
+    .update(refreshTokens)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(refreshTokens.tokenHash, hashToken(refreshToken)),
+        isNull(refreshTokens.revokedAt)
+      )
+    );
+
+  res.json({
+    success: true,
+    message: "Logged out successfully",
+  });
+};
+
+// GET /api/v1/auth/me - Get the currently authenticated user
+export const getMe = async (req: AuthRequest, res: Response) => {
+  const user = await db
+    .select()
+    .from(users)
+    .where(eq(users.id, req.user!.id))
+    .limit(1);
+
+  if (!user.length || !user[0]) {
+    throw new NotFoundError("User not found");
+  }
+
+  res.json({
+    success: true,
+    data: toPublicUser(user[0]),
+  });
+};
@@ -0,0 +1,271 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { cart, guestCarts, products } from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import { resetDb } from "../../test/db.js";
+import { api } from "../../test/http.js";
+import { TEST_PASSWORD, createProduct, createUser } from "../../test/fixtures.js";
+import { setStockLevels } from "../../services/inventory.service.js";
+import { deleteExpiredGuestCarts } from "../../services/cart.service.js";
+
+vi.mock("../../db/index.js", () => import("../../test/db.js"));
+
+let shirt: number;
+let mug: number;
+
+beforeEach(async () => {
+  await resetDb();
+  shirt = (await createProduct({ sizes: ["S", "M"], price: "50.00" }, { S: 150, M: 1 })).id;
+  mug = (await createProduct({ name: "Mug", price: "15.00" }, { default: 3 })).id;
+});
+
+describe("cart lines", () => {
+  let token: string;
+
+  beforeEach(async () => {
+    ({ token } = await createUser());
+  });
+
+  const add = (body: object) => api("POST", "/cart/items", { token, body });
+  const getCart = async () => (await api("GET", "/cart", { token })).body.data;
+
+  it("adds a line and prices the cart", async () => {
+    const response = await add({ productId: shirt, size: "S", quantity: 2 });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({
+      items: [{ productId: shirt, size: "S", quantity: 2, unitPrice: "50.00", lineTotal: "100.00" }],
+      itemCount: 2,
+      subtotal: "100.00",
+      hasChanges: false,
+    });
+  });
+
+  it("fills in the size of a product that comes in one", async () => {
+    await add({ productId: mug });
+
+    expect((await getCart()).cartItems).toEqual({ [mug]: { default: 1 } });
+  });
+
+  it("adds to the line already in the cart", async () => {
+    await add({ productId: shirt, size: "S", quantity: 2 });
+    await add({ productId: shirt, size: "S", quantity: 3 });
+
+    expect((await getCart()).items).toMatchObject([{ quantity: 5 }]);
+  });
+
+  it.each([
+    { name: "zero", quantity: 0 },
+    { name: "a fraction", quantity: 1.5 },
+    { name: "over the limit", quantity: 101 },
+  ])("rejects a quantity of $name", async ({ quantity }) => {
+    const response = await add({ productId: shirt, size: "S", quantity });
+
+    expect(response.status).toBe(400);
+    expect(response.body.data.errors).toMatchObject([{ field: "quantity" }]);
+  });
+
+  it("rejects an add that takes the line over the limit", async () => {
+    await add({ productId: shirt, size: "S", quantity: 60 });
+    const response = await add({ productId: shirt, size: "S", quantity: 50 });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({
+      code: "INVALID_QUANTITY",
+      message: "Must be at most 100",
+    });
+    expect((await getCart()).items).toMatchObject([{ quantity: 60 }]);
+  });
+
+  it("rejects a size the product doesn't come in", async () => {
+    const response = await add({ productId: shirt, size: "XL" });
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe("INVALID_SIZE");
+  });
+
+  it("rejects an add that takes the line over the stock", async () => {
+    await add({ productId: mug, quantity: 2 });
+    const response = await add({ productId: mug, quantity: 2 });
+
+    expect(response.status).toBe(409);
+    expect(response.body).toMatchObject({
+      code: "INSUFFICIENT_STOCK",
+      data: { requested: 4, available: 3 },
+    });
+  });
+
+  it("sets a line's quantity within stock and the limit", async () => {
+    const line = (await add({ productId: shirt, size: "S" })).body.data.items[0];
+    const update = (quantity: number) =>
+      api("PATCH", `/cart/items/${line.id}`, { token, body: { quantity } });
+
+    expect((await update(100)).status).toBe(200);
+    expect((await update(101)).status).toBe(400);
+    expect((await getCart()).items).toMatchObject([{ quantity: 100 }]);
+  });
+
+  it("flags lines whose price changed or ran out of stock", async () => {
+    await add({ productId: shirt, size: "M" });
+    await add({ productId: mug, quantity: 3 });
+    await db.update(products).set({ price: "55.00" }).where(eq(products.id, shirt));
+    await setStockLevels(db, mug, { default: 0 });
+
+    expect(await getCart()).toMatchObject({
+      items: [
+        { productId: shirt, priceChanged: true, unitPrice: "55.00", priceAtAdd: "50.00" },
+        { productId: mug, priceChanged: false, outOfStock: true },
+      ],
+      hasChanges: true,
+    });
+  });
+
+  it("replaces the cart, dropping emptied lines", async () => {
+    await add({ productId: shirt, size: "S" });
+    const response = await api("POST", "/cart/save", {
+      token,
+      body: { cartItems: { [shirt]: { S: 0, M: 1 }, [mug]: { default: 2 } } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.cartItems).toEqual({
+      [shirt]: { M: 1 },
+      [mug]: { default: 2 },
+    });
+  });
+
+  it("saves nothing when a replaced line is over the stock", async () => {
+    await add({ productId: shirt, size: "S" });
+    const response = await api("POST", "/cart/save", {
+      token,
+      body: { cartItems: { [mug]: { default: 4 } } },
+    });
+
+    expect(response.status).toBe(409);
+    expect((await getCart()).cartItems).toEqual({ [shirt]: { S: 1 } });
+  });
+
+  it("removes a line", async () => {
+    const line = (await add({ productId: mug })).body.data.items[0];
+
+    expect((await api("DELETE", `/cart/items/${line.id}`, { token })).status).toBe(200);
+    expect((await getCart()).items).toEqual([]);
+  });
+});
+
+describe("guest carts", () => {
+  const asGuest = (cartToken?: string) => ({
+    headers: cartToken ? { "X-Cart-Token": cartToken } : {},
+  });
+  const add = (body: object, cartToken?: string) =>
+    api("POST", "/cart/items", { ...asGuest(cartToken), body });
+  const getCart = async (cartToken?: string) =>
+    (await api("GET", "/cart", asGuest(cartToken))).body.data;
+
+  // Every guest cart, or just the given one
+  const expire = (guestCartId?: number) =>
+    db
+      .update(guestCarts)
+      .set({ expiresAt: new Date(Date.now() - 1000) })
+      .where(guestCartId ? eq(guestCarts.id, guestCartId) : undefined);
+
+  it("starts a cart on the first add and hands back its token", async () => {
+    const response = await add({ productId: mug, quantity: 2 });
+    const cartToken = response.body.data.cartToken;
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get("X-Cart-Token")).toBe(cartToken);
+
+    await add({ productId: shirt, size: "M" }, cartToken);
+    expect(await getCart(cartToken)).toMatchObject({
+      cartItems: { [mug]: { default: 2 }, [shirt]: { M: 1 } },
+      subtotal: "80.00",
+    });
+    expect(await db.select().from(guestCarts)).toHaveLength(1);
+  });
+
+  it("reads as empty without a token or with a forged one", async () => {
+    await add({ productId: mug });
+
+    expect((await getCart()).items).toEqual([]);
+    expect((await getCart("not-a-cart-token")).items).toEqual([]);
+  });
+
+  it("keeps the line limit and stock rules of a user's cart", async () => {
+    const cartToken = (await add({ productId: shirt, size: "S", quantity: 60 })).body.data
+      .cartToken;
+
+    const overLimit = await add({ productId: shirt, size: "S", quantity: 50 }, cartToken);
+    expect(overLimit.status).toBe(400);
+    expect(overLimit.body.code).toBe("INVALID_QUANTITY");
+
+    const overStock = await add({ productId: mug, quantity: 4 }, cartToken);
+    expect(overStock.status).toBe(409);
+    expect(overStock.body.code).toBe("INSUFFICIENT_STOCK");
+  });
+
+  it("treats the token of an expired cart like no token", async () => {
+    const cartToken = (await add({ productId: mug })).body.data.cartToken;
+    await expire();
+
+    expect((await getCart(cartToken)).items).toEqual([]);
+
+    const response = await add({ productId: mug }, cartToken);
+    expect(response.body.data.cartToken).toBeDefined();
+    expect(response.body.data.cartToken).not.toBe(cartToken);
+  });
+
+  it("deletes expired carts with their lines", async () => {
+    await add({ productId: mug });
+    const kept = (await add({ productId: shirt, size: "S" })).body.data.cartToken;
+    const [first] = await db.select().from(guestCarts).orderBy(guestCarts.id);
+    await expire(first!.id);
+
+    expect(await deleteExpiredGuestCarts()).toBe(1);
+    expect(await db.select().from(cart)).toHaveLength(1);
+    expect((await getCart(kept)).cartItems).toEqual({ [shirt]: { S: 1 } });
+  });
+
+  describe("on login", () => {
+    let email: string;
+    let token: string;
+
+    beforeEach(async () => {
+      ({ email, token } = await createUser());
+    });
+
+    const login = (cartToken: string) =>
+      api("POST", "/auth/login", {
+        ...asGuest(cartToken),
+        body: { email, password: TEST_PASSWORD },
+      });
+
+    it("merges the guest cart, keeping the larger quantity and the user's price", async () => {
+      await api("POST", "/cart/items", {
+        token,
+        body: { productId: shirt, size: "S", quantity: 5 },
+      });
+      await db.update(products).set({ price: "55.00" }).where(eq(products.id, shirt));
+      const cartToken = (await add({ productId: shirt, size: "S", quantity: 3 })).body.data
+        .cartToken;
+      await add({ productId: mug, quantity: 2 }, cartToken);
+
+      const response = await login(cartToken);
+      expect(response.status).toBe(200);
+      expect(response.body.data.cartItemsMerged).toBe(2);
+
+      const merged = (await api("GET", "/cart", { token })).body.data;
+      expect(merged.cartItems).toEqual({ [shirt]: { S: 5 }, [mug]: { default: 2 } });
+      expect(merged.items).toMatchObject([{ productId: shirt, priceAtAdd: "50.00" }, {}]);
+    });
+
+    it("stops accepting the cart token afterwards", async () => {
+      const cartToken = (await add({ productId: mug })).body.data.cartToken;
+      await login(cartToken);
+
+      expect(await db.select().from(guestCarts)).toEqual([]);
+      expect((await getCart(cartToken)).items).toEqual([]);
+      expect((await login(cartToken)).body.data.cartItemsMerged).toBe(0);
+    });
+  });
+});
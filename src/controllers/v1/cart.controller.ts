@@ -1,256 +1,170 @@
-import type { Request, Response } from "express";
-import { cart, products } from "../../db/schema.js";
+import type { Response } from "express";
 import { db } from "../../db/index.js";
-import { eq, and } from "drizzle-orm";
+import type { AuthRequest } from "../../middleware/auth.middleware.js";
+import type {
+  AddCartItemBody,
+  CartBody,
+  UpdateCartItemBody,
+} from "../../schemas/v1/cart.schema.js";
+import {
+  CART_TOKEN_HEADER,
+  addCartLine,
+  clearCartLines,
+  createGuestCart,
+  emptyCart,
+  findGuestCart,
+  getPricedCart,
+  removeCartLine,
+  replaceCart,
+  updateCartLine,
+} from "../../services/cart.service.js";
+import type { CartOwner } from "../../services/cart.service.js";
+import {
+  listWishlistItems,
+  saveCartLineForLater,
+} from "../../services/wishlist.service.js";
+import { NotFoundError } from "../../utils/errors.js";
+
+// The cart a request works on: the logged-in user's, or the guest cart named by the
+// X-Cart-Token header; undefined for a guest without a live cart
+const findCart = async (req: AuthRequest): Promise<CartOwner | undefined> => {
+  if (req.user) return { userId: req.user.id };
+
+  const token = req.get(CART_TOKEN_HEADER);
+  return token ? await findGuestCart(token) : undefined;
+};
 
+// As findCart, but starts a new guest cart when there is none; its token is
+// returned in the X-Cart-Token header and in data.cartToken
+const findOrCreateCart = async (
+  req: AuthRequest,
+  res: Response
+): Promise<{ owner: CartOwner; cartToken?: string }> => {
+  const owner = await findCart(req);
+  if (owner) return { owner };
+
+  const { guestCartId, cartToken } = await createGuestCart();
+  res.setHeader(CART_TOKEN_HEADER, cartToken);
+  return { owner: { guestCartId }, cartToken };
+};
 
-interface AuthRequest extends Request {
-  user?: {
-    id: number;
-  };
-}
+const pricedCart = async (owner: CartOwner | undefined, cartToken?: string) => ({
+  ...(owner ? await getPricedCart(db, owner) : emptyCart()),
+  ...(cartToken ? { cartToken } : {}),
+});
 
-// GET /api/v1/cart - Get saved cart for logged-in user
-// Purpose: Retrieve user's saved cart from database (for multi-device sync)
+// GET /api/v1/cart - Get saved cart for logged-in user or guest
+// Purpose: Retrieve the saved cart, priced at today's prices (for multi-device sync)
+// Lines whose price changed or that ran out of stock since they were added are flagged
 
 export const getUserCart = async (req: AuthRequest, res: Response) => {
-  try {
-    const userId = req.body.userId || req.user?.id;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        message: "Authentication required",
-      });
-    }
-
-    // Fetch user's cart from database
-    const userCartItems = await db
-      .select()
-      .from(cart)
-      .where(eq(cart.userId, userId));
-
-    // Transform to frontend format: { [productId]: { [size]: quantity } }
-    const cartItems: Record<string, Record<string, number>> = {};
-
-    for (const item of userCartItems) {
-      const productId = item.productId.toString();
-      const size = item.size || "default";
-
-      if (!cartItems[productId]) {
-        cartItems[productId] = {};
-      }
-
-      cartItems[productId][size] = item.quantity;
-    }
-
-    res.json({
-      success: true,
-      data: { cartItems },
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
-      success: false,
-      message: "Error fetching cart",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+  const owner = await findCart(req);
+
+  res.json({
+    success: true,
+    data: await pricedCart(owner),
+  });
+};
+
+// POST /api/v1/cart/items - Add a product to the cart
+// Purpose: Adds to the quantity if the product and size are already in the cart
+
+export const addCartItem = async (req: AuthRequest, res: Response) => {
+  const { owner, cartToken } = await findOrCreateCart(req, res);
+
+  await addCartLine(owner, req.body as AddCartItemBody);
+
+  res.status(201).json({
+    success: true,
+    message: "Item added to cart",
+    data: await pricedCart(owner, cartToken),
+  });
+};
+
+// PATCH /api/v1/cart/items/:id - Change a cart line's quantity
+// Purpose: Sets the quantity, checked against stock
+
+export const updateCartItem = async (req: AuthRequest, res: Response) => {
+  const { quantity } = req.body as UpdateCartItemBody;
+  const owner = await findCart(req);
+
+  if (!owner) {
+    throw new NotFoundError("Cart item not found");
   }
+
+  await updateCartLine(owner, parseInt(req.params.id ?? ""), quantity);
+
+  res.json({
+    success: true,
+    message: "Cart updated successfully",
+    data: await pricedCart(owner),
+  });
 };
 
-// POST /api/v1/cart/sync - Sync/merge frontend cart with backend after login
-// Purpose: Merge guest cart (from localStorage) with user's saved cart
-
-export const syncCart = async (req: AuthRequest, res: Response) => {
-  try {
-    const userId = req.body.userId || req.user?.id;
-    const { cartItems } = req.body;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        message: "Authentication required",
-      });
-    }
-
-    if (!cartItems || typeof cartItems !== "object") {
-      return res.status(400).json({
-        success: false,
-        message: "Valid cart data required",
-      });
-    }
-
-    // Process each product in the cart
-    for (const productId in cartItems) {
-      const productIdNum = parseInt(productId);
-
-      if (isNaN(productIdNum)) continue;
-
-      // Verify product exists
-      const productExists = await db
-        .select()
-        .from(products)
-        .where(eq(products.id, productIdNum))
-        .limit(1);
-
-      if (!productExists.length) continue;
-
-      // Process each size for this product
-      for (const size in cartItems[productId]) {
-        const quantity = cartItems[productId][size];
-
-        if (quantity <= 0) continue;
-
-        // Check if item already exists in user's cart
-        const existingItem = await db
-          .select()
-          .from(cart)
-          .where(
-            and(
-              eq(cart.userId, userId),
-              eq(cart.productId, productIdNum),
-              eq(cart.size, size)
-            )
-          )
-          .limit(1);
-
-        if (existingItem.length > 0 && existingItem[0]) {
-          // Update existing item - use max quantity
-          const newQuantity = Math.max(existingItem[0].quantity, quantity);
-
-          await db
-            .update(cart)
-            .set({ quantity: newQuantity })
-            .where(eq(cart.id, existingItem[0].id));
-        } else {
-          // Insert new item
-          await db.insert(cart).values({
-            userId,
-            productId: productIdNum,
-            quantity,
-            size,
-          });
-        }
-      }
-    }
-
-    // Return updated cart in frontend format
-    const updatedCart = await db
-      .select()
-      .from(cart)
-      .where(eq(cart.userId, userId));
-
-    const syncedCartItems: Record<string, Record<string, number>> = {};
-
-    for (const item of updatedCart) {
-      const prodId = item.productId.toString();
-      const itemSize = item.size || "default";
-
-      if (!syncedCartItems[prodId]) {
-        syncedCartItems[prodId] = {};
-      }
-
-      syncedCartItems[prodId][itemSize] = item.quantity;
-    }
-
-    res.json({
-      success: true,
-      message: "Cart synced successfully",
-      data: { cartItems: syncedCartItems },
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
-      success: false,
-      message: "Error syncing cart",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+// DELETE /api/v1/cart/items/:id - Remove a line from the cart
+// Purpose: Removes one product and size
+
+export const removeCartItem = async (req: AuthRequest, res: Response) => {
+  const owner = await findCart(req);
+
+  if (!owner) {
+    throw new NotFoundError("Cart item not found");
   }
+
+  await removeCartLine(owner, parseInt(req.params.id ?? ""));
+
+  res.json({
+    success: true,
+    message: "Item removed from cart",
+    data: await pricedCart(owner),
+  });
+};
+
+// POST /api/v1/cart/items/:id/save-for-later - Move a cart line to the wishlist
+// Purpose: Logged-in users only; returns both lists
+
+export const saveForLater = async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+
+  await saveCartLineForLater(userId, parseInt(req.params.id ?? ""));
+
+  res.json({
+    success: true,
+    message: "Item saved for later",
+    data: {
+      cart: await getPricedCart(db, { userId }),
+      wishlist: await listWishlistItems(db, userId),
+    },
+  });
 };
 
 // POST /api/v1/cart/save - Save current cart state to backend
-// Purpose: Backup cart to database 
+// Purpose: Replace the saved cart, e.g. with one kept in localStorage; every line
+// must match a product and size
 export const saveCart = async (req: AuthRequest, res: Response) => {
-  try {
-    const userId = req.body.userId || req.user?.id;
-    const { cartItems } = req.body;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        message: "Authentication required",
-      });
-    }
-
-    if (!cartItems || typeof cartItems !== "object") {
-      return res.status(400).json({
-        success: false,
-        message: "Valid cart data required",
-      });
-    }
-
-    // Clear existing cart
-    await db.delete(cart).where(eq(cart.userId, userId));
-
-    // Insert all cart items
-    for (const productId in cartItems) {
-      const productIdNum = parseInt(productId);
-
-      if (isNaN(productIdNum)) continue;
-
-      for (const size in cartItems[productId]) {
-        const quantity = cartItems[productId][size];
-
-        if (quantity > 0) {
-          await db.insert(cart).values({
-            userId,
-            productId: productIdNum,
-            quantity,
-            size,
-          });
-        }
-      }
-    }
-
-    res.json({
-      success: true,
-      message: "Cart saved successfully",
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
-      success: false,
-      message: "Error saving cart",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
-  }
+  const { cartItems } = req.body as CartBody;
+  const { owner, cartToken } = await findOrCreateCart(req, res);
+
+  await replaceCart(owner, cartItems);
+
+  res.json({
+    success: true,
+    message: "Cart saved successfully",
+    data: await pricedCart(owner, cartToken),
+  });
 };
 
-// DELETE /api/v1/cart - Clear user's saved cart
+// DELETE /api/v1/cart - Clear the saved cart
 // Purpose: Remove all cart items from database
 export const clearCart = async (req: AuthRequest, res: Response) => {
-  try {
-    const userId = req.body.userId || req.user?.id;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        message: "Authentication required",
-      });
-    }
-
-    await db.delete(cart).where(eq(cart.userId, userId));
-
-    res.json({
-      success: true,
-      message: "Cart cleared successfully",
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
-      success: false,
-      message: "Error clearing cart",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+  const owner = await findCart(req);
+
+  if (owner) {
+    await clearCartLines(db, owner);
   }
+
+  res.json({
+    success: true,
+    message: "Cart cleared successfully",
+  });
 };
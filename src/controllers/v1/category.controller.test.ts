@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { categories, products } from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import { resetDb } from "../../test/db.js";
+import { api } from "../../test/http.js";
+import { createUser } from "../../test/fixtures.js";
+
+vi.mock("../../db/index.js", () => import("../../test/db.js"));
+
+describe("PATCH /categories/:id", () => {
+  let token: string;
+  let fashion: number;
+  let shoes: number;
+  let home: number;
+
+  beforeEach(async () => {
+    await resetDb();
+    ({ token } = await createUser({ role: "admin" }));
+
+    const top = await db
+      .insert(categories)
+      .values([
+        { name: "Fashion", slug: "fashion" },
+        { name: "Home", slug: "home" },
+      ])
+      .returning();
+    fashion = top[0]!.id;
+    home = top[1]!.id;
+
+    const sub = await db
+      .insert(categories)
+      .values({ name: "Shoes", slug: "fashion-shoes", parentId: fashion })
+      .returning();
+    shoes = sub[0]!.id;
+  });
+
+  const move = (categoryId: number, parentId: number | null) =>
+    api("PATCH", `/categories/${categoryId}`, { token, body: { parentId } });
+
+  it("moves an empty category to another parent", async () => {
+    const response = await move(shoes, home);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.parentId).toBe(home);
+  });
+
+  it("returns 404 for a parent that doesn't exist", async () => {
+    const response = await move(shoes, 999);
+
+    expect(response.status).toBe(404);
+    expect(response.body.message).toBe("Parent category not found");
+  });
+
+  it("refuses to move a category under its own subcategory", async () => {
+    expect((await move(fashion, shoes)).status).toBe(400);
+  });
+
+  it.each([
+    { name: "category", moved: "shoes", linkAs: { category: "shoes" } },
+    { name: "subcategory", moved: "shoes", linkAs: { category: "fashion", subCategory: "shoes" } },
+    { name: "parent category", moved: "fashion", linkAs: { category: "fashion", subCategory: "shoes" } },
+  ] as const)("refuses to move a product's $name", async ({ moved, linkAs }) => {
+    const ids = { fashion, shoes };
+    await db.insert(products).values({
+      name: "Sneakers",
+      description: "Canvas sneakers",
+      price: "120.00",
+      category: "Fashion",
+      categoryId: ids[linkAs.category],
+      subCategoryId: "subCategory" in linkAs ? ids[linkAs.subCategory] : null,
+    });
+    const before = await db.select().from(categories).where(eq(categories.id, ids[moved]));
+
+    const response = await move(ids[moved], home);
+
+    expect(response.status).toBe(409);
+    const after = await db.select().from(categories).where(eq(categories.id, ids[moved]));
+    expect(after[0]!.parentId).toBe(before[0]!.parentId);
+  });
+
+  it("renames a category without moving it when parentId is unchanged", async () => {
+    await db.insert(products).values({
+      name: "Sneakers",
+      description: "Canvas sneakers",
+      price: "120.00",
+      category: "Fashion",
+      subCategory: "Shoes",
+      categoryId: fashion,
+      subCategoryId: shoes,
+    });
+
+    const response = await api("PATCH", `/categories/${shoes}`, {
+      token,
+      body: { name: "Footwear", parentId: fashion },
+    });
+
+    expect(response.status).toBe(200);
+    const product = await db.select().from(products);
+    expect(product[0]!.subCategory).toBe("Footwear");
+  });
+});
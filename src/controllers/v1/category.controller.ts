@@ -0,0 +1,356 @@
+import type { Request, Response } from "express";
+import { categories, products } from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import { eq, asc, isNull, isNotNull, or, count, sql } from "drizzle-orm";
+import { slugify } from "../../utils/slugify.js";
+import type {
+  CreateCategoryBody,
+  UpdateCategoryBody,
+} from "../../schemas/v1/category.schema.js";
+import { ConflictError, NotFoundError, ValidationError } from "../../utils/errors.js";
+
+type CategoryRow = typeof categories.$inferSelect;
+
+interface CategoryTreeNode extends CategoryRow {
+  productCount: number;
+  children: CategoryTreeNode[];
+}
+
+// Find a category by numeric id or slug
+const findCategory = async (idOrSlug: string) => {
+  const categoryId = Number(idOrSlug);
+  const condition = Number.isInteger(categoryId)
+    ? eq(categories.id, categoryId)
+    : eq(categories.slug, idOrSlug);
+
+  const category = await db.select().from(categories).where(condition).limit(1);
+  return category[0];
+};
+
+// Walk up from parentId to check that categoryId is not one of its ancestors
+const createsCycle = async (categoryId: number, parentId: number) => {
+  let currentId: number | null = parentId;
+
+  while (currentId !== null) {
+    if (currentId === categoryId) return true;
+
+    const parent: { parentId: number | null }[] = await db
+      .select({ parentId: categories.parentId })
+      .from(categories)
+      .where(eq(categories.id, currentId))
+      .limit(1);
+
+    currentId = parent[0]?.parentId ?? null;
+  }
+
+  return false;
+};
+
+// GET /api/v1/categories - List categories
+// Purpose: Flat list; pass ?parentId=<id> for children or ?parentId=root for top level
+
+export const getCategories = async (req: Request, res: Response) => {
+  const { parentId } = req.query;
+  const parentIdNum = parentId && parentId !== "root" ? parseInt(parentId as string) : undefined;
+
+  if (parentIdNum !== undefined && isNaN(parentIdNum)) {
+    throw new ValidationError("Invalid parent ID");
+  }
+
+  const condition =
+    parentId === "root"
+      ? isNull(categories.parentId)
+      : parentIdNum !== undefined
+        ? eq(categories.parentId, parentIdNum)
+        : undefined;
+
+  const allCategories = await db
+    .select()
+    .from(categories)
+    .where(condition)
+    .orderBy(asc(categories.name));
+
+  res.json({
+    success: true,
+    count: allCategories.length,
+    data: allCategories,
+  });
+};
+
+// GET /api/v1/categories/tree - Nested category tree with product counts
+// Purpose: Drives the storefront menu; counts include products in subcategories
+
+export const getCategoryTree = async (req: Request, res: Response) => {
+  const allCategories = await db
+    .select()
+    .from(categories)
+    .orderBy(asc(categories.name));
+
+  // Each product is counted against its most specific category
+  const assignedCategoryId = sql<number>`coalesce(${products.subCategoryId}, ${products.categoryId})`;
+  const productCounts = await db
+    .select({ categoryId: assignedCategoryId, total: count() })
+    .from(products)
+    .where(isNotNull(products.categoryId))
+    .groupBy(assignedCategoryId);
+
+  const nodes = new Map<number, CategoryTreeNode>();
+  for (const category of allCategories) {
+    nodes.set(category.id, { ...category, productCount: 0, children: [] });
+  }
+
+  const roots: CategoryTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId !== null ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  // Add each direct count to the category and all of its ancestors
+  for (const { categoryId, total } of productCounts) {
+    let node = nodes.get(Number(categoryId));
+    while (node) {
+      node.productCount += total;
+      node = node.parentId !== null ? nodes.get(node.parentId) : undefined;
+    }
+  }
+
+  res.json({
+    success: true,
+    data: roots,
+  });
+};
+
+// GET /api/v1/categories/:idOrSlug - Get single category with its direct children
+
+export const getCategory = async (req: Request, res: Response) => {
+  const { idOrSlug } = req.params;
+
+  if (!idOrSlug) {
+    throw new ValidationError("Category ID or slug is required");
+  }
+
+  const category = await findCategory(idOrSlug);
+
+  if (!category) {
+    throw new NotFoundError("Category not found");
+  }
+
+  const children = await db
+    .select()
+    .from(categories)
+    .where(eq(categories.parentId, category.id))
+    .orderBy(asc(categories.name));
+
+  res.json({
+    success: true,
+    data: {
+      ...category,
+      children,
+    },
+  });
+};
+
+// POST /api/v1/categories - Create category (admin)
+
+export const createCategory = async (req: Request, res: Response) => {
+  const { name, description, parentId, slug } = req.body as CreateCategoryBody;
+
+  const categorySlug = slugify(slug || name);
+  if (!categorySlug) {
+    throw new ValidationError("Category slug must contain letters or numbers");
+  }
+
+  if (parentId) {
+    const parent = await db
+      .select({ id: categories.id })
+      .from(categories)
+      .where(eq(categories.id, parentId))
+      .limit(1);
+
+    if (!parent.length) {
+      throw new ValidationError("Parent category not found");
+    }
+  }
+
+  const existing = await db
+    .select({ id: categories.id })
+    .from(categories)
+    .where(eq(categories.slug, categorySlug))
+    .limit(1);
+
+  if (existing.length) {
+    throw new ConflictError(`A category with slug "${categorySlug}" already exists`);
+  }
+
+  const newCategory = await db
+    .insert(categories)
+    .values({
+      name,
+      slug: categorySlug,
+      description: description || null,
+      parentId: parentId || null,
+    })
+    .returning();
+
+  res.status(201).json({
+    success: true,
+    message: "Category created successfully",
+    data: newCategory[0],
+  });
+};
+
+// PATCH /api/v1/categories/:id - Update category (admin)
+// Purpose: Renames are copied to products' denormalised category names; a category
+// with products can't be moved to another parent
+
+export const updateCategory = async (req: Request, res: Response) => {
+  const categoryId = parseInt(req.params.id ?? "");
+
+  if (isNaN(categoryId)) {
+    throw new ValidationError("Invalid category ID");
+  }
+
+  const { name, description, parentId, slug } = req.body as UpdateCategoryBody;
+
+  const existingCategory = await db
+    .select()
+    .from(categories)
+    .where(eq(categories.id, categoryId))
+    .limit(1);
+
+  if (!existingCategory.length || !existingCategory[0]) {
+    throw new NotFoundError("Category not found");
+  }
+
+  const updates: Partial<typeof categories.$inferInsert> = {};
+  if (name !== undefined) updates.name = name;
+  if (description !== undefined) updates.description = description;
+
+  if (slug !== undefined) {
+    const categorySlug = slugify(slug);
+    const slugOwner = await db
+      .select({ id: categories.id })
+      .from(categories)
+      .where(eq(categories.slug, categorySlug))
+      .limit(1);
+
+    if (!categorySlug || (slugOwner[0] && slugOwner[0].id !== categoryId)) {
+      throw new ConflictError(`Slug "${categorySlug}" is invalid or already in use`);
+    }
+    updates.slug = categorySlug;
+  }
+
+  if (parentId !== undefined && parentId !== existingCategory[0].parentId) {
+    if (parentId !== null) {
+      const parent = await db
+        .select({ id: categories.id })
+        .from(categories)
+        .where(eq(categories.id, parentId))
+        .limit(1);
+
+      if (!parent.length) {
+        throw new NotFoundError("Parent category not found");
+      }
+
+      if (await createsCycle(categoryId, parentId)) {
+        throw new ValidationError(
+          "A category cannot be moved under itself or its descendants"
+        );
+      }
+    }
+
+    // Products name a category and one of its subcategories; moving either would
+    // leave them pointing at a pair that no longer belongs together
+    const linkedProducts = await db
+      .select({ total: count() })
+      .from(products)
+      .where(
+        or(
+          eq(products.categoryId, categoryId),
+          eq(products.subCategoryId, categoryId)
+        )
+      );
+
+    if ((linkedProducts[0]?.total ?? 0) > 0) {
+      throw new ConflictError(
+        "Move this category's products to another category before moving it"
+      );
+    }
+    updates.parentId = parentId;
+  }
+
+  const updatedCategory = await db.transaction(async (tx) => {
+    const updated = await tx
+      .update(categories)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(categories.id, categoryId))
+      .returning();
+
+    if (name !== undefined && name !== existingCategory[0]!.name) {
+      await tx
+        .update(products)
+        .set({ category: name })
+        .where(eq(products.categoryId, categoryId));
+      await tx
+        .update(products)
+        .set({ subCategory: name })
+        .where(eq(products.subCategoryId, categoryId));
+    }
+
+    return updated[0];
+  });
+
+  res.json({
+    success: true,
+    message: "Category updated successfully",
+    data: updatedCategory,
+  });
+};
+
+// DELETE /api/v1/categories/:id - Delete category (admin)
+// Purpose: Only empty categories can be deleted
+
+export const deleteCategory = async (req: Request, res: Response) => {
+  const categoryId = parseInt(req.params.id ?? "");
+
+  if (isNaN(categoryId)) {
+    throw new ValidationError("Invalid category ID");
+  }
+
+  const children = await db
+    .select({ total: count() })
+    .from(categories)
+    .where(eq(categories.parentId, categoryId));
+
+  const linkedProducts = await db
+    .select({ total: count() })
+    .from(products)
+    .where(
+      or(
+        eq(products.categoryId, categoryId),
+        eq(products.subCategoryId, categoryId)
+      )
+    );
+
+  if ((children[0]?.total ?? 0) > 0 || (linkedProducts[0]?.total ?? 0) > 0) {
+    throw new ConflictError("Category still has subcategories or products");
+  }
+
+  const deleted = await db
+    .delete(categories)
+    .where(eq(categories.id, categoryId))
+    .returning();
+
+  if (!deleted.length) {
+    throw new NotFoundError("Category not found");
+  }
+
+  res.json({
+    success: true,
+    message: "Category deleted successfully",
+  });
+};
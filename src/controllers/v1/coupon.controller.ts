@@ -0,0 +1,233 @@
+import type { Response } from "express";
+import { coupons, categories } from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import type { AuthRequest } from "../../middleware/auth.middleware.js";
+import { eq, and, desc } from "drizzle-orm";
+import { isUniqueViolation } from "../../utils/dbErrors.js";
+import type {
+  CreateCouponBody,
+  UpdateCouponBody,
+} from "../../schemas/v1/coupon.schema.js";
+import { ConflictError, NotFoundError, ValidationError } from "../../utils/errors.js";
+
+type CouponInsert = typeof coupons.$inferInsert;
+
+const toAmount = (value: number | null) => (value === null ? null : value.toFixed(2));
+
+// Turn checked coupon fields into column values; existing is the stored coupon when updating
+// Returns the values to save, or an error message
+const parseCouponFields = async (
+  body: UpdateCouponBody,
+  existing?: typeof coupons.$inferSelect
+): Promise<{ values: Partial<CouponInsert>; error?: never } | { error: string }> => {
+  const values: Partial<CouponInsert> = {};
+
+  if (body.description !== undefined) values.description = body.description || null;
+  if (body.type !== undefined) values.type = body.type;
+  if (body.value !== undefined) values.value = body.value.toFixed(2);
+  if (body.maxDiscountAmount !== undefined) {
+    values.maxDiscountAmount = toAmount(body.maxDiscountAmount);
+  }
+  if (body.minOrderAmount !== undefined) {
+    values.minOrderAmount = toAmount(body.minOrderAmount);
+  }
+  if (body.usageLimit !== undefined) values.usageLimit = body.usageLimit;
+  if (body.perUserLimit !== undefined) values.perUserLimit = body.perUserLimit;
+  if (body.startsAt !== undefined) values.startsAt = body.startsAt;
+  if (body.expiresAt !== undefined) values.expiresAt = body.expiresAt;
+  if (body.isActive !== undefined) values.isActive = body.isActive;
+
+  if (body.categoryId) {
+    const category = await db
+      .select({ id: categories.id })
+      .from(categories)
+      .where(eq(categories.id, body.categoryId))
+      .limit(1);
+    if (!category.length) return { error: "Category not found" };
+  }
+  if (body.categoryId !== undefined) values.categoryId = body.categoryId;
+
+  // Check the coupon as it will be saved
+  const type = values.type ?? existing?.type;
+  const value = Number(values.value ?? existing?.value ?? 0);
+  const startsAt = values.startsAt !== undefined ? values.startsAt : existing?.startsAt;
+  const expiresAt =
+    values.expiresAt !== undefined ? values.expiresAt : existing?.expiresAt;
+
+  if (!type) return { error: "Coupon type is required" };
+  if (type === "percentage" && (value <= 0 || value > 100)) {
+    return { error: "Percentage coupons need a value between 0 and 100" };
+  }
+  if (type === "fixed" && value <= 0) {
+    return { error: "Fixed amount coupons need a value greater than 0" };
+  }
+  if (startsAt && expiresAt && expiresAt <= startsAt) {
+    return { error: "expiresAt must be after startsAt" };
+  }
+
+  return { values };
+};
+
+// GET /api/v1/coupons - List coupons
+// Purpose: Sellers see their own coupons; admins see all. Pass ?active=true for usable ones
+
+export const getCoupons = async (req: AuthRequest, res: Response) => {
+  const allCoupons = await db
+    .select()
+    .from(coupons)
+    .where(
+      and(
+        req.user?.role === "admin"
+          ? undefined
+          : eq(coupons.sellerId, req.user!.id),
+        req.query.active === "true" ? eq(coupons.isActive, true) : undefined
+      )
+    )
+    .orderBy(desc(coupons.createdAt));
+
+  res.json({
+    success: true,
+    count: allCoupons.length,
+    data: allCoupons,
+  });
+};
+
+// GET /api/v1/coupons/:id - Get a coupon
+
+export const getCouponById = async (req: AuthRequest, res: Response) => {
+  const couponId = parseInt(req.params.id ?? "");
+
+  if (isNaN(couponId)) {
+    throw new ValidationError("Invalid coupon ID");
+  }
+
+  const coupon = await db
+    .select()
+    .from(coupons)
+    .where(eq(coupons.id, couponId))
+    .limit(1);
+
+  if (!coupon.length) {
+    throw new NotFoundError("Coupon not found");
+  }
+
+  res.json({
+    success: true,
+    data: coupon[0],
+  });
+};
+
+// POST /api/v1/coupons - Create a coupon
+// Sellers' coupons only apply to, and are funded from, their own items;
+// admins may create marketplace-wide coupons or scope one to a seller
+
+export const createCoupon = async (req: AuthRequest, res: Response) => {
+  try {
+    const { code, sellerId, ...fields } = req.body as CreateCouponBody;
+
+    const parsed = await parseCouponFields(fields);
+    if (parsed.error !== undefined) {
+      throw new ValidationError(parsed.error);
+    }
+
+    const newCoupon = await db
+      .insert(coupons)
+      .values({
+        ...parsed.values,
+        type: parsed.values.type!,
+        code,
+        sellerId: req.user?.role === "admin" ? sellerId ?? null : req.user!.id,
+        createdBy: req.user!.id,
+      })
+      .returning();
+
+    res.status(201).json({
+      success: true,
+      message: "Coupon created successfully",
+      data: newCoupon[0],
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ConflictError("A coupon with this code already exists");
+    }
+    throw error;
+  }
+};
+
+// PATCH /api/v1/coupons/:id - Update a coupon
+// The code is fixed once created, since customers may already have it
+
+export const updateCoupon = async (req: AuthRequest, res: Response) => {
+  const couponId = parseInt(req.params.id ?? "");
+
+  if (isNaN(couponId)) {
+    throw new ValidationError("Invalid coupon ID");
+  }
+
+  const existing = await db
+    .select()
+    .from(coupons)
+    .where(eq(coupons.id, couponId))
+    .limit(1);
+
+  if (!existing.length || !existing[0]) {
+    throw new NotFoundError("Coupon not found");
+  }
+
+  const parsed = await parseCouponFields(req.body as UpdateCouponBody, existing[0]);
+  if (parsed.error !== undefined) {
+    throw new ValidationError(parsed.error);
+  }
+
+  const updated = await db
+    .update(coupons)
+    .set({ ...parsed.values, updatedAt: new Date() })
+    .where(eq(coupons.id, couponId))
+    .returning();
+
+  res.json({
+    success: true,
+    message: "Coupon updated successfully",
+    data: updated[0],
+  });
+};
+
+// DELETE /api/v1/coupons/:id - Delete a coupon
+// Coupons that were already used are deactivated instead, so orders keep their history
+
+export const deleteCoupon = async (req: AuthRequest, res: Response) => {
+  const couponId = parseInt(req.params.id ?? "");
+
+  if (isNaN(couponId)) {
+    throw new ValidationError("Invalid coupon ID");
+  }
+
+  const existing = await db
+    .select({ usedCount: coupons.usedCount })
+    .from(coupons)
+    .where(eq(coupons.id, couponId))
+    .limit(1);
+
+  if (!existing.length || !existing[0]) {
+    throw new NotFoundError("Coupon not found");
+  }
+
+  if (existing[0].usedCount > 0) {
+    await db
+      .update(coupons)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(coupons.id, couponId));
+
+    return res.json({
+      success: true,
+      message: "Coupon has been used, so it was deactivated instead",
+    });
+  }
+
+  await db.delete(coupons).where(eq(coupons.id, couponId));
+
+  res.json({
+    success: true,
+    message: "Coupon deleted successfully",
+  });
+};
@@ -0,0 +1,259 @@
+import type { Response } from "express";
+import {
+  orderFulfilments,
+  orderItems,
+  orders,
+  products,
+} from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import type { AuthRequest } from "../../middleware/auth.middleware.js";
+import { eq, and, desc, inArray, count } from "drizzle-orm";
+import {
+  canTransition,
+  allowedNextStatuses,
+} from "../../services/orderStatus.service.js";
+import {
+  applyFulfilmentStatus,
+  syncOrderStatus,
+} from "../../services/fulfilment.service.js";
+import { postDeliveredSales } from "../../services/ledger.service.js";
+import {
+  parsePagination,
+  buildPaginationMeta,
+} from "../../utils/pagination.js";
+import type { UpdateFulfilmentBody } from "../../schemas/v1/fulfilment.schema.js";
+import { ConflictError, NotFoundError, ValidationError } from "../../utils/errors.js";
+
+// Fulfilment with the order details a seller needs to ship it
+const fulfilmentWithOrderFields = {
+  fulfilment: orderFulfilments,
+  order: {
+    orderNumber: orders.orderNumber,
+    paymentStatus: orders.paymentStatus,
+    shippingAddress: orders.shippingAddress,
+    createdAt: orders.createdAt,
+  },
+};
+
+const getItemsForFulfilments = async (fulfilmentIds: number[]) => {
+  if (!fulfilmentIds.length) return [];
+
+  return db
+    .select({
+      id: orderItems.id,
+      fulfilmentId: orderItems.fulfilmentId,
+      productId: orderItems.productId,
+      quantity: orderItems.quantity,
+      price: orderItems.price,
+      size: orderItems.size,
+      productName: products.name,
+      productImage: products.images,
+    })
+    .from(orderItems)
+    .leftJoin(products, eq(orderItems.productId, products.id))
+    .where(inArray(orderItems.fulfilmentId, fulfilmentIds));
+};
+
+// GET /api/v1/fulfilments - List fulfilments to ship
+// Purpose: Sellers see their own; admins see all. Filter with ?status=, supports ?page=&limit=
+
+export const getFulfilments = async (req: AuthRequest, res: Response) => {
+  const { page, limit, offset } = parsePagination(req.query);
+  const { status } = req.query;
+
+  const condition = and(
+    req.user?.role === "admin"
+      ? undefined
+      : eq(orderFulfilments.sellerId, req.user!.id),
+    status ? eq(orderFulfilments.status, String(status)) : undefined
+  );
+
+  const [rows, total] = await Promise.all([
+    db
+      .select(fulfilmentWithOrderFields)
+      .from(orderFulfilments)
+      .innerJoin(orders, eq(orderFulfilments.orderId, orders.id))
+      .where(condition)
+      .orderBy(desc(orderFulfilments.createdAt), desc(orderFulfilments.id))
+      .limit(limit)
+      .offset(offset),
+    db.select({ total: count() }).from(orderFulfilments).where(condition),
+  ]);
+
+  const items = await getItemsForFulfilments(
+    rows.map(({ fulfilment }) => fulfilment.id)
+  );
+
+  res.json({
+    success: true,
+    count: rows.length,
+    data: rows.map(({ fulfilment, order }) => ({
+      ...fulfilment,
+      order,
+      items: items.filter((item) => item.fulfilmentId === fulfilment.id),
+    })),
+    pagination: buildPaginationMeta(page, limit, total[0]?.total ?? 0),
+  });
+};
+
+// GET /api/v1/fulfilments/:id - Get one fulfilment with its items
+
+export const getFulfilmentById = async (req: AuthRequest, res: Response) => {
+  const fulfilmentId = parseInt(req.params.id ?? "");
+
+  if (isNaN(fulfilmentId)) {
+    throw new ValidationError("Invalid fulfilment ID");
+  }
+
+  const row = await db
+    .select(fulfilmentWithOrderFields)
+    .from(orderFulfilments)
+    .innerJoin(orders, eq(orderFulfilments.orderId, orders.id))
+    .where(eq(orderFulfilments.id, fulfilmentId))
+    .limit(1);
+
+  if (!row.length || !row[0]) {
+    throw new NotFoundError("Fulfilment not found");
+  }
+
+  res.json({
+    success: true,
+    data: {
+      ...row[0].fulfilment,
+      order: row[0].order,
+      items: await getItemsForFulfilments([fulfilmentId]),
+    },
+  });
+};
+
+// PATCH /api/v1/fulfilments/:id - Update a seller's part of an order
+// Purpose: Move the fulfilment along and set tracking details; the parent order's
+// status is then re-derived from all of its fulfilments
+
+export const updateFulfilment = async (req: AuthRequest, res: Response) => {
+  const fulfilmentId = parseInt(req.params.id ?? "");
+  const { status, trackingNumber, carrier, note } = req.body as UpdateFulfilmentBody;
+
+  if (isNaN(fulfilmentId)) {
+    throw new ValidationError("Invalid fulfilment ID");
+  }
+
+  const actor = {
+    userId: req.user?.id ?? null,
+    role: req.user?.role ?? "system",
+  };
+
+  const result = await db.transaction(async (tx) => {
+    const target = await tx
+      .select({ orderId: orderFulfilments.orderId })
+      .from(orderFulfilments)
+      .where(eq(orderFulfilments.id, fulfilmentId))
+      .limit(1);
+
+    if (!target[0]) return { outcome: "not_found" as const };
+
+    // Lock the parent order first so sibling fulfilment updates are serialised
+    // and the derived order status sees every committed change
+    await tx
+      .select({ id: orders.id })
+      .from(orders)
+      .where(eq(orders.id, target[0].orderId))
+      .for("update");
+
+    const existing = await tx
+      .select()
+      .from(orderFulfilments)
+      .where(eq(orderFulfilments.id, fulfilmentId))
+      .limit(1)
+      .for("update");
+
+    let fulfilment = existing[0]!;
+    const changesStatus = status !== undefined && status !== fulfilment.status;
+
+    if (changesStatus && !canTransition(fulfilment.status, status)) {
+      return {
+        outcome: "invalid_transition" as const,
+        currentStatus: fulfilment.status,
+        allowed: allowedNextStatuses(fulfilment.status),
+      };
+    }
+
+    // Customers need a tracking number once their items are on the way
+    const nextTrackingNumber =
+      trackingNumber !== undefined ? trackingNumber : fulfilment.trackingNumber;
+    if (changesStatus && status === "shipped" && !nextTrackingNumber) {
+      return { outcome: "missing_tracking" as const };
+    }
+
+    if (trackingNumber !== undefined || carrier !== undefined) {
+      const updated = await tx
+        .update(orderFulfilments)
+        .set({
+          ...(trackingNumber !== undefined
+            ? { trackingNumber: trackingNumber || null }
+            : {}),
+          ...(carrier !== undefined ? { carrier: carrier || null } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(orderFulfilments.id, fulfilmentId))
+        .returning();
+      fulfilment = updated[0]!;
+    }
+
+    if (!changesStatus) {
+      return { outcome: "updated" as const, fulfilment };
+    }
+
+    fulfilment = await applyFulfilmentStatus(
+      tx,
+      fulfilment,
+      status,
+      actor,
+      note ?? null
+    );
+
+    const order = await syncOrderStatus(
+      tx,
+      fulfilment.orderId,
+      actor,
+      `Updated from fulfilment #${fulfilment.id}`
+    );
+
+    // Delivered items of paid orders become payable to the seller
+    if (status === "delivered") {
+      await postDeliveredSales(tx, fulfilment.orderId);
+    }
+
+    return { outcome: "updated" as const, fulfilment, orderStatus: order?.status };
+  });
+
+  if (result.outcome === "not_found") {
+    throw new NotFoundError("Fulfilment not found");
+  }
+
+  if (result.outcome === "invalid_transition") {
+    throw new ConflictError(
+      `Cannot change fulfilment status from "${result.currentStatus}" to "${status}"`,
+      {
+        code: "INVALID_STATUS_TRANSITION",
+        data: { currentStatus: result.currentStatus, allowed: result.allowed },
+      }
+    );
+  }
+
+  if (result.outcome === "missing_tracking") {
+    throw new ValidationError(
+      "A tracking number is required to mark a fulfilment as shipped",
+      { code: "TRACKING_NUMBER_REQUIRED" }
+    );
+  }
+
+  res.json({
+    success: true,
+    message: "Fulfilment updated successfully",
+    data: {
+      ...result.fulfilment,
+      ...(result.orderStatus ? { orderStatus: result.orderStatus } : {}),
+    },
+  });
+};
@@ -0,0 +1,230 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { and, eq } from "drizzle-orm";
+import { deliveryZones, orders, productStock } from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import { resetDb } from "../../test/db.js";
+import { api } from "../../test/http.js";
+import { createProduct, createUser } from "../../test/fixtures.js";
+
+vi.mock("../../db/index.js", () => import("../../test/db.js"));
+
+const shippingAddress = {
+  homeAddress: "12 Oxford Street",
+  city: "Osu",
+  regionOrState: "Greater Accra",
+};
+
+const guestInfo = (email: string) => ({ name: "Ama Mensah", email, phone: "0241234567" });
+
+const stockOf = async (productId: number, size: string) => {
+  const row = await db
+    .select({ quantity: productStock.quantity })
+    .from(productStock)
+    .where(and(eq(productStock.productId, productId), eq(productStock.size, size)));
+  return row[0]!.quantity;
+};
+
+let shirt: number;
+let mug: number;
+
+beforeEach(async () => {
+  await resetDb();
+  await db.insert(deliveryZones).values({
+    name: "Accra",
+    regions: ["Greater Accra"],
+    baseFee: "20.00",
+    etaMinDays: 1,
+    etaMaxDays: 2,
+  });
+  shirt = (await createProduct({ sizes: ["S", "M"], price: "50.00" }, { S: 5, M: 1 })).id;
+  mug = (await createProduct({ name: "Mug", price: "15.00" }, { default: 3 })).id;
+});
+
+describe("POST /orders", () => {
+  let token: string;
+
+  beforeEach(async () => {
+    ({ token } = await createUser());
+  });
+
+  const checkout = (cartItems: object, headers: Record<string, string> = {}) =>
+    api("POST", "/orders", { token, headers, body: { cartItems, shippingAddress } });
+
+  it("places the order, takes the stock and prices shipping", async () => {
+    const response = await checkout({ [shirt]: { S: 2 }, [mug]: { default: 1 } });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({
+      subtotalAmount: "115.00",
+      shippingAmount: "20.00",
+      totalAmount: "135.00",
+      status: "pending",
+    });
+    expect(response.body.data.items).toHaveLength(2);
+    expect(await stockOf(shirt, "S")).toBe(3);
+    expect(await stockOf(mug, "default")).toBe(2);
+  });
+
+  it("reports every invalid line and places nothing", async () => {
+    const response = await checkout({
+      abc: { S: 1 },
+      999: { S: 1 },
+      [shirt]: { XL: 1, S: 0 },
+      [mug]: { default: 1 },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe("INVALID_CART_ITEMS");
+    expect(response.body.data.errors.map(({ code }: { code: string }) => code)).toEqual([
+      "INVALID_SIZE",
+      "INVALID_QUANTITY",
+      "PRODUCT_NOT_FOUND",
+      "INVALID_PRODUCT_ID",
+    ]);
+    expect(await db.select().from(orders)).toHaveLength(0);
+  });
+
+  it("rolls everything back when one line is out of stock", async () => {
+    const response = await checkout({ [shirt]: { S: 2, M: 2 } });
+
+    expect(response.status).toBe(409);
+    expect(response.body.data.errors).toEqual([
+      expect.objectContaining({ productId: shirt, size: "M", requested: 2, available: 1 }),
+    ]);
+    expect(await stockOf(shirt, "S")).toBe(5);
+    expect(await db.select().from(orders)).toHaveLength(0);
+  });
+
+  describe("with an Idempotency-Key", () => {
+    it("replays the first response for a retry", async () => {
+      const first = await checkout({ [shirt]: { S: 1 } }, { "Idempotency-Key": "retry-1" });
+      const retry = await checkout({ [shirt]: { S: 1 } }, { "Idempotency-Key": "retry-1" });
+
+      expect(retry.status).toBe(201);
+      expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+      expect(retry.body.data.id).toBe(first.body.data.id);
+      expect(await db.select().from(orders)).toHaveLength(1);
+      expect(await stockOf(shirt, "S")).toBe(4);
+    });
+
+    it("places one order for concurrent requests", async () => {
+      const responses = await Promise.all(
+        [1, 2, 3].map(() => checkout({ [shirt]: { S: 1 } }, { "Idempotency-Key": "double-tap" }))
+      );
+
+      expect(responses.map(({ status }) => status)).toEqual([201, 201, 201]);
+      expect(new Set(responses.map(({ body }) => body.data.id)).size).toBe(1);
+      expect(await stockOf(shirt, "S")).toBe(4);
+    });
+
+    it("rejects the key with a different cart", async () => {
+      await checkout({ [shirt]: { S: 1 } }, { "Idempotency-Key": "changed" });
+      const response = await checkout({ [shirt]: { S: 2 } }, { "Idempotency-Key": "changed" });
+
+      expect(response.status).toBe(422);
+      expect(response.body.code).toBe("IDEMPOTENCY_KEY_REUSED");
+    });
+
+    it("doesn't share keys between guests", async () => {
+      const asGuest = (email: string) =>
+        api("POST", "/orders", {
+          headers: { "Idempotency-Key": "guest-key" },
+          body: { cartItems: { [mug]: { default: 1 } }, shippingAddress, guestInfo: guestInfo(email) },
+        });
+
+      const first = await asGuest("ama@example.com");
+      const second = await asGuest("kofi@example.com");
+
+      expect(second.status).toBe(201);
+      expect(second.headers.get("Idempotent-Replayed")).toBeNull();
+      expect(second.body.data.id).not.toBe(first.body.data.id);
+    });
+
+    it("can be reused after a failed checkout", async () => {
+      const failed = await checkout({ [shirt]: { M: 2 } }, { "Idempotency-Key": "after-error" });
+      expect(failed.status).toBe(409);
+
+      await db.update(productStock).set({ quantity: 2 }).where(eq(productStock.size, "M"));
+      const retried = await checkout({ [shirt]: { M: 2 } }, { "Idempotency-Key": "after-error" });
+      expect(retried.status).toBe(201);
+    });
+  });
+});
+
+describe("PUT /orders/:id", () => {
+  let customer: Awaited<ReturnType<typeof createUser>>;
+  let admin: Awaited<ReturnType<typeof createUser>>;
+  let orderId: number;
+
+  beforeEach(async () => {
+    customer = await createUser();
+    admin = await createUser({ role: "admin" });
+
+    const placed = await api("POST", "/orders", {
+      token: customer.token,
+      body: { cartItems: { [shirt]: { S: 2 } }, shippingAddress },
+    });
+    orderId = placed.body.data.id;
+  });
+
+  const setStatus = (status: string, token = admin.token) =>
+    api("PUT", `/orders/${orderId}`, { token, body: { status } });
+
+  it("moves through every step and records each in the timeline", async () => {
+    for (const status of ["processing", "shipped", "delivered"]) {
+      const response = await setStatus(status);
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe(status);
+    }
+
+    const timeline = await api("GET", `/orders/${orderId}/timeline`, { token: customer.token });
+    expect(timeline.body.data.currentStatus).toBe("delivered");
+    expect(timeline.body.data.steps).toEqual(
+      ["pending", "processing", "shipped", "delivered"].map((status) =>
+        expect.objectContaining({ status, completed: true, reachedAt: expect.any(String) })
+      )
+    );
+    const orderChanges = timeline.body.data.history.filter(
+      ({ fulfilmentId }: { fulfilmentId: number | null }) => fulfilmentId === null
+    );
+    expect(orderChanges.map(({ toStatus }: { toStatus: string }) => toStatus)).toEqual([
+      "pending",
+      "processing",
+      "shipped",
+      "delivered",
+    ]);
+  });
+
+  it.each([
+    { from: [], to: "shipped", allowed: ["processing", "cancelled"] },
+    { from: ["processing", "shipped"], to: "cancelled", allowed: ["delivered"] },
+    { from: ["cancelled"], to: "processing", allowed: [] },
+  ])("refuses $to after $from", async ({ from, to, allowed }) => {
+    for (const status of from) {
+      await setStatus(status);
+    }
+
+    const response = await setStatus(to);
+    expect(response.status).toBe(409);
+    expect(response.body.code).toBe("INVALID_STATUS_TRANSITION");
+    expect(response.body.data.allowed).toEqual(allowed);
+  });
+
+  it("puts the stock back when the order is cancelled", async () => {
+    expect(await stockOf(shirt, "S")).toBe(3);
+
+    const response = await setStatus("cancelled");
+
+    expect(response.body.data.status).toBe("cancelled");
+    expect(await stockOf(shirt, "S")).toBe(5);
+    const timeline = await api("GET", `/orders/${orderId}/timeline`, { token: customer.token });
+    expect(timeline.body.data.steps.map(({ status }: { status: string }) => status)).toEqual([
+      "pending",
+      "cancelled",
+    ]);
+  });
+
+  it("is for admins only", async () => {
+    expect((await setStatus("processing", customer.token)).status).toBe(403);
+  });
+});
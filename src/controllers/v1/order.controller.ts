@@ -1,450 +1,885 @@
-import type { Request, Response } from "express";
-import { orders, orderItems, products, cart } from "../../db/schema.js";
+import crypto from "node:crypto";
+import type { Response } from "express";
+import {
+  orders,
+  orderItems,
+  products,
+  idempotencyKeys,
+  orderStatusHistory,
+  orderFulfilments,
+  users,
+} from "../../db/schema.js";
+import type { ShippingAddress } from "../../db/schema.js";
 import { db } from "../../db/index.js";
-import { eq, desc, and } from "drizzle-orm";
-
-// Extend Express Request type
-interface AuthRequest extends Request {
-  user?: {
-    id: number;
-  };
-}
+import type { AuthRequest } from "../../middleware/auth.middleware.js";
+import { eq, desc, asc, and, isNull, sql } from "drizzle-orm";
+import {
+  reserveStock,
+  InsufficientStockError,
+} from "../../services/inventory.service.js";
+import { isUniqueViolation } from "../../utils/dbErrors.js";
+import {
+  signOrderTrackingToken,
+  verifyOrderTrackingToken,
+} from "../../utils/token.js";
+import { phonesMatch } from "../../utils/phone.js";
+import {
+  FULFILMENT_STEPS,
+  canTransition,
+  allowedNextStatuses,
+  recordStatusChange,
+} from "../../services/orderStatus.service.js";
+import type { OrderStatus } from "../../services/orderStatus.service.js";
+import {
+  createFulfilments,
+  applyFulfilmentStatus,
+  syncOrderStatus,
+  getFulfilmentsWithItems,
+} from "../../services/fulfilment.service.js";
+import { postDeliveredSales } from "../../services/ledger.service.js";
+import {
+  applyCoupon,
+  redeemCoupon,
+  summariseOrderTotals,
+  normalizeCouponCode,
+  CouponError,
+} from "../../services/coupon.service.js";
+import type { AppliedCoupon } from "../../services/coupon.service.js";
+import {
+  validateCartLines,
+  findSavedAddress,
+} from "../../services/checkout.service.js";
+import {
+  quoteShipping,
+  shippingQuoteResponse,
+  ShippingError,
+} from "../../services/shipping.service.js";
+import type { ShippingQuote } from "../../services/shipping.service.js";
+import {
+  CART_TOKEN_HEADER,
+  clearCartLines,
+  findGuestCart,
+} from "../../services/cart.service.js";
+import { recordCartRecovery } from "../../services/abandonedCart.service.js";
+import { publishOrderEvent } from "../../services/orderNotification.service.js";
+import { formatPesewas, toPesewas } from "../../utils/money.js";
+import { validateAddress } from "../../utils/address.js";
+import type { AddressFieldError } from "../../utils/address.js";
+import type {
+  PreviewOrderBody,
+  CreateOrderBody,
+  UpdateOrderStatusBody,
+  TrackOrderBody,
+  ClaimOrdersBody,
+} from "../../schemas/v1/order.schema.js";
+import {
+  AppError,
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from "../../utils/errors.js";
 
 // GET /api/v1/orders - Get all orders for user
 // Purpose: Retrieve user's order history
 
 export const getUserOrders = async (req: AuthRequest, res: Response) => {
-  try {
-    const userId = req.body.userId || req.user?.id;
-
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        message: "Authentication required",
-      });
-    }
+  const userId = req.user?.id;
 
-    // Fetch user's orders
-    const userOrders = await db
-      .select()
-      .from(orders)
-      .where(eq(orders.userId, userId))
-      .orderBy(desc(orders.createdAt));
-
-    // Fetch order items for each order
-    const ordersWithItems = await Promise.all(
-      userOrders.map(async (order) => {
-        const items = await db
-          .select({
-            id: orderItems.id,
-            productId: orderItems.productId,
-            quantity: orderItems.quantity,
-            price: orderItems.price,
-            size: orderItems.size,
-            productName: products.name,
-            productImage: products.images,
-          })
-          .from(orderItems)
-          .leftJoin(products, eq(orderItems.productId, products.id))
-          .where(eq(orderItems.orderId, order.id));
-
-        return {
-          ...order,
-          items,
-        };
-      })
-    );
-
-    res.json({
-      success: true,
-      count: ordersWithItems.length,
-      data: ordersWithItems,
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
-      success: false,
-      message: "Error fetching orders",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+  if (!userId) {
+    throw new UnauthorizedError("Authentication required");
   }
+
+  // Fetch user's orders
+  const userOrders = await db
+    .select()
+    .from(orders)
+    .where(eq(orders.userId, userId))
+    .orderBy(desc(orders.createdAt));
+
+  // Fetch order items for each order
+  const ordersWithItems = await Promise.all(
+    userOrders.map(async (order) => {
+      const items = await db
+        .select({
+          id: orderItems.id,
+          productId: orderItems.productId,
+          quantity: orderItems.quantity,
+          price: orderItems.price,
+          size: orderItems.size,
+          productName: products.name,
+          productImage: products.images,
+        })
+        .from(orderItems)
+        .leftJoin(products, eq(orderItems.productId, products.id))
+        .where(eq(orderItems.orderId, order.id));
+
+      return {
+        ...order,
+        items,
+      };
+    })
+  );
+
+  res.json({
+    success: true,
+    count: ordersWithItems.length,
+    data: ordersWithItems,
+  });
 };
 
 // GET /api/v1/orders/:id - Get single order by ID
 // Purpose: Retrieve detailed information for a specific order
 
 export const getOrderById = async (req: AuthRequest, res: Response) => {
-  try {
-    const { id } = req.params;
-    const userId = req.body.userId || req.user?.id;
+  const { id } = req.params;
+  const userId = req.user?.id;
 
-    if (!userId) {
-      return res.status(401).json({
-        success: false,
-        message: "Authentication required",
-      });
-    }
+  if (!userId) {
+    throw new UnauthorizedError("Authentication required");
+  }
 
-    if (!id) {
-      return res.status(400).json({
-        success: false,
-        message: "Order ID is required",
-      });
-    }
+  if (!id) {
+    throw new ValidationError("Order ID is required");
+  }
 
-    const orderId = parseInt(id);
-    if (isNaN(orderId)) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid order ID",
-      });
+  const orderId = parseInt(id);
+  if (isNaN(orderId)) {
+    throw new ValidationError("Invalid order ID");
+  }
+
+  // Fetch order
+  const order = await db
+    .select()
+    .from(orders)
+    .where(and(eq(orders.id, orderId), eq(orders.userId, userId)))
+    .limit(1);
+
+  if (!order.length || !order[0]) {
+    throw new NotFoundError("Order not found");
+  }
+
+  // Fetch order items
+  const items = await db
+    .select({
+      id: orderItems.id,
+      fulfilmentId: orderItems.fulfilmentId,
+      productId: orderItems.productId,
+      quantity: orderItems.quantity,
+      price: orderItems.price,
+      size: orderItems.size,
+      productName: products.name,
+      productImage: products.images,
+    })
+    .from(orderItems)
+    .leftJoin(products, eq(orderItems.productId, products.id))
+    .where(eq(orderItems.orderId, orderId));
+
+  res.json({
+    success: true,
+    data: {
+      ...order[0],
+      items,
+      fulfilments: await getFulfilmentsWithItems([orderId]),
+    },
+  });
+};
+
+// POST /api/v1/orders/preview - Price a cart before checkout
+// Purpose: Line totals, shipping and the discount a coupon would give, without placing
+// an order. Invalid lines, shipping and coupon problems are reported alongside the prices
+// Shipping is included once an address (or addressId) or a pickup point is given
+export const previewOrder = async (req: AuthRequest, res: Response) => {
+  const {
+    cartItems,
+    couponCode,
+    guestInfo,
+    addressId,
+    deliveryMethod,
+    pickupPointId,
+    shippingAddress: addressInput,
+  } = req.body as PreviewOrderBody;
+
+  const { lines, errors } = await validateCartLines(cartItems);
+  const customer = {
+    userId: req.user?.id ?? null,
+    guestEmail: guestInfo?.email ?? null,
+  };
+
+  let addressErrors: AddressFieldError[] = [];
+  let shippingAddress: ShippingAddress | undefined;
+  if (addressInput) {
+    const validated = validateAddress(addressInput);
+    if (validated.errors !== undefined) {
+      addressErrors = validated.errors;
+    } else {
+      shippingAddress = validated.address;
     }
+  } else if (addressId && req.user) {
+    shippingAddress = await findSavedAddress(req.user.id, addressId);
+  }
 
-    // Fetch order
-    const order = await db
-      .select()
-      .from(orders)
-      .where(and(eq(orders.id, orderId), eq(orders.userId, userId)))
-      .limit(1);
+  let shipping: ShippingQuote | undefined;
+  let shippingError: { code: string; message: string } | null = null;
 
-    if (!order.length || !order[0]) {
-      return res.status(404).json({
-        success: false,
-        message: "Order not found",
+  if (lines.length && (shippingAddress || deliveryMethod === "pickup")) {
+    try {
+      shipping = await quoteShipping(db, lines, {
+        deliveryMethod,
+        region: shippingAddress?.regionOrState,
+        pickupPointId,
       });
+    } catch (error) {
+      if (!(error instanceof ShippingError)) throw error;
+      shippingError = { code: error.code, message: error.message };
     }
+  }
 
-    // Fetch order items
-    const items = await db
-      .select({
-        id: orderItems.id,
-        productId: orderItems.productId,
-        quantity: orderItems.quantity,
-        price: orderItems.price,
-        size: orderItems.size,
-        productName: products.name,
-        productImage: products.images,
-      })
-      .from(orderItems)
-      .leftJoin(products, eq(orderItems.productId, products.id))
-      .where(eq(orderItems.orderId, orderId));
-
-    res.json({
-      success: true,
-      data: {
-        ...order[0],
-        items,
-      },
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
-      success: false,
-      message: "Error fetching order",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+  const shippingBySeller =
+    shipping?.shippingBySeller ?? new Map<number | null, number>();
+
+  let applied: AppliedCoupon | undefined;
+  let couponError: { code: string; message: string } | null = null;
+
+  if (couponCode && lines.length) {
+    try {
+      applied = await applyCoupon(
+        db,
+        couponCode,
+        lines,
+        shippingBySeller,
+        customer
+      );
+    } catch (error) {
+      if (!(error instanceof CouponError)) throw error;
+      couponError = { code: error.code, message: error.message };
+    }
   }
+
+  res.json({
+    success: true,
+    data: {
+      items: lines.map((line, index) => ({
+        productId: line.productId,
+        size: line.size,
+        quantity: line.quantity,
+        price: line.price,
+        lineTotal: formatPesewas(toPesewas(line.price) * line.quantity),
+        discountAmount: formatPesewas(applied?.lineDiscounts[index] ?? 0),
+      })),
+      errors,
+      coupon: couponCode
+        ? {
+            code: normalizeCouponCode(couponCode),
+            applied: !!applied,
+            discount: applied?.discount ?? null,
+            error: couponError,
+          }
+        : null,
+      addressErrors,
+      shipping: shipping ? shippingQuoteResponse(shipping) : null,
+      shippingError,
+      ...summariseOrderTotals(lines, shippingBySeller, applied),
+    },
+  });
+};
+
+// Customer-facing order number, e.g. GMP-7K2QX9MD (no 0/O or 1/I to avoid misreading)
+const ORDER_NUMBER_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+const generateOrderNumber = () => {
+  const bytes = crypto.randomBytes(8);
+  let suffix = "";
+  for (const byte of bytes) {
+    suffix += ORDER_NUMBER_ALPHABET[byte % ORDER_NUMBER_ALPHABET.length];
+  }
+  return `GMP-${suffix}`;
+};
+
+const findIdempotentResponse = async (scope: string, key: string) => {
+  const stored = await db
+    .select()
+    .from(idempotencyKeys)
+    .where(and(eq(idempotencyKeys.scope, scope), eq(idempotencyKeys.key, key)))
+    .limit(1);
+
+  return stored[0];
 };
 
 // POST /api/v1/orders - Create new order (checkout)
 // Supports both authenticated users and guest checkout
+// Send an Idempotency-Key header to make retries safe: a repeated key replays the first response
 export const createOrder = async (req: AuthRequest, res: Response) => {
+  const userId = req.user?.id;
+  const idempotencyKey = req.get("Idempotency-Key")?.trim();
+  // Keys are scoped per customer, so one customer's key never replays another's
+  // order; guests are told apart by their checkout email
+  const guestEmail = (req.body as CreateOrderBody).guestInfo?.email ?? "";
+  const idempotencyScope = userId
+    ? `user:${userId}`
+    : `guest:${crypto.createHash("sha256").update(guestEmail.toLowerCase()).digest("hex")}`;
+  const requestHash = crypto
+    .createHash("sha256")
+    .update(JSON.stringify(req.body ?? {}))
+    .digest("hex");
+
   try {
-    const userId = req.body.userId || req.user?.id;
-    const { cartItems, shippingAddress, guestInfo } = req.body;
+    const {
+      cartItems,
+      guestInfo,
+      addressId,
+      couponCode,
+      deliveryMethod,
+      pickupPointId,
+    } = req.body as CreateOrderBody;
+    let { shippingAddress } = req.body as CreateOrderBody;
+
+    if (idempotencyKey) {
+      if (idempotencyKey.length > 255) {
+        throw new ValidationError("Idempotency-Key must be at most 255 characters");
+      }
+
+      const stored = await findIdempotentResponse(idempotencyScope, idempotencyKey);
+
+      if (stored) {
+        if (stored.requestHash !== requestHash) {
+          throw new AppError(
+            422,
+            "IDEMPOTENCY_KEY_REUSED",
+            "Idempotency-Key was already used with a different request"
+          );
+        }
+
+        if (stored.responseBody) {
+          res.setHeader("Idempotent-Replayed", "true");
+          return res.status(stored.responseStatus ?? 201).json(stored.responseBody);
+        }
+      }
+    }
 
     // Guest checkout: require guest info (name, email, phone) if no userId
     if (!userId && !guestInfo) {
-      return res.status(400).json({
-        success: false,
-        message:
-          "Guest information (name, email, phone) is required for guest checkout",
-      });
+      throw new ValidationError(
+        "Guest information (name, email, phone) is required for guest checkout",
+        { code: "GUEST_INFO_REQUIRED" }
+      );
     }
 
-    if (
-      guestInfo &&
-      (!guestInfo.name || !guestInfo.email || !guestInfo.phone)
-    ) {
-      return res.status(400).json({
-        success: false,
-        message: "Guest name, email, and phone are required",
-      });
-    }
+    // Logged-in users can ship to a saved address (addressId) or their default
+    if (!shippingAddress && userId) {
+      const savedAddress = await findSavedAddress(userId, addressId);
 
-    if (!cartItems || typeof cartItems !== "object") {
-      return res.status(400).json({
-        success: false,
-        message: "Cart items are required",
-      });
+      if (addressId && !savedAddress) {
+        throw new NotFoundError("Saved address not found");
+      }
+
+      shippingAddress = savedAddress;
     }
 
-    if (!shippingAddress) {
-      return res.status(400).json({
-        success: false,
-        message: "Shipping address is required",
+    // Pickup orders are collected, so they don't need an address
+    if (!shippingAddress && deliveryMethod !== "pickup") {
+      throw new ValidationError("Shipping address is required", {
+        code: "ADDRESS_REQUIRED",
       });
     }
 
-    // Validate and calculate total
-    let totalAmount = 0;
-    const orderItemsData = [];
-
-    for (const productId in cartItems) {
-      const productIdNum = parseInt(productId);
-      if (isNaN(productIdNum)) continue;
-
-      // Fetch product details
-      const product = await db
-        .select()
-        .from(products)
-        .where(eq(products.id, productIdNum))
-        .limit(1);
+    const { lines, errors } = await validateCartLines(cartItems);
 
-      if (!product.length || !product[0]) continue;
+    if (errors.length) {
+      throw new ValidationError("Some cart items are invalid", {
+        code: "INVALID_CART_ITEMS",
+        data: { errors },
+      });
+    }
 
-      const productData = product[0];
+    if (lines.length === 0) {
+      throw new ValidationError("No valid items in cart", { code: "EMPTY_CART" });
+    }
 
-      // Check if product is in stock
-      if (!productData.inStock) {
-        return res.status(400).json({
-          success: false,
-          message: `Product "${productData.name}" is out of stock`,
+    const customer = {
+      userId: userId ?? null,
+      guestEmail: guestInfo?.email ?? null,
+    };
+    const shipping = await quoteShipping(db, lines, {
+      deliveryMethod,
+      region: shippingAddress?.regionOrState,
+      pickupPointId,
+    });
+    const { shippingBySeller } = shipping;
+
+    // Guests who kept a server-side cart send its token so it is emptied too
+    const cartToken = userId ? undefined : req.get(CART_TOKEN_HEADER);
+    const cartOwner = userId
+      ? { userId }
+      : cartToken
+        ? await findGuestCart(cartToken)
+        : undefined;
+
+    // Stock, order, items, cart clearing and the idempotency record all
+    // commit together or not at all
+    const responseBody = await db.transaction(async (tx) => {
+      if (idempotencyKey) {
+        await tx.insert(idempotencyKeys).values({
+          scope: idempotencyScope,
+          key: idempotencyKey,
+          requestHash,
         });
       }
 
-      // Process each size variant
-      for (const size in cartItems[productId]) {
-        const quantity = cartItems[productId][size];
+      await reserveStock(tx, lines);
 
-        if (quantity > 0) {
-          const itemTotal = parseFloat(productData.price) * quantity;
-          totalAmount += itemTotal;
+      // The coupon row stays locked until commit so its limits can't be overrun
+      const applied = couponCode
+        ? await applyCoupon(tx, couponCode, lines, shippingBySeller, customer, {
+            lock: true,
+          })
+        : undefined;
+
+      // Create order (with guest info if guest checkout)
+      const newOrder = await tx
+        .insert(orders)
+        .values({
+          orderNumber: generateOrderNumber(),
+          userId: userId || null, // null for guest orders
+          ...summariseOrderTotals(lines, shippingBySeller, applied),
+          couponCode: applied?.coupon.code ?? null,
+          discountBreakdown: applied ? [applied.discount] : null,
+          status: "pending",
+          shippingAddress: shippingAddress ?? null,
+          deliveryMethod: shipping.deliveryMethod,
+          deliveryZoneId: shipping.zone.id,
+          pickupPointId: shipping.pickupPoint?.id ?? null,
+          estimatedDeliveryFrom: shipping.estimatedDeliveryFrom,
+          estimatedDeliveryTo: shipping.estimatedDeliveryTo,
+          guestInfo: guestInfo || null, // Store guest info for guest orders
+          paymentStatus: "pending",
+        })
+        .returning();
+
+      const order = newOrder[0]!;
+
+      await recordStatusChange(tx, {
+        orderId: order.id,
+        fromStatus: null,
+        toStatus: "pending",
+        actor: userId
+          ? { userId, role: req.user?.role ?? "customer" }
+          : { userId: null, role: "guest" },
+        note: "Order placed",
+      });
 
-          orderItemsData.push({
-            productId: productIdNum,
-            quantity,
-            price: productData.price,
-            size,
-          });
-        }
+      // Each seller ships their own items as a separate fulfilment
+      const { fulfilments, items: insertedItems } = await createFulfilments(
+        tx,
+        order.id,
+        lines.map((line, index) => ({
+          ...line,
+          discountAmount: formatPesewas(applied?.lineDiscounts[index] ?? 0),
+        })),
+        shippingBySeller,
+        applied?.shippingDiscounts
+      );
+
+      if (applied) {
+        await redeemCoupon(tx, applied, order.id, customer);
       }
-    }
 
-    if (orderItemsData.length === 0) {
-      return res.status(400).json({
-        success: false,
-        message: "No valid items in cart",
-      });
-    }
+      await publishOrderEvent(tx, { type: "order_placed", orderId: order.id });
 
-    // Create order (with guest info if guest checkout)
-    const newOrder = await db
-      .insert(orders)
-      .values({
-        userId: userId || null, // null for guest orders
-        totalAmount: totalAmount.toString(),
-        status: "pending",
-        shippingAddress,
-        guestInfo: guestInfo || null, // Store guest info for guest orders
-        paymentStatus: "pending",
-      })
-      .returning();
-
-    if (!newOrder.length || !newOrder[0]) {
-      return res.status(500).json({
-        success: false,
-        message: "Failed to create order",
-      });
-    }
+      // Clear the saved cart (the user's, or the guest cart named by X-Cart-Token),
+      // counting it as recovered if it had been abandoned
+      if (cartOwner) {
+        await clearCartLines(tx, cartOwner);
+        await recordCartRecovery(tx, cartOwner, order);
+      }
 
-    const orderId = newOrder[0].id;
+      const body = {
+        success: true,
+        message: "Order created successfully",
+        data: {
+          ...order,
+          items: insertedItems,
+          fulfilments,
+          // Guests keep this to track the order without an account
+          ...(userId ? {} : { trackingToken: signOrderTrackingToken(order.id) }),
+        },
+      };
+
+      if (idempotencyKey) {
+        await tx
+          .update(idempotencyKeys)
+          .set({ orderId: order.id, responseStatus: 201, responseBody: body })
+          .where(
+            and(
+              eq(idempotencyKeys.scope, idempotencyScope),
+              eq(idempotencyKeys.key, idempotencyKey)
+            )
+          );
+      }
 
-    // Insert order items
-    const insertedItems = await Promise.all(
-      orderItemsData.map((item) =>
-        db
-          .insert(orderItems)
-          .values({
-            orderId,
-            ...item,
-          })
-          .returning()
-      )
-    );
+      return body;
+    });
 
-    // Clear user's cart from database (only if authenticated user)
-    if (userId) {
-      await db.delete(cart).where(eq(cart.userId, userId));
+    res.status(201).json(responseBody);
+  } catch (error) {
+    // A concurrent request with the same key committed first; replay it
+    if (idempotencyKey && isUniqueViolation(error)) {
+      const stored = await findIdempotentResponse(idempotencyScope, idempotencyKey);
+      if (stored?.responseBody) {
+        res.setHeader("Idempotent-Replayed", "true");
+        return res.status(stored.responseStatus ?? 201).json(stored.responseBody);
+      }
     }
 
-    res.status(201).json({
-      success: true,
-      message: "Order created successfully",
-      data: {
-        ...newOrder[0],
-        items: insertedItems.map((item) => item[0]),
-      },
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
-      success: false,
-      message: "Error creating order",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+    throw error;
   }
 };
 
 // PUT /api/v1/orders/:id - Update order status
+// Purpose: Enforces pending -> processing -> shipped -> delivered; cancel only before shipping
+// Applies the status to every seller fulfilment, then derives the order status from them
 export const updateOrderStatus = async (req: AuthRequest, res: Response) => {
-  try {
-    const { id } = req.params;
-    const { status } = req.body;
+  const { id } = req.params;
+  const { status, note } = req.body as UpdateOrderStatusBody;
 
-    if (!id) {
-      return res.status(400).json({
-        success: false,
-        message: "Order ID is required",
-      });
+  if (!id) {
+    throw new ValidationError("Order ID is required");
+  }
+
+  const orderId = parseInt(id);
+  if (isNaN(orderId)) {
+    throw new ValidationError("Invalid order ID");
+  }
+
+  // Lock the order so concurrent updates can't both pass the transition check
+  const result = await db.transaction(async (tx) => {
+    const existingOrder = await tx
+      .select()
+      .from(orders)
+      .where(eq(orders.id, orderId))
+      .limit(1)
+      .for("update");
+
+    if (!existingOrder.length || !existingOrder[0]) {
+      return { outcome: "not_found" as const };
     }
 
-    const orderId = parseInt(id);
-    if (isNaN(orderId)) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid order ID",
-      });
+    const currentStatus = existingOrder[0].status;
+
+    if (!canTransition(currentStatus, status)) {
+      return {
+        outcome: "invalid_transition" as const,
+        currentStatus,
+        allowed: allowedNextStatuses(currentStatus),
+      };
     }
 
-    if (!status) {
-      return res.status(400).json({
-        success: false,
-        message: "Status is required",
+    const actor = {
+      userId: req.user?.id ?? null,
+      role: req.user?.role ?? "system",
+    };
+    const statusNote = typeof note === "string" ? note : null;
+
+    const fulfilments = await tx
+      .select()
+      .from(orderFulfilments)
+      .where(eq(orderFulfilments.orderId, orderId))
+      .for("update");
+
+    // Orders without items have nothing to fulfil; update them directly
+    if (!fulfilments.length) {
+      const updated = await tx
+        .update(orders)
+        .set({
+          status,
+          updatedAt: new Date(),
+        })
+        .where(eq(orders.id, orderId))
+        .returning();
+
+      await recordStatusChange(tx, {
+        orderId,
+        fromStatus: currentStatus,
+        toStatus: status,
+        actor,
+        note: statusNote,
       });
+
+      return { outcome: "updated" as const, order: updated[0] };
     }
 
-    const validStatuses = [
-      "pending",
-      "processing",
-      "shipped",
-      "delivered",
-      "cancelled",
-    ];
-
-    if (!validStatuses.includes(status)) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid status",
-      });
+    // The order's status follows its seller fulfilments, so move every
+    // fulfilment that hasn't already reached the new status
+    const targetStep = FULFILMENT_STEPS.indexOf(status);
+    const toMove = fulfilments.filter(
+      (fulfilment) =>
+        fulfilment.status !== "cancelled" &&
+        fulfilment.status !== status &&
+        (status === "cancelled" ||
+          FULFILMENT_STEPS.indexOf(fulfilment.status as OrderStatus) <
+            targetStep)
+    );
+    const blocked = toMove.filter(
+      (fulfilment) => !canTransition(fulfilment.status, status)
+    );
+
+    if (blocked.length) {
+      return {
+        outcome: "blocked_fulfilments" as const,
+        fulfilments: blocked.map((fulfilment) => ({
+          id: fulfilment.id,
+          sellerId: fulfilment.sellerId,
+          status: fulfilment.status,
+          allowed: allowedNextStatuses(fulfilment.status),
+        })),
+      };
     }
 
-    // Check if order exists
-    const existingOrder = await db
-      .select()
-      .from(orders)
-      .where(eq(orders.id, orderId))
-      .limit(1);
+    for (const fulfilment of toMove) {
+      await applyFulfilmentStatus(tx, fulfilment, status, actor, statusNote);
+    }
 
-    if (!existingOrder.length || !existingOrder[0]) {
-      return res.status(404).json({
-        success: false,
-        message: "Order not found",
-      });
+    const updated = await syncOrderStatus(tx, orderId, actor, statusNote);
+
+    // Delivered items of paid orders become payable to their sellers
+    if (status === "delivered") {
+      await postDeliveredSales(tx, orderId);
     }
+    return { outcome: "updated" as const, order: updated };
+  });
 
-    // Update order status
-    const updatedOrder = await db
-      .update(orders)
-      .set({
-        status,
-        updatedAt: new Date(),
-      })
-      .where(eq(orders.id, orderId))
-      .returning();
+  if (result.outcome === "not_found") {
+    throw new NotFoundError("Order not found");
+  }
 
-    res.json({
-      success: true,
-      message: "Order status updated successfully",
-      data: updatedOrder[0],
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
-      success: false,
-      message: "Error updating order",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+  if (result.outcome === "invalid_transition") {
+    throw new ConflictError(
+      `Cannot change order status from "${result.currentStatus}" to "${status}"`,
+      {
+        code: "INVALID_STATUS_TRANSITION",
+        data: { currentStatus: result.currentStatus, allowed: result.allowed },
+      }
+    );
+  }
+
+  if (result.outcome === "blocked_fulfilments") {
+    throw new ConflictError(
+      `Some seller fulfilments cannot move to "${status}"`,
+      { code: "INVALID_STATUS_TRANSITION", data: { fulfilments: result.fulfilments } }
+    );
   }
+
+  res.json({
+    success: true,
+    message: "Order status updated successfully",
+    data: result.order,
+  });
 };
 
-// PUT /api/v1/orders/:id/payment - Update payment status
-// Purpose: Update payment status (for payment gateway callback)
+// GET /api/v1/orders/:id/timeline - Order tracking progress
+// Purpose: Fulfilment steps with the time each was reached, plus the full status history
+export const getOrderTimeline = async (req: AuthRequest, res: Response) => {
+  const orderId = parseInt(req.params.id ?? "");
 
-export const updatePaymentStatus = async (req: AuthRequest, res: Response) => {
-  try {
-    const { id } = req.params;
-    const { paymentStatus } = req.body;
+  if (isNaN(orderId)) {
+    throw new ValidationError("Invalid order ID");
+  }
 
-    if (!id) {
-      return res.status(400).json({
-        success: false,
-        message: "Order ID is required",
-      });
-    }
+  const order = await db
+    .select()
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+
+  if (
+    !order.length ||
+    !order[0] ||
+    (req.user?.role !== "admin" && order[0].userId !== req.user?.id)
+  ) {
+    throw new NotFoundError("Order not found");
+  }
 
-    const orderId = parseInt(id);
-    if (isNaN(orderId)) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid order ID",
-      });
+  const history = await db
+    .select({
+      fulfilmentId: orderStatusHistory.fulfilmentId,
+      fromStatus: orderStatusHistory.fromStatus,
+      toStatus: orderStatusHistory.toStatus,
+      actorRole: orderStatusHistory.actorRole,
+      note: orderStatusHistory.note,
+      createdAt: orderStatusHistory.createdAt,
+    })
+    .from(orderStatusHistory)
+    .where(eq(orderStatusHistory.orderId, orderId))
+    .orderBy(asc(orderStatusHistory.createdAt), asc(orderStatusHistory.id));
+
+  const currentStatus = order[0].status ?? "pending";
+  const reachedAt = new Map<string, Date | null>();
+  for (const entry of history) {
+    // Steps follow the order itself; seller fulfilment changes are in the history
+    if (entry.fulfilmentId === null && !reachedAt.has(entry.toStatus)) {
+      reachedAt.set(entry.toStatus, entry.createdAt);
     }
+  }
 
-    if (!paymentStatus) {
-      return res.status(400).json({
-        success: false,
-        message: "Payment status is required",
-      });
-    }
+  // A cancelled order shows the steps it reached, then the cancellation
+  const stepStatuses: string[] =
+    currentStatus === "cancelled"
+      ? [
+          ...FULFILMENT_STEPS.filter((step) => reachedAt.has(step)),
+          "cancelled",
+        ]
+      : FULFILMENT_STEPS;
+  const currentIndex = stepStatuses.indexOf(currentStatus);
+
+  const steps = stepStatuses.map((step, index) => ({
+    status: step,
+    completed: index <= currentIndex,
+    current: index === currentIndex,
+    reachedAt: reachedAt.get(step) ?? null,
+  }));
+
+  res.json({
+    success: true,
+    data: {
+      orderId,
+      currentStatus,
+      steps,
+      // Actor ids stay internal; customers only see the role
+      history,
+    },
+  });
+};
 
-    const validPaymentStatuses = ["pending", "paid", "failed"];
+// POST /api/v1/orders/track - Look up a guest order
+// Body: { orderNumber, email } or { orderNumber, phone } or { trackingToken }
+export const trackGuestOrder = async (req: AuthRequest, res: Response) => {
+  const { orderNumber, email, phone, trackingToken } = req.body as TrackOrderBody;
+  let order: (typeof orders.$inferSelect)[] = [];
 
-    if (!validPaymentStatuses.includes(paymentStatus)) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid payment status",
-      });
+  if (trackingToken) {
+    const orderId = verifyOrderTrackingToken(trackingToken);
+    if (orderId === null) {
+      throw new UnauthorizedError("Invalid or expired tracking token");
     }
-
-    // Update payment status
-    const updatedOrder = await db
-      .update(orders)
-      .set({
-        paymentStatus,
-        updatedAt: new Date(),
-      })
+    order = await db
+      .select()
+      .from(orders)
       .where(eq(orders.id, orderId))
-      .returning();
+      .limit(1);
+  } else {
+    const candidate = await db
+      .select()
+      .from(orders)
+      .where(
+        and(
+          eq(orders.orderNumber, orderNumber ?? ""),
+          isNull(orders.userId)
+        )
+      )
+      .limit(1);
 
-    if (!updatedOrder.length || !updatedOrder[0]) {
-      return res.status(404).json({
-        success: false,
-        message: "Order not found",
-      });
-    }
+    const guestInfo = candidate[0]?.guestInfo;
+    const matches =
+      !!guestInfo &&
+      (email
+        ? guestInfo.email.toLowerCase() === email
+        : phonesMatch(guestInfo.phone, phone ?? ""));
 
-    res.json({
-      success: true,
-      message: "Payment status updated successfully",
-      data: updatedOrder[0],
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
-      success: false,
-      message: "Error updating payment status",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+    // Same response for a wrong number or wrong contact, so orders can't be probed
+    if (matches) order = candidate;
+  }
+
+  if (!order.length || !order[0]) {
+    throw new NotFoundError("Order not found");
+  }
+
+  const items = await db
+    .select({
+      id: orderItems.id,
+      fulfilmentId: orderItems.fulfilmentId,
+      productId: orderItems.productId,
+      quantity: orderItems.quantity,
+      price: orderItems.price,
+      size: orderItems.size,
+      productName: products.name,
+      productImage: products.images,
+    })
+    .from(orderItems)
+    .leftJoin(products, eq(orderItems.productId, products.id))
+    .where(eq(orderItems.orderId, order[0].id));
+
+  const history = await db
+    .select({
+      fulfilmentId: orderStatusHistory.fulfilmentId,
+      toStatus: orderStatusHistory.toStatus,
+      note: orderStatusHistory.note,
+      createdAt: orderStatusHistory.createdAt,
+    })
+    .from(orderStatusHistory)
+    .where(eq(orderStatusHistory.orderId, order[0].id))
+    .orderBy(asc(orderStatusHistory.createdAt), asc(orderStatusHistory.id));
+
+  res.json({
+    success: true,
+    data: {
+      ...order[0],
+      items,
+      fulfilments: await getFulfilmentsWithItems([order[0].id]),
+      history,
+    },
+  });
+};
+
+// POST /api/v1/orders/claim - Move past guest orders into the logged-in account
+// Purpose: Claims guest orders placed with the account's email; the checkout phone
+// number is required too, since owning an email address isn't verified at registration
+export const claimGuestOrders = async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { phone } = req.body as ClaimOrdersBody;
+
+  const user = await db
+    .select({ email: users.email })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user.length || !user[0]) {
+    throw new NotFoundError("User not found");
   }
+
+  const guestOrders = await db
+    .select({ id: orders.id, guestInfo: orders.guestInfo })
+    .from(orders)
+    .where(
+      and(
+        isNull(orders.userId),
+        sql`lower(${orders.guestInfo}->>'email') = ${user[0].email.toLowerCase()}`
+      )
+    );
+
+  const claimableIds = guestOrders
+    .filter((order) => order.guestInfo && phonesMatch(order.guestInfo.phone, phone))
+    .map((order) => order.id);
+
+  const claimed = await db.transaction(async (tx) => {
+    const updated = [];
+    for (const orderId of claimableIds) {
+      // isNull guard: skip orders claimed by a concurrent request
+      const result = await tx
+        .update(orders)
+        .set({ userId, updatedAt: new Date() })
+        .where(and(eq(orders.id, orderId), isNull(orders.userId)))
+        .returning({ id: orders.id, orderNumber: orders.orderNumber });
+      updated.push(...result);
+    }
+    return updated;
+  });
+
+  res.json({
+    success: true,
+    message: claimed.length
+      ? `${claimed.length} order(s) added to your account`
+      : "No guest orders found for this email and phone",
+    count: claimed.length,
+    data: claimed,
+  });
 };
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { ledgerEntries, notifications, orders, payments } from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import { FAKE_SIGNATURE_HEADER, signFakeWebhook } from "../../services/payments/fake.provider.js";
+import { resetDb } from "../../test/db.js";
+import { api } from "../../test/http.js";
+import { createOrder, createUser } from "../../test/fixtures.js";
+
+vi.mock("../../db/index.js", () => import("../../test/db.js"));
+
+const webhook = (payload: object, signature?: string) => {
+  const body = JSON.stringify(payload);
+  return api("POST", "/payments/webhook/fake", {
+    body,
+    headers: { [FAKE_SIGNATURE_HEADER]: signature ?? signFakeWebhook(body) },
+  });
+};
+
+const findOrder = async (orderId: number) =>
+  (await db.select().from(orders).where(eq(orders.id, orderId)))[0]!;
+
+describe("POST /payments/webhook/fake", () => {
+  let orderId: number;
+  let providerReference: string;
+
+  beforeEach(async () => {
+    await resetDb();
+    const customer = await createUser({ phone: "0241234567" });
+    orderId = (await createOrder({ userId: customer.id })).id;
+
+    const started = await api("POST", "/payments/initiate", {
+      token: customer.token,
+      body: { orderId, method: "mtn_momo", phone: "0241234567" },
+    });
+    expect(started.status).toBe(201);
+    providerReference = started.body.data.providerReference;
+  });
+
+  it("rejects an unsigned or wrongly signed event", async () => {
+    const payload = { providerReference, status: "successful" };
+
+    expect((await webhook(payload, "00")).status).toBe(401);
+    expect((await webhook(payload, signFakeWebhook("{}"))).status).toBe(401);
+    expect((await findOrder(orderId)).paymentStatus).toBe("pending");
+  });
+
+  it("marks the order paid and tells the customer", async () => {
+    const response = await webhook({ providerReference, status: "successful" });
+
+    expect(response.body.message).toBe("Payment status updated");
+    expect((await findOrder(orderId)).paymentStatus).toBe("paid");
+    const queued = await db.select().from(notifications);
+    expect(queued.map(({ kind }) => kind)).toEqual(["payment_received", "payment_received"]);
+  });
+
+  it("processes a redelivered event once", async () => {
+    const payload = { providerReference, status: "successful" };
+
+    const responses = await Promise.all([webhook(payload), webhook(payload)]);
+    expect(responses.map(({ body }) => body.message).sort()).toEqual([
+      "Payment already processed",
+      "Payment status updated",
+    ]);
+    expect((await webhook(payload)).body.message).toBe("Payment already processed");
+    expect(await db.select().from(notifications)).toHaveLength(2);
+  });
+
+  it("keeps a paid order paid when another attempt fails", async () => {
+    const failed = await db
+      .insert(payments)
+      .values({
+        orderId,
+        reference: "GMP-OTHER",
+        provider: "fake",
+        method: "mtn_momo",
+        amount: "100.00",
+        providerReference: "FAKE-OTHER",
+      })
+      .returning();
+
+    await webhook({ providerReference, status: "successful" });
+    await webhook({ providerReference: failed[0]!.providerReference!, status: "failed" });
+
+    expect((await findOrder(orderId)).paymentStatus).toBe("paid");
+  });
+
+  it("flags the payment for a refund when the order was cancelled meanwhile", async () => {
+    await db.update(orders).set({ status: "cancelled" }).where(eq(orders.id, orderId));
+
+    const response = await webhook({ providerReference, status: "successful" });
+
+    expect(response.body.message).toBe("Payment recorded for a cancelled order; it needs a refund");
+    expect((await findOrder(orderId)).paymentStatus).toBe("refund_pending");
+    const payment = await db.select().from(payments).where(eq(payments.orderId, orderId));
+    expect(payment[0]!.status).toBe("successful");
+    expect(await db.select().from(ledgerEntries)).toHaveLength(0);
+    expect(await db.select().from(notifications)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,286 @@
+import crypto from "node:crypto";
+import type { Response } from "express";
+import { orders, payments } from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import type { AuthRequest } from "../../middleware/auth.middleware.js";
+import { eq, and, desc, notInArray } from "drizzle-orm";
+import {
+  getActivePaymentProvider,
+  getPaymentProvider,
+} from "../../services/payments/index.js";
+import { postDeliveredSales } from "../../services/ledger.service.js";
+import { publishOrderEvent } from "../../services/orderNotification.service.js";
+import type { InitiatePaymentBody } from "../../schemas/v1/payment.schema.js";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from "../../utils/errors.js";
+
+// Raw body is captured by express.json() in src/index.ts for signature checks
+interface WebhookRequest extends AuthRequest {
+  rawBody?: Buffer;
+}
+
+type OrderRow = typeof orders.$inferSelect;
+
+// Authenticated users may pay for their own orders; guests confirm with their email
+const canPayForOrder = (req: AuthRequest, order: OrderRow, email?: string) => {
+  if (req.user?.role === "admin") return true;
+  if (order.userId) return order.userId === req.user?.id;
+  return (
+    !!email &&
+    !!order.guestInfo &&
+    order.guestInfo.email.toLowerCase() === email.trim().toLowerCase()
+  );
+};
+
+// POST /api/v1/payments/initiate - Start a payment for an order
+// Purpose: Push a mobile money prompt or create a card checkout with the active provider
+
+export const initiatePayment = async (req: AuthRequest, res: Response) => {
+  const {
+    orderId,
+    method: paymentMethod,
+    phone,
+    email,
+  } = req.body as InitiatePaymentBody;
+
+  const order = await db
+    .select()
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+
+  if (!order.length || !order[0]) {
+    throw new NotFoundError("Order not found");
+  }
+
+  const orderData = order[0];
+
+  if (!canPayForOrder(req, orderData, email)) {
+    throw new ForbiddenError("You do not have permission to pay for this order");
+  }
+
+  if (orderData.paymentStatus === "paid") {
+    throw new ConflictError("Order has already been paid");
+  }
+
+  if (orderData.status === "cancelled") {
+    throw new ConflictError("Cancelled orders cannot be paid");
+  }
+
+  const provider = getActivePaymentProvider();
+  const reference = `GMP-${orderData.id}-${crypto.randomBytes(6).toString("hex")}`;
+
+  const newPayment = await db
+    .insert(payments)
+    .values({
+      orderId: orderData.id,
+      reference,
+      provider: provider.name,
+      method: paymentMethod,
+      amount: orderData.totalAmount,
+      currency: "GHS",
+      phone: phone || null,
+      status: "pending",
+    })
+    .returning();
+
+  const receiptEmail = orderData.guestInfo?.email || email;
+  const result = await provider.initiatePayment({
+    reference,
+    amount: orderData.totalAmount,
+    currency: "GHS",
+    method: paymentMethod,
+    ...(phone ? { phone } : {}),
+    ...(receiptEmail ? { email: receiptEmail } : {}),
+  });
+
+  const updatedPayment = await db
+    .update(payments)
+    .set({
+      providerReference: result.providerReference,
+      status: result.status,
+      checkoutUrl: result.checkoutUrl || null,
+      failureReason: result.failureReason || null,
+      updatedAt: new Date(),
+    })
+    .where(eq(payments.id, newPayment[0]!.id))
+    .returning();
+
+  res.status(201).json({
+    success: true,
+    message:
+      paymentMethod === "card"
+        ? "Redirect the customer to complete card payment"
+        : "Payment prompt sent to customer's phone",
+    data: updatedPayment[0],
+  });
+};
+
+// POST /api/v1/payments/webhook/:provider - Provider payment callback
+// Purpose: The only place that moves orders.paymentStatus; signature is verified first
+
+export const handlePaymentWebhook = async (
+  req: WebhookRequest,
+  res: Response
+) => {
+  const provider = getPaymentProvider(req.params.provider ?? "");
+
+  if (!provider) {
+    throw new NotFoundError("Unknown payment provider");
+  }
+
+  if (
+    !req.rawBody ||
+    !provider.verifyWebhookSignature(req.rawBody, req.headers)
+  ) {
+    throw new UnauthorizedError("Invalid webhook signature");
+  }
+
+  const event = provider.parseWebhookEvent(req.body);
+
+  // Acknowledge events we don't act on so the provider stops retrying
+  if (!event) {
+    return res.json({ success: true, message: "Event ignored" });
+  }
+
+  const payment = await db
+    .select()
+    .from(payments)
+    .where(
+      and(
+        eq(payments.provider, provider.name),
+        eq(payments.providerReference, event.providerReference)
+      )
+    )
+    .limit(1);
+
+  if (!payment.length || !payment[0]) {
+    throw new NotFoundError("Payment not found");
+  }
+
+  const paymentData = payment[0];
+
+  // Webhooks may be delivered more than once
+  if (paymentData.status !== "pending") {
+    return res.json({ success: true, message: "Payment already processed" });
+  }
+
+  const outcome = await db.transaction(async (tx) => {
+    // Only one of several concurrent deliveries moves the payment out of pending
+    const claimed = await tx
+      .update(payments)
+      .set({
+        status: event.status,
+        failureReason: event.failureReason || null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(payments.id, paymentData.id), eq(payments.status, "pending")))
+      .returning({ id: payments.id });
+
+    if (!claimed.length) return "duplicate" as const;
+
+    if (event.status === "successful") {
+      // Locked so a cancellation can't land between this check and the update
+      const order = await tx
+        .select({ status: orders.status })
+        .from(orders)
+        .where(eq(orders.id, paymentData.orderId))
+        .limit(1)
+        .for("update");
+
+      // The order was cancelled while the customer was paying: its stock is already
+      // released, so keep the money out of the ledger and flag it to be refunded
+      if (order[0]?.status === "cancelled") {
+        await tx
+          .update(orders)
+          .set({ paymentStatus: "refund_pending", updatedAt: new Date() })
+          .where(eq(orders.id, paymentData.orderId));
+        return "refund_pending" as const;
+      }
+
+      await tx
+        .update(orders)
+        .set({ paymentStatus: "paid", updatedAt: new Date() })
+        .where(eq(orders.id, paymentData.orderId));
+
+      // Items delivered before the payment cleared are payable to sellers now
+      await postDeliveredSales(tx, paymentData.orderId);
+
+      await publishOrderEvent(tx, {
+        type: "payment_received",
+        orderId: paymentData.orderId,
+        amount: paymentData.amount,
+      });
+      return "updated" as const;
+    }
+
+    // A failed attempt must not override a payment that already succeeded
+    await tx
+      .update(orders)
+      .set({ paymentStatus: "failed", updatedAt: new Date() })
+      .where(
+        and(
+          eq(orders.id, paymentData.orderId),
+          notInArray(orders.paymentStatus, ["paid", "refund_pending"])
+        )
+      );
+    return "updated" as const;
+  });
+
+  if (outcome === "duplicate") {
+    return res.json({ success: true, message: "Payment already processed" });
+  }
+
+  if (outcome === "refund_pending") {
+    return res.json({
+      success: true,
+      message: "Payment recorded for a cancelled order; it needs a refund",
+    });
+  }
+
+  res.json({
+    success: true,
+    message: "Payment status updated",
+  });
+};
+
+// GET /api/v1/payments/order/:orderId - List payment attempts for an order
+
+export const getOrderPayments = async (req: AuthRequest, res: Response) => {
+  const orderId = parseInt(req.params.orderId ?? "");
+
+  if (isNaN(orderId)) {
+    throw new ValidationError("Invalid order ID");
+  }
+
+  const order = await db
+    .select()
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+
+  if (
+    !order.length ||
+    !order[0] ||
+    (req.user?.role !== "admin" && order[0].userId !== req.user?.id)
+  ) {
+    throw new NotFoundError("Order not found");
+  }
+
+  const orderPayments = await db
+    .select()
+    .from(payments)
+    .where(eq(payments.orderId, orderId))
+    .orderBy(desc(payments.createdAt));
+
+  res.json({
+    success: true,
+    count: orderPayments.length,
+    data: orderPayments,
+  });
+};
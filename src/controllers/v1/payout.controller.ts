@@ -0,0 +1,240 @@
+import type { Response } from "express";
+import {
+  commissionRates,
+  categories,
+  payoutBatches,
+  payouts,
+  sellerProfiles,
+  users,
+} from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import type { AuthRequest } from "../../middleware/auth.middleware.js";
+import { eq, desc, asc } from "drizzle-orm";
+import {
+  DEFAULT_COMMISSION_RATE,
+  createPayoutBatch as generatePayoutBatch,
+  settlePayout,
+} from "../../services/ledger.service.js";
+import type {
+  SetCommissionRateBody,
+  UpdatePayoutBody,
+} from "../../schemas/v1/payout.schema.js";
+import { NotFoundError, ValidationError } from "../../utils/errors.js";
+
+// GET /api/v1/payouts/commission-rates - List commission rates (Admin only)
+// Purpose: The default rate plus any per-category and per-seller overrides
+
+export const getCommissionRates = async (req: AuthRequest, res: Response) => {
+  const rates = await db
+    .select({
+      id: commissionRates.id,
+      categoryId: commissionRates.categoryId,
+      categoryName: categories.name,
+      sellerId: commissionRates.sellerId,
+      storeName: sellerProfiles.businessName,
+      rate: commissionRates.rate,
+      updatedAt: commissionRates.updatedAt,
+    })
+    .from(commissionRates)
+    .leftJoin(categories, eq(commissionRates.categoryId, categories.id))
+    .leftJoin(sellerProfiles, eq(commissionRates.sellerId, sellerProfiles.userId))
+    .orderBy(asc(commissionRates.id));
+
+  res.json({
+    success: true,
+    count: rates.length,
+    data: {
+      defaultRate: DEFAULT_COMMISSION_RATE,
+      rates,
+    },
+  });
+};
+
+// PUT /api/v1/payouts/commission-rates - Set a category or seller rate (Admin only)
+// Body: { categoryId, rate } or { sellerId, rate }, with rate as a fraction (0.12 = 12%)
+// Applies to items delivered from now on; posted sales keep the rate they were posted with
+
+export const setCommissionRate = async (req: AuthRequest, res: Response) => {
+  const { categoryId, sellerId, rate } = req.body as SetCommissionRateBody;
+  const targetId = (categoryId ?? sellerId)!;
+
+  const target =
+    categoryId !== undefined
+      ? await db
+          .select({ id: categories.id })
+          .from(categories)
+          .where(eq(categories.id, targetId))
+          .limit(1)
+      : await db
+          .select({ id: users.id })
+          .from(users)
+          .where(eq(users.id, targetId))
+          .limit(1);
+
+  if (!target.length) {
+    throw new NotFoundError(
+      categoryId !== undefined ? "Category not found" : "Seller not found"
+    );
+  }
+
+  const rateValue = rate.toFixed(4);
+  const saved = await db
+    .insert(commissionRates)
+    .values({
+      ...(categoryId !== undefined
+        ? { categoryId: targetId }
+        : { sellerId: targetId }),
+      rate: rateValue,
+    })
+    .onConflictDoUpdate({
+      target:
+        categoryId !== undefined
+          ? commissionRates.categoryId
+          : commissionRates.sellerId,
+      set: { rate: rateValue, updatedAt: new Date() },
+    })
+    .returning();
+
+  res.json({
+    success: true,
+    message: "Commission rate saved",
+    data: saved[0],
+  });
+};
+
+// DELETE /api/v1/payouts/commission-rates/:id - Remove an override (Admin only)
+
+export const deleteCommissionRate = async (req: AuthRequest, res: Response) => {
+  const rateId = parseInt(req.params.id ?? "");
+
+  if (isNaN(rateId)) {
+    throw new ValidationError("Invalid commission rate ID");
+  }
+
+  const deleted = await db
+    .delete(commissionRates)
+    .where(eq(commissionRates.id, rateId))
+    .returning();
+
+  if (!deleted.length) {
+    throw new NotFoundError("Commission rate not found");
+  }
+
+  res.json({
+    success: true,
+    message: "Commission rate removed",
+  });
+};
+
+// POST /api/v1/payouts/batches - Generate a payout batch (Admin only)
+// Purpose: One mobile money payout per approved seller with a balance to pay
+
+export const createPayoutBatch = async (req: AuthRequest, res: Response) => {
+  const batch = await db.transaction((tx) =>
+    generatePayoutBatch(tx, req.user!.id)
+  );
+
+  if (!batch) {
+    return res.status(200).json({
+      success: true,
+      message: "No seller balances are due for payout",
+      data: null,
+    });
+  }
+
+  res.status(201).json({
+    success: true,
+    message: "Payout batch created",
+    data: batch,
+  });
+};
+
+// GET /api/v1/payouts/batches - List payout batches (Admin only)
+
+export const getPayoutBatches = async (req: AuthRequest, res: Response) => {
+  const batches = await db
+    .select()
+    .from(payoutBatches)
+    .orderBy(desc(payoutBatches.createdAt));
+
+  res.json({
+    success: true,
+    count: batches.length,
+    data: batches,
+  });
+};
+
+// GET /api/v1/payouts/batches/:id - Get a batch with its payouts (Admin only)
+// Purpose: The list of mobile money transfers to send
+
+export const getPayoutBatch = async (req: AuthRequest, res: Response) => {
+  const batchId = parseInt(req.params.id ?? "");
+
+  if (isNaN(batchId)) {
+    throw new ValidationError("Invalid batch ID");
+  }
+
+  const batch = await db
+    .select()
+    .from(payoutBatches)
+    .where(eq(payoutBatches.id, batchId))
+    .limit(1);
+
+  if (!batch.length || !batch[0]) {
+    throw new NotFoundError("Payout batch not found");
+  }
+
+  const batchPayouts = await db
+    .select({
+      payout: payouts,
+      storeName: sellerProfiles.businessName,
+    })
+    .from(payouts)
+    .leftJoin(sellerProfiles, eq(payouts.sellerId, sellerProfiles.userId))
+    .where(eq(payouts.batchId, batchId))
+    .orderBy(asc(payouts.id));
+
+  res.json({
+    success: true,
+    data: {
+      ...batch[0],
+      payouts: batchPayouts.map(({ payout, storeName }) => ({
+        ...payout,
+        storeName,
+      })),
+    },
+  });
+};
+
+// PATCH /api/v1/payouts/:id - Record a payout's outcome (Admin only)
+// Body: { status: "paid", providerReference } or { status: "failed", failureReason }
+
+export const updatePayout = async (req: AuthRequest, res: Response) => {
+  const payoutId = parseInt(req.params.id ?? "");
+  const { status, providerReference, failureReason } = req.body as UpdatePayoutBody;
+
+  if (isNaN(payoutId)) {
+    throw new ValidationError("Invalid payout ID");
+  }
+
+  const payout = await db.transaction((tx) =>
+    settlePayout(tx, payoutId, {
+      status,
+      providerReference: providerReference ?? null,
+      failureReason: failureReason ?? null,
+    })
+  );
+
+  if (!payout) {
+    throw new NotFoundError("Pending payout not found");
+  }
+
+  res.json({
+    success: true,
+    message:
+      status === "paid"
+        ? "Payout marked as paid"
+        : "Payout marked as failed; the amount is back on the seller's balance",
+    data: payout,
+  });
+};
@@ -1,232 +1,518 @@
 import type { Request, Response } from "express";
-import { products } from "../../db/schema.js";
+import { products, categories, productStock } from "../../db/schema.js";
 import { db } from "../../db/index.js";
-import { eq, desc, like, and } from "drizzle-orm";
+import type { AuthRequest } from "../../middleware/auth.middleware.js";
+import { eq, and, asc, desc, lte, count } from "drizzle-orm";
+import {
+  setStockLevels,
+  syncStockSizes,
+  stockSizesFor,
+  isLowStock,
+} from "../../services/inventory.service.js";
+import {
+  PRODUCT_SORTS,
+  buildProductFilters,
+  combineFilters,
+  getProductFacets,
+  getSearchSuggestions,
+  searchRank,
+} from "../../services/productSearch.service.js";
+import type { ProductSort } from "../../services/productSearch.service.js";
+import {
+  parsePagination,
+  buildPaginationMeta,
+} from "../../utils/pagination.js";
+import type {
+  CreateProductBody,
+  UpdateProductBody,
+  UpdateStockBody,
+} from "../../schemas/v1/product.schema.js";
+import { NotFoundError, ValidationError } from "../../utils/errors.js";
 
-// get all products
+// Validate a { size: quantity } map against a product's sizes
+// Returns the levels, or an error message
+const parseStockLevels = (
+  stock: unknown,
+  sizes: string[] | null | undefined
+): Record<string, number> | string => {
+  if (!stock || typeof stock !== "object" || Array.isArray(stock)) {
+    return "Stock must be an object of { size: quantity }";
+  }
+
+  const allowedSizes = stockSizesFor(sizes);
+  const levels: Record<string, number> = {};
 
-export const getProducts = async (req:Request, res:Response) => {
-  try {
-    const { category, search, bestSeller } = req.query;
-    let query = db.select().from(products);
-
-    // Filter by category
-    const conditions = [];
-    if (category) conditions.push(eq(products.category, category as string));
-    if (bestSeller === "true") conditions.push(eq(products.bestSeller, true));
-    if (search) conditions.push(like(products.name, `%${search}%`));
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions)) as any;
+  for (const [size, quantity] of Object.entries(stock)) {
+    if (!allowedSizes.includes(size)) {
+      return `Size "${size}" is not one of: ${allowedSizes.join(", ")}`;
     }
-    const allProducts = await query.orderBy(desc(products.createdAt));
+    if (!Number.isInteger(quantity) || (quantity as number) < 0) {
+      return `Quantity for size "${size}" must be a whole number of 0 or more`;
+    }
+    levels[size] = quantity as number;
+  }
+
+  return levels;
+};
+
+type ProductInsert = typeof products.$inferInsert;
+type ProductUpdate = { [K in keyof ProductInsert]?: ProductInsert[K] | undefined };
+
+// Shipping weight in kg as stored, or null to use the default weight
+const toWeightKg = (weightKg: number | null | undefined) =>
+  weightKg == null ? null : weightKg.toFixed(3);
+
+// Look up the category (and optional subcategory) a product is filed under
+// Returns the names stored on the product, or an error message
+const resolveProductCategories = async (
+  categoryId: number,
+  subCategoryId?: number | null
+): Promise<
+  | { category: string; subCategory: string | null; error?: undefined }
+  | { error: string }
+> => {
+  const category = await db
+    .select()
+    .from(categories)
+    .where(eq(categories.id, categoryId))
+    .limit(1);
+
+  if (!category.length || !category[0]) {
+    return { error: "Category not found" };
+  }
+
+  if (!subCategoryId) {
+    return { category: category[0].name, subCategory: null };
+  }
+
+  const subCategory = await db
+    .select()
+    .from(categories)
+    .where(
+      and(
+        eq(categories.id, subCategoryId),
+        eq(categories.parentId, categoryId)
+      )
+    )
+    .limit(1);
+
+  if (!subCategory.length || !subCategory[0]) {
+    return { error: "Subcategory not found in the selected category" };
+  }
 
-    res.json({
+  return { category: category[0].name, subCategory: subCategory[0].name };
+};
+
+// get all products
+
+export const getProducts = async (req:Request, res:Response) =>
+  listProducts(req.query, res);
+
+// GET /api/v1/products/search?q= - Relevance-ranked search
+// Accepts the same filters, pagination and facets as the product listing
+export const searchProducts = async (req: Request, res: Response) => {
+  const term = typeof req.query.q === "string" ? req.query.q.trim() : "";
+
+  if (!term) {
+    throw new ValidationError("Search term (q) is required");
+  }
+
+  return listProducts(
+    { ...req.query, search: term, sort: req.query.sort || "relevance" },
+    res
+  );
+};
+
+// GET /api/v1/products/suggest?q= - Autocomplete for the search box
+export const suggestProducts = async (req: Request, res: Response) => {
+  const term = typeof req.query.q === "string" ? req.query.q.trim() : "";
+
+  if (term.length < 2) {
+    return res.json({
       success: true,
-      count: allProducts.length,
-      data: allProducts,
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
-      success: false,
-      message: "Error fetching products",
-      error: error instanceof Error ? error.message : "Unknown error",
+      data: { products: [], categories: [] },
     });
   }
+
+  const suggestions = await getSearchSuggestions(term);
+
+  res.json({
+    success: true,
+    data: suggestions,
+  });
+};
+
+// Shared by the listing and search endpoints
+const listProducts = async (query: Record<string, unknown>, res: Response) => {
+  const { filters, error } = buildProductFilters(query);
+  if (error) {
+    throw new ValidationError(error);
+  }
+
+  const search = typeof query.search === "string" ? query.search.trim() : "";
+  const sort = (query.sort as string) || "newest";
+
+  // Relevance ordering only makes sense with a search term
+  let orderBy;
+  if (sort === "relevance" && search) {
+    orderBy = [desc(searchRank(search)), desc(products.id)];
+  } else if (Object.hasOwn(PRODUCT_SORTS, sort)) {
+    orderBy = PRODUCT_SORTS[sort as ProductSort];
+  } else {
+    const sorts = [...Object.keys(PRODUCT_SORTS), ...(search ? ["relevance"] : [])];
+    throw new ValidationError(`Sort must be one of: ${sorts.join(", ")}`);
+  }
+
+  const { page, limit, offset } = parsePagination(query, {
+    defaultLimit: 24,
+    maxLimit: 100,
+  });
+  const where = combineFilters(filters);
+
+  const pageProducts = await db
+    .select()
+    .from(products)
+    .where(where)
+    .orderBy(...orderBy)
+    .limit(limit)
+    .offset(offset);
+
+  const total = await db.select({ total: count() }).from(products).where(where);
+
+  // Facets are opt-out so simple listings can skip the extra queries
+  const facets =
+    query.facets === "false" ? undefined : await getProductFacets(filters);
+
+  res.json({
+    success: true,
+    count: pageProducts.length,
+    data: pageProducts,
+    pagination: buildPaginationMeta(page, limit, total[0]?.total ?? 0),
+    ...(facets ? { facets } : {}),
+  });
 };
 
 // get product by id
 
 export const getProductById = async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-     if (!id) {
-       return res.status(400).json({
-         success: false,
-         message: "Product ID is required",
-       });
-     }
-    const productId = parseInt(id);
-    if (isNaN(productId)) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid product ID",
-      });
-    }
-    const product = await db
-      .select()
-      .from(products)
-      .where(eq(products.id, productId))
-      .limit(1);
-    if (!product.length) {
-      return res.status(404).json({
-        success: false,
-        message: "Product not found",
-      });
-    }
-
-    res.json({
-      success: true,
-      data: product[0],
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
-      success: false,
-      message: "Error fetching products",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+  const { id } = req.params;
+  if (!id) {
+    throw new ValidationError("Product ID is required");
+  }
+  const productId = parseInt(id);
+  if (isNaN(productId)) {
+    throw new ValidationError("Invalid product ID");
   }
+  const product = await db
+    .select()
+    .from(products)
+    .where(eq(products.id, productId))
+    .limit(1);
+  if (!product.length) {
+    throw new NotFoundError("Product not found");
+  }
+
+  res.json({
+    success: true,
+    data: product[0],
+  });
 };
 
 // Create product
-export const createProduct = async (req: Request, res: Response) => {
-  try {
-    const {
-      name,
-      description,
-      price,
-      images,
-      category,
-      subCategory,
-      sizes,
-      inStock,
-      bestSeller,
-      sellerId,
-    } = req.body;
-
-    if (!name || !description || !price || !category) {
-      return res.status(400).json({
-        success: false,
-        message: "Name, description, price, and category are required",
-      });
-    }
+export const createProduct = async (req: AuthRequest, res: Response) => {
+  const {
+    name,
+    description,
+    price,
+    images,
+    categoryId,
+    subCategoryId,
+    sizes,
+    stock,
+    lowStockThreshold,
+    bestSeller,
+    sellerId,
+    weightKg,
+  } = req.body as CreateProductBody;
+
+  const resolvedCategories = await resolveProductCategories(
+    categoryId,
+    subCategoryId
+  );
+  if (resolvedCategories.error !== undefined) {
+    throw new ValidationError(resolvedCategories.error);
+  }
+
+  const stockLevels = parseStockLevels(stock ?? {}, sizes);
+  if (typeof stockLevels === "string") {
+    throw new ValidationError(stockLevels);
+  }
 
-    const newProduct = await db
+  const newProduct = await db.transaction(async (tx) => {
+    const inserted = await tx
       .insert(products)
       .values({
         name,
         description,
-        price: price.toString(),
+        price: price.toFixed(2),
         images: images || [],
-        category,
-        subCategory: subCategory || null,
+        category: resolvedCategories.category,
+        subCategory: resolvedCategories.subCategory,
+        categoryId,
+        subCategoryId: subCategoryId || null,
         sizes: sizes || [],
-        inStock: inStock ?? true,
+        inStock: false,
+        lowStockThreshold: lowStockThreshold ?? 5,
         bestSeller: bestSeller ?? false,
+        weightKg: toWeightKg(weightKg),
         rating: "0.0",
-        sellerId: sellerId || null,
+        // Sellers always own what they create; admins may assign a seller
+        sellerId: req.user?.role === "admin" ? sellerId || null : req.user!.id,
       })
       .returning();
 
-    res.status(201).json({
-      success: true,
-      message: "Product created successfully",
-      data: newProduct[0],
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
-      success: false,
-      message: "Error creating product",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
-  }
+    const product = inserted[0]!;
+    await syncStockSizes(tx, product.id, product.sizes);
+    await setStockLevels(tx, product.id, stockLevels);
+
+    // Re-read so the response has the derived inStock value
+    const created = await tx
+      .select()
+      .from(products)
+      .where(eq(products.id, product.id))
+      .limit(1);
+
+    return created;
+  });
+
+  res.status(201).json({
+    success: true,
+    message: "Product created successfully",
+    data: newProduct[0],
+  });
 };
 
 // Update product
-export const updateProduct = async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-     if (!id) {
-       return res.status(400).json({
-         success: false,
-         message: "Product ID is required",
-       });
-     }
-    const productId = parseInt(id);
-    const updates = req.body;
-
-    if (isNaN(productId)) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid product ID",
-      });
+export const updateProduct = async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  if (!id) {
+    throw new ValidationError("Product ID is required");
+  }
+  const productId = parseInt(id);
+  const body = req.body as UpdateProductBody;
+
+  if (isNaN(productId)) {
+    throw new ValidationError("Invalid product ID");
+  }
+
+  // Only the fields in updateProductBody get this far; ratings, stock status
+  // and category names are maintained by the server
+  const { price, weightKg, sellerId, categoryId: _, subCategoryId: __, ...fields } = body;
+  const updates: ProductUpdate = { ...fields };
+  if (price !== undefined) updates.price = price.toFixed(2);
+  if (weightKg !== undefined) updates.weightKg = toWeightKg(weightKg);
+
+  // Only admins can move a product to another seller
+  if (sellerId !== undefined && req.user?.role === "admin") {
+    updates.sellerId = sellerId;
+  }
+
+  // Category names are derived from the category ids
+  if (body.categoryId !== undefined || body.subCategoryId !== undefined) {
+    const currentProduct = await db
+      .select({
+        categoryId: products.categoryId,
+        subCategoryId: products.subCategoryId,
+      })
+      .from(products)
+      .where(eq(products.id, productId))
+      .limit(1);
+
+    const categoryId = body.categoryId ?? currentProduct[0]?.categoryId;
+    // Changing the category clears a subcategory that isn't re-sent
+    const subCategoryId =
+      body.subCategoryId !== undefined
+        ? body.subCategoryId
+        : body.categoryId !== undefined
+          ? null
+          : currentProduct[0]?.subCategoryId;
+
+    if (!categoryId) {
+      throw new ValidationError("categoryId is required when setting a subcategory");
+    }
+
+    const resolvedCategories = await resolveProductCategories(
+      categoryId,
+      subCategoryId
+    );
+    if (resolvedCategories.error !== undefined) {
+      throw new ValidationError(resolvedCategories.error);
     }
 
-    const updatedProduct = await db
+    updates.categoryId = categoryId;
+    updates.subCategoryId = subCategoryId ?? null;
+    updates.category = resolvedCategories.category;
+    updates.subCategory = resolvedCategories.subCategory;
+  }
+
+
+  const updatedProduct = await db.transaction(async (tx) => {
+    const updated = await tx
       .update(products)
-      .set({
-        ...updates,
-        price: updates.price ? updates.price.toString() : undefined,
-        updatedAt: new Date(),
-      })
+      .set({ ...updates, updatedAt: new Date() })
       .where(eq(products.id, productId))
       .returning();
 
-    if (!updatedProduct.length) {
-      return res.status(404).json({
-        success: false,
-        message: "Product not found",
-      });
+    if (updated[0] && updates.sizes !== undefined) {
+      await syncStockSizes(tx, productId, updated[0].sizes);
     }
 
-    res.json({
-      success: true,
-      message: "Product updated successfully",
-      data: updatedProduct[0],
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
-      success: false,
-      message: "Error updating product",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+    return updated;
+  });
+
+  if (!updatedProduct.length) {
+    throw new NotFoundError("Product not found");
   }
+
+  res.json({
+    success: true,
+    message: "Product updated successfully",
+    data: updatedProduct[0],
+  });
 };
 
 // Delete product
 export const deleteProduct = async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-     if (!id) {
-       return res.status(400).json({
-         success: false,
-         message: "Product ID is required",
-       });
-     }
-    const productId = parseInt(id);
-
-    if (isNaN(productId)) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid product ID",
-      });
-    }
+  const { id } = req.params;
+  if (!id) {
+    throw new ValidationError("Product ID is required");
+  }
+  const productId = parseInt(id);
 
-    const deleted = await db
-      .delete(products)
-      .where(eq(products.id, productId))
-      .returning();
+  if (isNaN(productId)) {
+    throw new ValidationError("Invalid product ID");
+  }
+
+  const deleted = await db
+    .delete(products)
+    .where(eq(products.id, productId))
+    .returning();
+
+  if (!deleted.length) {
+    throw new NotFoundError("Product not found");
+  }
+
+  res.json({
+    success: true,
+    message: "Product deleted successfully",
+  });
+};
+
+// GET /api/v1/products/product/:id/stock - Stock quantities per size
+export const getProductStock = async (req: Request, res: Response) => {
+  const productId = parseInt(req.params.id ?? "");
+
+  if (isNaN(productId)) {
+    throw new ValidationError("Invalid product ID");
+  }
+
+  const product = await db
+    .select({
+      id: products.id,
+      inStock: products.inStock,
+      lowStockThreshold: products.lowStockThreshold,
+    })
+    .from(products)
+    .where(eq(products.id, productId))
+    .limit(1);
+
+  if (!product.length || !product[0]) {
+    throw new NotFoundError("Product not found");
+  }
+
+  const stock = await db
+    .select({ size: productStock.size, quantity: productStock.quantity })
+    .from(productStock)
+    .where(eq(productStock.productId, productId))
+    .orderBy(asc(productStock.size));
+
+  const threshold = product[0].lowStockThreshold;
+
+  res.json({
+    success: true,
+    data: {
+      ...product[0],
+      totalQuantity: stock.reduce((sum, row) => sum + row.quantity, 0),
+      sizes: stock.map((row) => ({
+        ...row,
+        lowStock: isLowStock(row.quantity, threshold),
+      })),
+    },
+  });
+};
+
+// PUT /api/v1/products/product/:id/stock - Set stock quantities (owner or admin)
+// Body: { stock: { S: 10, M: 4 }, lowStockThreshold?: number }
+export const updateProductStock = async (req: AuthRequest, res: Response) => {
+  const productId = parseInt(req.params.id ?? "");
+  const { stock, lowStockThreshold } = req.body as UpdateStockBody;
+
+  if (isNaN(productId)) {
+    throw new ValidationError("Invalid product ID");
+  }
+
+  const product = await db
+    .select({ sizes: products.sizes })
+    .from(products)
+    .where(eq(products.id, productId))
+    .limit(1);
+
+  if (!product.length || !product[0]) {
+    throw new NotFoundError("Product not found");
+  }
+
+  const stockLevels = parseStockLevels(stock, product[0].sizes);
+  if (typeof stockLevels === "string") {
+    throw new ValidationError(stockLevels);
+  }
 
-    if (!deleted.length) {
-      return res.status(404).json({
-        success: false,
-        message: "Product not found",
-      });
+  await db.transaction(async (tx) => {
+    if (lowStockThreshold !== undefined) {
+      await tx
+        .update(products)
+        .set({ lowStockThreshold })
+        .where(eq(products.id, productId));
     }
+    await setStockLevels(tx, productId, stockLevels);
+  });
 
-    res.json({
-      success: true,
-      message: "Product deleted successfully",
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({
-      success: false,
-      message: "Error deleting product",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+  return getProductStock(req, res);
+};
+
+// GET /api/v1/products/stock/low - Sizes at or below their low-stock threshold
+// Sellers see their own products; admins see everything
+export const getLowStockProducts = async (req: AuthRequest, res: Response) => {
+  const conditions = [lte(productStock.quantity, products.lowStockThreshold)];
+  if (req.user?.role !== "admin") {
+    conditions.push(eq(products.sellerId, req.user!.id));
   }
+
+  const lowStock = await db
+    .select({
+      productId: products.id,
+      name: products.name,
+      size: productStock.size,
+      quantity: productStock.quantity,
+      lowStockThreshold: products.lowStockThreshold,
+    })
+    .from(productStock)
+    .innerJoin(products, eq(productStock.productId, products.id))
+    .where(and(...conditions))
+    .orderBy(asc(productStock.quantity));
+
+  res.json({
+    success: true,
+    count: lowStock.length,
+    data: lowStock,
+  });
 };
@@ -0,0 +1,19 @@
+import type { Response } from "express";
+import type { AuthRequest } from "../../middleware/auth.middleware.js";
+import { getAbandonedCartReport as buildAbandonedCartReport } from "../../services/abandonedCart.service.js";
+
+// GET /api/v1/reports/abandoned-carts - Abandoned cart report (Admin only)
+// Purpose: Abandonment rate, reminders sent, and revenue from recovered carts
+// Filter with ?from=&to= (ISO dates); all time by default
+
+export const getAbandonedCartReport = async (req: AuthRequest, res: Response) => {
+  const { from, to } = req.query;
+
+  const fromDate = from ? new Date(String(from)) : null;
+  const toDate = to ? new Date(String(to)) : null;
+
+  res.json({
+    success: true,
+    data: await buildAbandonedCartReport(fromDate, toDate),
+  });
+};
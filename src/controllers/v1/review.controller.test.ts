@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { products } from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import { resetDb } from "../../test/db.js";
+import { api } from "../../test/http.js";
+import { createUser } from "../../test/fixtures.js";
+
+vi.mock("../../db/index.js", () => import("../../test/db.js"));
+
+const storedRating = async () => {
+  const product = await db.select().from(products);
+  return { rating: product[0]!.rating, reviewCount: product[0]!.reviewCount };
+};
+
+describe("product rating", () => {
+  let productId: number;
+
+  beforeEach(async () => {
+    await resetDb();
+    const created = await db
+      .insert(products)
+      .values({ name: "Kente scarf", description: "Handwoven", price: "80.00", category: "Fashion" })
+      .returning();
+    productId = created[0]!.id;
+  });
+
+  it("counts every review when several are posted at once", async () => {
+    const customers = await Promise.all([1, 2, 3, 4].map(() => createUser()));
+
+    const responses = await Promise.all(
+      customers.map(({ token }, index) =>
+        api("POST", "/reviews", { token, body: { productId, rating: index + 2 } })
+      )
+    );
+
+    expect(responses.map(({ status }) => status)).toEqual([201, 201, 201, 201]);
+    expect(await storedRating()).toEqual({ rating: "3.5", reviewCount: 4 });
+  });
+
+  it("follows edits and deletions", async () => {
+    const [first, second] = await Promise.all([createUser(), createUser()]);
+    const review = await api("POST", "/reviews", { token: first.token, body: { productId, rating: 5 } });
+    await api("POST", "/reviews", { token: second.token, body: { productId, rating: 4 } });
+    expect(await storedRating()).toEqual({ rating: "4.5", reviewCount: 2 });
+
+    const reviewId = review.body.data.id;
+    await api("PATCH", `/reviews/${reviewId}`, { token: first.token, body: { rating: 2 } });
+    expect(await storedRating()).toEqual({ rating: "3.0", reviewCount: 2 });
+
+    await api("DELETE", `/reviews/${reviewId}`, { token: first.token });
+    expect(await storedRating()).toEqual({ rating: "4.0", reviewCount: 1 });
+  });
+});
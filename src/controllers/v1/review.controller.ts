@@ -0,0 +1,275 @@
+import type { Request, Response } from "express";
+import {
+  reviews,
+  products,
+  users,
+  orders,
+  orderItems,
+} from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import type { DbExecutor } from "../../db/index.js";
+import type { AuthRequest } from "../../middleware/auth.middleware.js";
+import { eq, and, asc, desc, avg, count } from "drizzle-orm";
+import {
+  parsePagination,
+  buildPaginationMeta,
+} from "../../utils/pagination.js";
+import type {
+  CreateReviewBody,
+  UpdateReviewBody,
+} from "../../schemas/v1/review.schema.js";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "../../utils/errors.js";
+
+// Set REVIEWS_REQUIRE_PURCHASE=true to only accept reviews from verified buyers
+const requirePurchase = () => process.env.REVIEWS_REQUIRE_PURCHASE === "true";
+
+// Recalculate products.rating and products.reviewCount from the reviews table
+// Call in the transaction that changed the review; the product row is locked first so
+// concurrent review changes recalculate one after another, each seeing the other's review
+const recalculateProductRating = async (
+  executor: DbExecutor,
+  productId: number
+) => {
+  await executor
+    .select({ id: products.id })
+    .from(products)
+    .where(eq(products.id, productId))
+    .for("update");
+
+  const stats = await executor
+    .select({ average: avg(reviews.rating), total: count() })
+    .from(reviews)
+    .where(eq(reviews.productId, productId));
+
+  const average = stats[0]?.average ? parseFloat(stats[0].average) : 0;
+
+  await executor
+    .update(products)
+    .set({
+      rating: average.toFixed(1),
+      reviewCount: stats[0]?.total ?? 0,
+      updatedAt: new Date(),
+    })
+    .where(eq(products.id, productId));
+};
+
+// Whether the user has a delivered order containing the product
+const hasPurchasedProduct = async (userId: number, productId: number) => {
+  const deliveredItem = await db
+    .select({ id: orderItems.id })
+    .from(orderItems)
+    .innerJoin(orders, eq(orderItems.orderId, orders.id))
+    .where(
+      and(
+        eq(orders.userId, userId),
+        eq(orders.status, "delivered"),
+        eq(orderItems.productId, productId)
+      )
+    )
+    .limit(1);
+
+  return deliveredItem.length > 0;
+};
+
+// GET /api/v1/reviews/product/:productId - List reviews for a product
+// Purpose: Paginated reviews plus average and rating distribution (?sort=newest|highest|lowest)
+
+export const getProductReviews = async (req: Request, res: Response) => {
+  const productId = parseInt(req.params.productId ?? "");
+
+  if (isNaN(productId)) {
+    throw new ValidationError("Invalid product ID");
+  }
+
+  const { page, limit, offset } = parsePagination(req.query, {
+    defaultLimit: 10,
+    maxLimit: 50,
+  });
+
+  const sortOptions = {
+    newest: [desc(reviews.createdAt)],
+    highest: [desc(reviews.rating), desc(reviews.createdAt)],
+    lowest: [asc(reviews.rating), desc(reviews.createdAt)],
+  };
+  const sortKey = (req.query.sort as string) || "newest";
+  const orderBy =
+    sortOptions[sortKey as keyof typeof sortOptions] ?? sortOptions.newest;
+
+  const productReviews = await db
+    .select({
+      id: reviews.id,
+      productId: reviews.productId,
+      userId: reviews.userId,
+      userName: users.name,
+      rating: reviews.rating,
+      comment: reviews.comment,
+      createdAt: reviews.createdAt,
+      updatedAt: reviews.updatedAt,
+    })
+    .from(reviews)
+    .leftJoin(users, eq(reviews.userId, users.id))
+    .where(eq(reviews.productId, productId))
+    .orderBy(...orderBy)
+    .limit(limit)
+    .offset(offset);
+
+  const distributionRows = await db
+    .select({ rating: reviews.rating, total: count() })
+    .from(reviews)
+    .where(eq(reviews.productId, productId))
+    .groupBy(reviews.rating);
+
+  const distribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  let totalReviews = 0;
+  let ratingSum = 0;
+  for (const row of distributionRows) {
+    distribution[row.rating] = row.total;
+    totalReviews += row.total;
+    ratingSum += row.rating * row.total;
+  }
+
+  res.json({
+    success: true,
+    count: productReviews.length,
+    data: productReviews,
+    summary: {
+      averageRating: totalReviews
+        ? parseFloat((ratingSum / totalReviews).toFixed(1))
+        : 0,
+      reviewCount: totalReviews,
+      distribution,
+    },
+    pagination: buildPaginationMeta(page, limit, totalReviews),
+  });
+};
+
+// POST /api/v1/reviews - Create a review
+// Purpose: One review per user per product; updates the product's stored rating
+
+export const createReview = async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { productId: productIdNum, rating, comment } = req.body as CreateReviewBody;
+
+  const product = await db
+    .select({ id: products.id })
+    .from(products)
+    .where(eq(products.id, productIdNum))
+    .limit(1);
+
+  if (!product.length) {
+    throw new NotFoundError("Product not found");
+  }
+
+  const existingReview = await db
+    .select({ id: reviews.id })
+    .from(reviews)
+    .where(and(eq(reviews.productId, productIdNum), eq(reviews.userId, userId)))
+    .limit(1);
+
+  if (existingReview.length) {
+    throw new ConflictError("You have already reviewed this product");
+  }
+
+  if (requirePurchase() && !(await hasPurchasedProduct(userId, productIdNum))) {
+    throw new ForbiddenError("Only customers who received this product can review it");
+  }
+
+  const newReview = await db.transaction(async (tx) => {
+    const inserted = await tx
+      .insert(reviews)
+      .values({
+        productId: productIdNum,
+        userId,
+        rating,
+        comment: comment || null,
+      })
+      .returning();
+
+    await recalculateProductRating(tx, productIdNum);
+
+    return inserted[0];
+  });
+
+  res.status(201).json({
+    success: true,
+    message: "Review created successfully",
+    data: newReview,
+  });
+};
+
+// PATCH /api/v1/reviews/:id - Edit a review
+
+export const updateReview = async (req: AuthRequest, res: Response) => {
+  const reviewId = parseInt(req.params.id ?? "");
+
+  if (isNaN(reviewId)) {
+    throw new ValidationError("Invalid review ID");
+  }
+
+  const { rating, comment } = req.body as UpdateReviewBody;
+
+  const updates: Partial<typeof reviews.$inferInsert> = {};
+  if (rating !== undefined) updates.rating = rating;
+  if (comment !== undefined) updates.comment = comment || null;
+
+  const updatedReview = await db.transaction(async (tx) => {
+    const updated = await tx
+      .update(reviews)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(reviews.id, reviewId))
+      .returning();
+
+    if (updated[0] && rating !== undefined) {
+      await recalculateProductRating(tx, updated[0].productId);
+    }
+
+    return updated[0];
+  });
+
+  if (!updatedReview) {
+    throw new NotFoundError("Review not found");
+  }
+
+  res.json({
+    success: true,
+    message: "Review updated successfully",
+    data: updatedReview,
+  });
+};
+
+// DELETE /api/v1/reviews/:id - Delete a review
+
+export const deleteReview = async (req: AuthRequest, res: Response) => {
+  const reviewId = parseInt(req.params.id ?? "");
+
+  if (isNaN(reviewId)) {
+    throw new ValidationError("Invalid review ID");
+  }
+
+  const deleted = await db.transaction(async (tx) => {
+    const removed = await tx
+      .delete(reviews)
+      .where(eq(reviews.id, reviewId))
+      .returning();
+
+    if (removed[0]) {
+      await recalculateProductRating(tx, removed[0].productId);
+    }
+
+    return removed;
+  });
+
+  if (!deleted.length) {
+    throw new NotFoundError("Review not found");
+  }
+
+  res.json({
+    success: true,
+    message: "Review deleted successfully",
+  });
+};
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { resetDb } from "../../test/db.js";
+import { api } from "../../test/http.js";
+import { TEST_PASSWORD, createUser } from "../../test/fixtures.js";
+
+vi.mock("../../db/index.js", () => import("../../test/db.js"));
+
+const application = {
+  businessName: "Ama's Kente",
+  ghanaCardNumber: "GHA-123456789-0",
+  payoutMomoNumber: "0241234567",
+  payoutMomoProvider: "mtn_momo",
+};
+
+describe("seller applications", () => {
+  let token: string;
+
+  beforeEach(async () => {
+    await resetDb();
+    ({ token } = await createUser());
+  });
+
+  it("accepts one application per user", async () => {
+    const first = await api("POST", "/sellers/apply", { token, body: application });
+    expect(first.status).toBe(201);
+    expect(first.body.data).toMatchObject({ slug: "ama-s-kente", status: "pending" });
+
+    const again = await api("POST", "/sellers/apply", { token, body: application });
+    expect(again.status).toBe(409);
+    expect(again.body.message).toBe("Your seller application is already under review");
+  });
+
+  it("gives a second store with the same name its own slug", async () => {
+    const other = await createUser();
+    await api("POST", "/sellers/apply", { token, body: application });
+
+    const response = await api("POST", "/sellers/apply", { token: other.token, body: application });
+    expect(response.status).toBe(201);
+    expect(response.body.data.slug).toBe(`ama-s-kente-${other.id}`);
+  });
+
+  it.each([
+    { name: "without a password", password: undefined, status: 400 },
+    { name: "with the wrong password", password: "wrong-password", status: 401 },
+    { name: "with the password", password: TEST_PASSWORD, status: 200 },
+  ])("changes payout details only $name", async ({ password, status }) => {
+    await api("POST", "/sellers/apply", { token, body: application });
+
+    const response = await api("PATCH", "/sellers/me", {
+      token,
+      body: { payoutMomoNumber: "0201234567", ...(password ? { password } : {}) },
+    });
+    expect(response.status).toBe(status);
+  });
+});
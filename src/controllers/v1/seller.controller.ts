@@ -0,0 +1,543 @@
+import type { Request, Response } from "express";
+import {
+  sellerProfiles,
+  users,
+  products,
+  orders,
+  orderItems,
+  orderFulfilments,
+  ledgerEntries,
+} from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import type { AuthRequest } from "../../middleware/auth.middleware.js";
+import { eq, and, desc, count, sql, gte, lte, ne, inArray } from "drizzle-orm";
+import {
+  LEDGER_ACCOUNTS,
+  getSellerBalance,
+} from "../../services/ledger.service.js";
+import { toPesewas, formatPesewas } from "../../utils/money.js";
+import { slugify } from "../../utils/slugify.js";
+import {
+  parsePagination,
+  buildPaginationMeta,
+} from "../../utils/pagination.js";
+import type {
+  ApplyAsSellerBody,
+  UpdateSellerProfileBody,
+  RejectApplicationBody,
+} from "../../schemas/v1/seller.schema.js";
+import { verifyPassword } from "../../utils/password.js";
+import {
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from "../../utils/errors.js";
+
+// Fields shown on the public store page; ID numbers and payout details stay private
+const publicStoreFields = {
+  id: sellerProfiles.id,
+  businessName: sellerProfiles.businessName,
+  slug: sellerProfiles.slug,
+  description: sellerProfiles.description,
+  createdAt: sellerProfiles.createdAt,
+};
+
+// Pick a unique store slug, falling back to a user-specific suffix
+const storeSlugFor = async (businessName: string, userId: number) => {
+  const slug = slugify(businessName) || "store";
+  const existing = await db
+    .select({ userId: sellerProfiles.userId })
+    .from(sellerProfiles)
+    .where(eq(sellerProfiles.slug, slug))
+    .limit(1);
+
+  return existing.length && existing[0]?.userId !== userId
+    ? `${slug}-${userId}`
+    : slug;
+};
+
+// POST /api/v1/sellers/apply - Apply to sell on the marketplace
+// Purpose: Customers submit business and payout details; an admin approves the application
+
+export const applyAsSeller = async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const {
+    businessName,
+    description,
+    ghanaCardNumber,
+    businessRegistrationNumber,
+    payoutMomoNumber,
+    payoutMomoProvider,
+  } = req.body as ApplyAsSellerBody;
+
+  const existing = await db
+    .select()
+    .from(sellerProfiles)
+    .where(eq(sellerProfiles.userId, userId))
+    .limit(1);
+
+  // Rejected applicants may apply again with corrected details
+  if (existing[0] && existing[0].status !== "rejected") {
+    throw new ConflictError(
+      existing[0].status === "approved" ? "You are already an approved seller" : "Your seller application is already under review"
+    );
+  }
+
+  const application = {
+    businessName,
+    slug: await storeSlugFor(businessName, userId),
+    description: description || null,
+    ghanaCardNumber: ghanaCardNumber ?? null,
+    businessRegistrationNumber: businessRegistrationNumber ?? null,
+    payoutMomoNumber,
+    payoutMomoProvider,
+    status: "pending",
+    rejectionReason: null,
+    reviewedBy: null,
+    reviewedAt: null,
+    updatedAt: new Date(),
+  };
+
+  const saved = existing[0]
+    ? await db
+        .update(sellerProfiles)
+        .set(application)
+        .where(eq(sellerProfiles.id, existing[0].id))
+        .returning()
+    : await db
+        .insert(sellerProfiles)
+        .values({ ...application, userId })
+        .returning();
+
+  res.status(201).json({
+    success: true,
+    message: "Seller application submitted for review",
+    data: saved[0],
+  });
+};
+
+// GET /api/v1/sellers/me - Get the logged-in user's seller profile or application
+
+export const getMySellerProfile = async (req: AuthRequest, res: Response) => {
+  const profile = await db
+    .select()
+    .from(sellerProfiles)
+    .where(eq(sellerProfiles.userId, req.user!.id))
+    .limit(1);
+
+  if (!profile.length) {
+    throw new NotFoundError("You have not applied to become a seller");
+  }
+
+  res.json({
+    success: true,
+    data: profile[0],
+  });
+};
+
+// PATCH /api/v1/sellers/me - Update store details and payout number
+// Identity numbers are fixed once approved; the store slug never changes
+// Payout details can only be changed with the account password
+
+export const updateMySellerProfile = async (req: AuthRequest, res: Response) => {
+  const { businessName, description, payoutMomoNumber, payoutMomoProvider, password } =
+    req.body as UpdateSellerProfileBody;
+
+  const profile = await db
+    .select()
+    .from(sellerProfiles)
+    .where(eq(sellerProfiles.userId, req.user!.id))
+    .limit(1);
+
+  if (!profile.length || !profile[0]) {
+    throw new NotFoundError("You have not applied to become a seller");
+  }
+
+  const updates: Partial<typeof sellerProfiles.$inferInsert> = {
+    updatedAt: new Date(),
+  };
+
+  if (businessName !== undefined) updates.businessName = businessName;
+
+  if (description !== undefined) updates.description = description || null;
+
+  if (payoutMomoNumber !== undefined || payoutMomoProvider !== undefined) {
+    const user = await db
+      .select({ password: users.password })
+      .from(users)
+      .where(eq(users.id, req.user!.id))
+      .limit(1);
+
+    if (!user[0] || !(await verifyPassword(String(password), user[0].password))) {
+      throw new UnauthorizedError("Password is incorrect");
+    }
+
+    if (payoutMomoNumber !== undefined) updates.payoutMomoNumber = payoutMomoNumber;
+    if (payoutMomoProvider !== undefined) updates.payoutMomoProvider = payoutMomoProvider;
+  }
+
+  const updated = await db
+    .update(sellerProfiles)
+    .set(updates)
+    .where(eq(sellerProfiles.id, profile[0].id))
+    .returning();
+
+  res.json({
+    success: true,
+    message: "Seller profile updated successfully",
+    data: updated[0],
+  });
+};
+
+// GET /api/v1/sellers/me/products - List the seller's own products
+// Purpose: Seller dashboard; supports ?page=&limit=
+
+export const getMySellerProducts = async (req: AuthRequest, res: Response) => {
+  const { page, limit, offset } = parsePagination(req.query);
+  const condition = eq(products.sellerId, req.user!.id);
+
+  const [sellerProducts, total] = await Promise.all([
+    db
+      .select()
+      .from(products)
+      .where(condition)
+      .orderBy(desc(products.createdAt), desc(products.id))
+      .limit(limit)
+      .offset(offset),
+    db.select({ total: count() }).from(products).where(condition),
+  ]);
+
+  res.json({
+    success: true,
+    count: sellerProducts.length,
+    data: sellerProducts,
+    pagination: buildPaginationMeta(page, limit, total[0]?.total ?? 0),
+  });
+};
+
+// GET /api/v1/sellers/me/order-items - Order items for the seller's products
+// Purpose: Seller dashboard; filter with ?status=<fulfilment status>, supports ?page=&limit=
+
+export const getMySellerOrderItems = async (req: AuthRequest, res: Response) => {
+  const { page, limit, offset } = parsePagination(req.query);
+  const { status } = req.query;
+
+  const condition = and(
+    eq(products.sellerId, req.user!.id),
+    status ? eq(orderFulfilments.status, String(status)) : undefined
+  );
+
+  const [items, total] = await Promise.all([
+    db
+      .select({
+        id: orderItems.id,
+        orderId: orders.id,
+        orderNumber: orders.orderNumber,
+        orderStatus: orders.status,
+        fulfilmentId: orderFulfilments.id,
+        fulfilmentStatus: orderFulfilments.status,
+        paymentStatus: orders.paymentStatus,
+        productId: products.id,
+        productName: products.name,
+        size: orderItems.size,
+        quantity: orderItems.quantity,
+        price: orderItems.price,
+        lineTotal: sql<string>`(${orderItems.price} * ${orderItems.quantity})::numeric(10, 2)`,
+        shippingAddress: orders.shippingAddress,
+        orderedAt: orders.createdAt,
+      })
+      .from(orderItems)
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .leftJoin(
+        orderFulfilments,
+        eq(orderItems.fulfilmentId, orderFulfilments.id)
+      )
+      .where(condition)
+      .orderBy(desc(orders.createdAt), desc(orderItems.id))
+      .limit(limit)
+      .offset(offset),
+    db
+      .select({ total: count() })
+      .from(orderItems)
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .leftJoin(
+        orderFulfilments,
+        eq(orderItems.fulfilmentId, orderFulfilments.id)
+      )
+      .where(condition),
+  ]);
+
+  res.json({
+    success: true,
+    count: items.length,
+    data: items,
+    pagination: buildPaginationMeta(page, limit, total[0]?.total ?? 0),
+  });
+};
+
+// GET /api/v1/sellers/applications - List seller applications (Admin only)
+// Purpose: Review queue; filter with ?status=pending|approved|rejected
+
+export const getSellerApplications = async (req: AuthRequest, res: Response) => {
+  const { status } = req.query;
+
+  const applications = await db
+    .select({
+      application: sellerProfiles,
+      applicant: { name: users.name, email: users.email, phone: users.phone },
+    })
+    .from(sellerProfiles)
+    .innerJoin(users, eq(sellerProfiles.userId, users.id))
+    .where(status ? eq(sellerProfiles.status, String(status)) : undefined)
+    .orderBy(desc(sellerProfiles.createdAt));
+
+  res.json({
+    success: true,
+    count: applications.length,
+    data: applications.map(({ application, applicant }) => ({
+      ...application,
+      applicant,
+    })),
+  });
+};
+
+// POST /api/v1/sellers/applications/:id/approve - Approve a seller (Admin only)
+// Purpose: Marks the application approved and gives the applicant the seller role
+// The new role applies once the applicant's access token is refreshed
+
+export const approveSellerApplication = async (
+  req: AuthRequest,
+  res: Response
+) => {
+  const applicationId = parseInt(req.params.id ?? "");
+
+  if (isNaN(applicationId)) {
+    throw new ValidationError("Invalid application ID");
+  }
+
+  const approved = await db.transaction(async (tx) => {
+    const updated = await tx
+      .update(sellerProfiles)
+      .set({
+        status: "approved",
+        rejectionReason: null,
+        reviewedBy: req.user!.id,
+        reviewedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(sellerProfiles.id, applicationId),
+          eq(sellerProfiles.status, "pending")
+        )
+      )
+      .returning();
+
+    if (!updated[0]) return undefined;
+
+    // Admins keep their role if they also run a store
+    await tx
+      .update(users)
+      .set({ role: "seller", updatedAt: new Date() })
+      .where(
+        and(eq(users.id, updated[0].userId), eq(users.role, "customer"))
+      );
+
+    return updated[0];
+  });
+
+  if (!approved) {
+    throw new NotFoundError("Pending application not found");
+  }
+
+  res.json({
+    success: true,
+    message: "Seller application approved",
+    data: approved,
+  });
+};
+
+// POST /api/v1/sellers/applications/:id/reject - Reject a seller (Admin only)
+
+export const rejectSellerApplication = async (
+  req: AuthRequest,
+  res: Response
+) => {
+  const applicationId = parseInt(req.params.id ?? "");
+  const { reason } = req.body as RejectApplicationBody;
+
+  if (isNaN(applicationId)) {
+    throw new ValidationError("Invalid application ID");
+  }
+
+  const rejected = await db
+    .update(sellerProfiles)
+    .set({
+      status: "rejected",
+      rejectionReason: reason,
+      reviewedBy: req.user!.id,
+      reviewedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(sellerProfiles.id, applicationId),
+        eq(sellerProfiles.status, "pending")
+      )
+    )
+    .returning();
+
+  if (!rejected.length) {
+    throw new NotFoundError("Pending application not found");
+  }
+
+  res.json({
+    success: true,
+    message: "Seller application rejected",
+    data: rejected[0],
+  });
+};
+
+// GET /api/v1/sellers/:slug - Public store profile
+// Purpose: Store page with the seller's products; supports ?page=&limit=
+
+export const getStore = async (req: Request, res: Response) => {
+  const store = await db
+    .select({ ...publicStoreFields, userId: sellerProfiles.userId })
+    .from(sellerProfiles)
+    .where(
+      and(
+        eq(sellerProfiles.slug, req.params.slug ?? ""),
+        eq(sellerProfiles.status, "approved")
+      )
+    )
+    .limit(1);
+
+  if (!store.length || !store[0]) {
+    throw new NotFoundError("Store not found");
+  }
+
+  const { userId, ...storeProfile } = store[0];
+  const { page, limit, offset } = parsePagination(req.query);
+  const condition = eq(products.sellerId, userId);
+
+  const [storeProducts, total] = await Promise.all([
+    db
+      .select()
+      .from(products)
+      .where(condition)
+      .orderBy(desc(products.createdAt), desc(products.id))
+      .limit(limit)
+      .offset(offset),
+    db.select({ total: count() }).from(products).where(condition),
+  ]);
+
+  res.json({
+    success: true,
+    data: {
+      ...storeProfile,
+      productCount: total[0]?.total ?? 0,
+      products: storeProducts,
+    },
+    pagination: buildPaginationMeta(page, limit, total[0]?.total ?? 0),
+  });
+};
+
+// GET /api/v1/sellers/me/balance - Seller balance and earnings totals
+// Purpose: Available balance is what the next payout batch will pay
+
+export const getMySellerBalance = async (req: AuthRequest, res: Response) => {
+  res.json({
+    success: true,
+    data: await getSellerBalance(db, req.user!.id),
+  });
+};
+
+// GET /api/v1/sellers/me/statement - Seller account statement
+// Purpose: Sales (gross, commission, net), payouts and seller-funded free shipping, newest first
+// Filter with ?from=&to= (ISO dates), supports ?page=&limit=
+
+export const getMySellerStatement = async (req: AuthRequest, res: Response) => {
+  const { page, limit, offset } = parsePagination(req.query);
+  const { from, to } = req.query;
+
+  const fromDate = from ? new Date(String(from)) : null;
+  const toDate = to ? new Date(String(to)) : null;
+
+  const condition = and(
+    eq(ledgerEntries.sellerId, req.user!.id),
+    eq(ledgerEntries.account, LEDGER_ACCOUNTS.sellerPayable),
+    fromDate ? gte(ledgerEntries.createdAt, fromDate) : undefined,
+    toDate ? lte(ledgerEntries.createdAt, toDate) : undefined
+  );
+
+  const [entries, total] = await Promise.all([
+    db
+      .select({
+        id: ledgerEntries.id,
+        entryGroup: ledgerEntries.entryGroup,
+        type: ledgerEntries.entryType,
+        debit: ledgerEntries.debit,
+        credit: ledgerEntries.credit,
+        memo: ledgerEntries.memo,
+        payoutId: ledgerEntries.payoutId,
+        orderItemId: ledgerEntries.orderItemId,
+        orderNumber: orders.orderNumber,
+        productName: products.name,
+        createdAt: ledgerEntries.createdAt,
+      })
+      .from(ledgerEntries)
+      .leftJoin(orderItems, eq(ledgerEntries.orderItemId, orderItems.id))
+      .leftJoin(orders, eq(orderItems.orderId, orders.id))
+      .leftJoin(products, eq(orderItems.productId, products.id))
+      .where(condition)
+      .orderBy(desc(ledgerEntries.createdAt), desc(ledgerEntries.id))
+      .limit(limit)
+      .offset(offset),
+    db.select({ total: count() }).from(ledgerEntries).where(condition),
+  ]);
+
+  // Gross and commission are the other side of each sale posting
+  const saleGroups = entries
+    .filter((entry) => entry.type === "sale")
+    .map((entry) => entry.entryGroup);
+  const saleSides = saleGroups.length
+    ? await db
+        .select()
+        .from(ledgerEntries)
+        .where(
+          and(
+            inArray(ledgerEntries.entryGroup, saleGroups),
+            ne(ledgerEntries.account, LEDGER_ACCOUNTS.sellerPayable)
+          )
+        )
+    : [];
+
+  const data = entries.map(({ entryGroup, ...entry }) => {
+    if (entry.type !== "sale") return entry;
+
+    const sides = saleSides.filter((side) => side.entryGroup === entryGroup);
+    const commission = sides.find(
+      (side) => side.account === LEDGER_ACCOUNTS.commissionRevenue
+    );
+    // Gross is what commission was charged on: the customer's payment plus
+    // any discount the marketplace covered
+    const gross = sides.reduce((sum, side) => sum + toPesewas(side.debit), 0);
+    return {
+      ...entry,
+      gross: formatPesewas(gross),
+      commission: commission?.credit,
+      commissionRate: commission?.commissionRate,
+    };
+  });
+
+  res.json({
+    success: true,
+    count: data.length,
+    data,
+    pagination: buildPaginationMeta(page, limit, total[0]?.total ?? 0),
+  });
+};
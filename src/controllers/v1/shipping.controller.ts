@@ -0,0 +1,447 @@
+import type { Request, Response } from "express";
+import { deliveryZones, pickupPoints, orders } from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import type { AuthRequest } from "../../middleware/auth.middleware.js";
+import { eq, and, asc } from "drizzle-orm";
+import {
+  findOverlappingZones,
+  findZoneForRegion,
+  quoteShipping,
+  shippingQuoteResponse,
+  ShippingError,
+} from "../../services/shipping.service.js";
+import {
+  validateCartLines,
+  findSavedAddress,
+} from "../../services/checkout.service.js";
+import { isUniqueViolation } from "../../utils/dbErrors.js";
+import type {
+  CreateZoneBody,
+  UpdateZoneBody,
+  CreatePickupPointBody,
+  UpdatePickupPointBody,
+  ShippingQuoteBody,
+} from "../../schemas/v1/shipping.schema.js";
+import { ConflictError, NotFoundError, ValidationError } from "../../utils/errors.js";
+
+type ZoneInsert = typeof deliveryZones.$inferInsert;
+type PickupPointInsert = typeof pickupPoints.$inferInsert;
+
+const deliveryWindowError = (
+  values: { etaMinDays?: number | undefined; etaMaxDays?: number | undefined },
+  existing?: { etaMinDays: number; etaMaxDays: number }
+) => {
+  const etaMinDays = values.etaMinDays ?? existing?.etaMinDays ?? 0;
+  const etaMaxDays = values.etaMaxDays ?? existing?.etaMaxDays ?? 0;
+  return etaMaxDays < etaMinDays
+    ? "etaMaxDays must not be less than etaMinDays"
+    : undefined;
+};
+
+// Turn checked delivery zone fields into column values; existing is the stored zone
+// when updating. Returns the values to save, or an error message
+const parseZoneFields = (
+  body: UpdateZoneBody,
+  existing?: typeof deliveryZones.$inferSelect
+): { values: Partial<ZoneInsert>; error?: never } | { error: string } => {
+  const values: Partial<ZoneInsert> = {};
+
+  if (body.name !== undefined) values.name = body.name;
+  if (body.regions !== undefined) values.regions = body.regions;
+  if (body.rateType !== undefined) values.rateType = body.rateType;
+  if (body.baseFee !== undefined) values.baseFee = body.baseFee.toFixed(2);
+  if (body.perUnitFee !== undefined) values.perUnitFee = body.perUnitFee.toFixed(2);
+  if (body.includedUnits !== undefined) values.includedUnits = body.includedUnits;
+  if (body.etaMinDays !== undefined) values.etaMinDays = body.etaMinDays;
+  if (body.etaMaxDays !== undefined) values.etaMaxDays = body.etaMaxDays;
+  if (body.isActive !== undefined) values.isActive = body.isActive;
+
+  const error = deliveryWindowError(body, existing);
+  return error ? { error } : { values };
+};
+
+// An active zone may only serve regions no other active zone serves
+const checkRegionsFree = async (regions: string[], exceptZoneId?: number) => {
+  const overlaps = await findOverlappingZones(db, regions, exceptZoneId);
+
+  if (overlaps.length) {
+    throw new ConflictError("Some regions are already served by another active zone", {
+      code: "REGION_ALREADY_COVERED",
+      data: { overlaps },
+    });
+  }
+};
+
+// Turn checked pickup point fields into column values; existing is the stored point
+// when updating. Returns the values to save, or an error message
+const parsePickupPointFields = async (
+  body: UpdatePickupPointBody,
+  existing?: typeof pickupPoints.$inferSelect
+): Promise<
+  { values: Partial<PickupPointInsert>; error?: never } | { error: string }
+> => {
+  const values: Partial<PickupPointInsert> = {};
+
+  if (body.name !== undefined) values.name = body.name;
+  if (body.address !== undefined) values.address = body.address;
+  if (body.city !== undefined) values.city = body.city;
+  if (body.openingHours !== undefined) values.openingHours = body.openingHours || null;
+  if (body.fee !== undefined) values.fee = body.fee.toFixed(2);
+  if (body.etaMinDays !== undefined) values.etaMinDays = body.etaMinDays;
+  if (body.etaMaxDays !== undefined) values.etaMaxDays = body.etaMaxDays;
+  if (body.isActive !== undefined) values.isActive = body.isActive;
+
+  if (body.zoneId !== undefined) {
+    const zone = await db
+      .select({ id: deliveryZones.id })
+      .from(deliveryZones)
+      .where(eq(deliveryZones.id, body.zoneId))
+      .limit(1);
+    if (!zone.length) return { error: "Delivery zone not found" };
+    values.zoneId = body.zoneId;
+  }
+
+  const error = deliveryWindowError(body, existing);
+  return error ? { error } : { values };
+};
+
+// GET /api/v1/shipping/zones - List delivery zones
+// Purpose: Regions served, rates and delivery windows. Admins can pass ?all=true
+// to include inactive zones
+
+export const getDeliveryZones = async (req: AuthRequest, res: Response) => {
+  const includeInactive = req.user?.role === "admin" && req.query.all === "true";
+
+  const zones = await db
+    .select()
+    .from(deliveryZones)
+    .where(includeInactive ? undefined : eq(deliveryZones.isActive, true))
+    .orderBy(asc(deliveryZones.baseFee));
+
+  res.json({
+    success: true,
+    count: zones.length,
+    data: zones,
+  });
+};
+
+// POST /api/v1/shipping/zones - Create a delivery zone (admin)
+
+export const createDeliveryZone = async (req: AuthRequest, res: Response) => {
+  try {
+    const body = req.body as CreateZoneBody;
+    const parsed = parseZoneFields(body);
+    if (parsed.error !== undefined) {
+      throw new ValidationError(parsed.error);
+    }
+
+    if (body.isActive !== false) {
+      await checkRegionsFree(body.regions);
+    }
+
+    const newZone = await db
+      .insert(deliveryZones)
+      .values({
+        ...parsed.values,
+        name: body.name,
+        regions: body.regions,
+        baseFee: body.baseFee.toFixed(2),
+        etaMinDays: body.etaMinDays,
+        etaMaxDays: body.etaMaxDays,
+      })
+      .returning();
+
+    res.status(201).json({
+      success: true,
+      message: "Delivery zone created successfully",
+      data: newZone[0],
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ConflictError("A delivery zone with this name already exists");
+    }
+    throw error;
+  }
+};
+
+// PATCH /api/v1/shipping/zones/:id - Update a delivery zone (admin)
+// New rates apply to later quotes; placed orders keep the fee they were charged
+
+export const updateDeliveryZone = async (req: AuthRequest, res: Response) => {
+  try {
+    const zoneId = parseInt(req.params.id ?? "");
+
+    if (isNaN(zoneId)) {
+      throw new ValidationError("Invalid zone ID");
+    }
+
+    const existing = await db
+      .select()
+      .from(deliveryZones)
+      .where(eq(deliveryZones.id, zoneId))
+      .limit(1);
+
+    if (!existing.length || !existing[0]) {
+      throw new NotFoundError("Delivery zone not found");
+    }
+
+    const parsed = parseZoneFields(req.body as UpdateZoneBody, existing[0]);
+    if (parsed.error !== undefined) {
+      throw new ValidationError(parsed.error);
+    }
+
+    if (parsed.values.isActive ?? existing[0].isActive) {
+      await checkRegionsFree(parsed.values.regions ?? existing[0].regions, zoneId);
+    }
+
+    const updated = await db
+      .update(deliveryZones)
+      .set({ ...parsed.values, updatedAt: new Date() })
+      .where(eq(deliveryZones.id, zoneId))
+      .returning();
+
+    res.json({
+      success: true,
+      message: "Delivery zone updated successfully",
+      data: updated[0],
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ConflictError("A delivery zone with this name already exists");
+    }
+    throw error;
+  }
+};
+
+// DELETE /api/v1/shipping/zones/:id - Delete a delivery zone (admin)
+// Zones that orders were shipped with are deactivated instead, so orders keep their history
+
+export const deleteDeliveryZone = async (req: AuthRequest, res: Response) => {
+  const zoneId = parseInt(req.params.id ?? "");
+
+  if (isNaN(zoneId)) {
+    throw new ValidationError("Invalid zone ID");
+  }
+
+  const existing = await db
+    .select({ id: deliveryZones.id })
+    .from(deliveryZones)
+    .where(eq(deliveryZones.id, zoneId))
+    .limit(1);
+
+  if (!existing.length) {
+    throw new NotFoundError("Delivery zone not found");
+  }
+
+  const used = await db
+    .select({ id: orders.id })
+    .from(orders)
+    .where(eq(orders.deliveryZoneId, zoneId))
+    .limit(1);
+
+  if (used.length) {
+    await db
+      .update(deliveryZones)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(deliveryZones.id, zoneId));
+
+    return res.json({
+      success: true,
+      message: "Delivery zone has orders, so it was deactivated instead",
+    });
+  }
+
+  await db.delete(deliveryZones).where(eq(deliveryZones.id, zoneId));
+
+  res.json({
+    success: true,
+    message: "Delivery zone deleted successfully",
+  });
+};
+
+// GET /api/v1/shipping/pickup-points - List pickup points
+// Purpose: Active pickup points, optionally for one ?region= or ?zoneId=
+
+export const getPickupPoints = async (req: Request, res: Response) => {
+  let zoneId = req.query.zoneId ? parseInt(String(req.query.zoneId)) : undefined;
+
+  if (req.query.region) {
+    const zone = await findZoneForRegion(db, String(req.query.region));
+    if (!zone) {
+      return res.json({ success: true, count: 0, data: [] });
+    }
+    zoneId = zone.id;
+  }
+
+  const points = await db
+    .select({
+      pickupPoint: pickupPoints,
+      zoneName: deliveryZones.name,
+    })
+    .from(pickupPoints)
+    .innerJoin(deliveryZones, eq(pickupPoints.zoneId, deliveryZones.id))
+    .where(
+      and(
+        eq(pickupPoints.isActive, true),
+        eq(deliveryZones.isActive, true),
+        zoneId !== undefined ? eq(pickupPoints.zoneId, zoneId)
+          : undefined
+      )
+    )
+    .orderBy(asc(pickupPoints.city), asc(pickupPoints.name));
+
+  res.json({
+    success: true,
+    count: points.length,
+    data: points.map(({ pickupPoint, zoneName }) => ({ ...pickupPoint, zoneName })),
+  });
+};
+
+// POST /api/v1/shipping/pickup-points - Create a pickup point (admin)
+
+export const createPickupPoint = async (req: AuthRequest, res: Response) => {
+  const body = req.body as CreatePickupPointBody;
+  const parsed = await parsePickupPointFields(body);
+  if (parsed.error !== undefined) {
+    throw new ValidationError(parsed.error);
+  }
+
+  const newPoint = await db
+    .insert(pickupPoints)
+    .values({
+      ...parsed.values,
+      zoneId: body.zoneId,
+      name: body.name,
+      address: body.address,
+      city: body.city,
+      etaMinDays: body.etaMinDays,
+      etaMaxDays: body.etaMaxDays,
+    })
+    .returning();
+
+  res.status(201).json({
+    success: true,
+    message: "Pickup point created successfully",
+    data: newPoint[0],
+  });
+};
+
+// PATCH /api/v1/shipping/pickup-points/:id - Update a pickup point (admin)
+
+export const updatePickupPoint = async (req: AuthRequest, res: Response) => {
+  const pickupPointId = parseInt(req.params.id ?? "");
+
+  if (isNaN(pickupPointId)) {
+    throw new ValidationError("Invalid pickup point ID");
+  }
+
+  const existing = await db
+    .select()
+    .from(pickupPoints)
+    .where(eq(pickupPoints.id, pickupPointId))
+    .limit(1);
+
+  if (!existing.length || !existing[0]) {
+    throw new NotFoundError("Pickup point not found");
+  }
+
+  const parsed = await parsePickupPointFields(
+    req.body as UpdatePickupPointBody,
+    existing[0]
+  );
+  if (parsed.error !== undefined) {
+    throw new ValidationError(parsed.error);
+  }
+
+  const updated = await db
+    .update(pickupPoints)
+    .set({ ...parsed.values, updatedAt: new Date() })
+    .where(eq(pickupPoints.id, pickupPointId))
+    .returning();
+
+  res.json({
+    success: true,
+    message: "Pickup point updated successfully",
+    data: updated[0],
+  });
+};
+
+// DELETE /api/v1/shipping/pickup-points/:id - Delete a pickup point (admin)
+// Pickup points with orders are deactivated instead, so orders keep their history
+
+export const deletePickupPoint = async (req: AuthRequest, res: Response) => {
+  const pickupPointId = parseInt(req.params.id ?? "");
+
+  if (isNaN(pickupPointId)) {
+    throw new ValidationError("Invalid pickup point ID");
+  }
+
+  const existing = await db
+    .select({ id: pickupPoints.id })
+    .from(pickupPoints)
+    .where(eq(pickupPoints.id, pickupPointId))
+    .limit(1);
+
+  if (!existing.length) {
+    throw new NotFoundError("Pickup point not found");
+  }
+
+  const used = await db
+    .select({ id: orders.id })
+    .from(orders)
+    .where(eq(orders.pickupPointId, pickupPointId))
+    .limit(1);
+
+  if (used.length) {
+    await db
+      .update(pickupPoints)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(pickupPoints.id, pickupPointId));
+
+    return res.json({
+      success: true,
+      message: "Pickup point has orders, so it was deactivated instead",
+    });
+  }
+
+  await db.delete(pickupPoints).where(eq(pickupPoints.id, pickupPointId));
+
+  res.json({
+    success: true,
+    message: "Pickup point deleted successfully",
+  });
+};
+
+// POST /api/v1/shipping/quote - Shipping fee and delivery window for a cart
+// Purpose: Body takes cartItems and either shippingAddress / addressId for delivery,
+// or deliveryMethod "pickup" with a pickupPointId
+
+export const getShippingQuote = async (req: AuthRequest, res: Response) => {
+  const { cartItems, addressId, deliveryMethod, pickupPointId } =
+    req.body as ShippingQuoteBody;
+  let { shippingAddress } = req.body as ShippingQuoteBody;
+
+  if (!shippingAddress && req.user) {
+    shippingAddress = await findSavedAddress(req.user.id, addressId);
+  }
+
+  const { lines, errors } = await validateCartLines(cartItems);
+
+  if (!lines.length) {
+    throw new ValidationError("No valid items in cart", { data: { errors } });
+  }
+
+  const quote = await quoteShipping(db, lines, {
+    deliveryMethod,
+    region: shippingAddress?.regionOrState,
+    pickupPointId,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      ...shippingQuoteResponse(quote),
+      errors,
+    },
+  });
+};
@@ -0,0 +1,408 @@
+import crypto from "node:crypto";
+import type { Response } from "express";
+import {
+  users,
+  addresses,
+  refreshTokens,
+  cart,
+  notificationPreferences,
+  notifications,
+  wishlist,
+  sellerProfiles,
+} from "../../db/schema.js";
+import { db } from "../../db/index.js";
+import type { AuthRequest } from "../../middleware/auth.middleware.js";
+import { eq, and, desc, ne, isNull } from "drizzle-orm";
+import { hashPassword, verifyPassword } from "../../utils/password.js";
+import { toPublicUser } from "../../utils/user.js";
+import { validateAddress } from "../../utils/address.js";
+import type {
+  UpdateProfileBody,
+  ChangePasswordBody,
+  DeleteAccountBody,
+  CreateAddressBody,
+  UpdateAddressBody,
+  UpdateNotificationPreferencesBody,
+} from "../../schemas/v1/user.schema.js";
+import {
+  getNotificationPreferences as findNotificationPreferences,
+  updateNotificationPreferences as saveNotificationPreferences,
+} from "../../services/notification.service.js";
+import { NotFoundError, UnauthorizedError, ValidationError } from "../../utils/errors.js";
+
+const ADDRESS_FIELDS = [
+  "homeAddress",
+  "city",
+  "regionOrState",
+  "country",
+  "digitalAddress",
+  "landmark",
+] as const;
+
+// GET /api/v1/users/me - Get profile of the logged-in user
+
+export const getProfile = async (req: AuthRequest, res: Response) => {
+  const user = await db
+    .select()
+    .from(users)
+    .where(eq(users.id, req.user!.id))
+    .limit(1);
+
+  if (!user.length || !user[0] || user[0].deletedAt) {
+    throw new NotFoundError("User not found");
+  }
+
+  res.json({
+    success: true,
+    data: toPublicUser(user[0]),
+  });
+};
+
+// PATCH /api/v1/users/me - Update name and phone
+// Purpose: Email, role and password are changed through dedicated flows
+
+export const updateProfile = async (req: AuthRequest, res: Response) => {
+  const { name, phone } = req.body as UpdateProfileBody;
+
+  const updates: Partial<typeof users.$inferInsert> = {};
+  if (name !== undefined) updates.name = name;
+  if (phone !== undefined) updates.phone = phone || null;
+
+  const updatedUser = await db
+    .update(users)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(and(eq(users.id, req.user!.id), isNull(users.deletedAt)))
+    .returning();
+
+  if (!updatedUser.length || !updatedUser[0]) {
+    throw new NotFoundError("User not found");
+  }
+
+  res.json({
+    success: true,
+    message: "Profile updated successfully",
+    data: toPublicUser(updatedUser[0]),
+  });
+};
+
+// PUT /api/v1/users/me/password - Change password
+// Purpose: Signs out every other session by revoking refresh tokens
+
+export const changePassword = async (req: AuthRequest, res: Response) => {
+  const { currentPassword, newPassword } = req.body as ChangePasswordBody;
+
+  const user = await db
+    .select()
+    .from(users)
+    .where(eq(users.id, req.user!.id))
+    .limit(1);
+
+  if (!user.length || !user[0] || user[0].deletedAt) {
+    throw new NotFoundError("User not found");
+  }
+
+  if (!(await verifyPassword(String(currentPassword), user[0].password))) {
+    throw new UnauthorizedError("Current password is incorrect");
+  }
+
+  const hashedPassword = await hashPassword(newPassword);
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(users)
+      .set({ password: hashedPassword, updatedAt: new Date() })
+      .where(eq(users.id, req.user!.id));
+
+    await tx
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(refreshTokens.userId, req.user!.id),
+          isNull(refreshTokens.revokedAt)
+        )
+      );
+  });
+
+  res.json({
+    success: true,
+    message: "Password changed successfully; please log in again",
+  });
+};
+
+// DELETE /api/v1/users/me - Delete account
+// Purpose: Anonymise personal data but keep the user row so past orders stay intact
+
+export const deleteAccount = async (req: AuthRequest, res: Response) => {
+  const { password } = req.body as DeleteAccountBody;
+  const userId = req.user!.id;
+
+  const user = await db
+    .select()
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user.length || !user[0] || user[0].deletedAt) {
+    throw new NotFoundError("User not found");
+  }
+
+  if (!(await verifyPassword(String(password), user[0].password))) {
+    throw new UnauthorizedError("Password is incorrect");
+  }
+
+  // Unusable password: nobody knows the random value that was hashed
+  const unusablePassword = await hashPassword(
+    crypto.randomBytes(32).toString("hex")
+  );
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(users)
+      .set({
+        name: "Deleted user",
+        email: `deleted-${userId}@deleted.invalid`,
+        password: unusablePassword,
+        phone: null,
+        deletedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+
+    await tx.delete(addresses).where(eq(addresses.userId, userId));
+    await tx.delete(cart).where(eq(cart.userId, userId));
+    await tx.delete(wishlist).where(eq(wishlist.userId, userId));
+    // Identity and payout details go too; payouts skip a seller without a number
+    await tx
+      .update(sellerProfiles)
+      .set({
+        ghanaCardNumber: null,
+        businessRegistrationNumber: null,
+        payoutMomoNumber: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(sellerProfiles.userId, userId));
+    await tx
+      .delete(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    // Messages not sent yet would go to the old email address and phone
+    await tx
+      .delete(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.status, "pending")));
+    await tx
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt))
+      );
+  });
+
+  res.json({
+    success: true,
+    message: "Account deleted successfully",
+  });
+};
+
+// GET /api/v1/users/me/addresses - List saved addresses (default first)
+
+export const getAddresses = async (req: AuthRequest, res: Response) => {
+  const userAddresses = await db
+    .select()
+    .from(addresses)
+    .where(eq(addresses.userId, req.user!.id))
+    .orderBy(desc(addresses.isDefault), desc(addresses.createdAt));
+
+  res.json({
+    success: true,
+    count: userAddresses.length,
+    data: userAddresses,
+  });
+};
+
+// POST /api/v1/users/me/addresses - Save a new address
+// Purpose: The first address saved becomes the default
+
+export const createAddress = async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { isDefault, label, ...address } = req.body as CreateAddressBody;
+
+  const values: typeof addresses.$inferInsert = {
+    userId,
+    ...address,
+    label: label || null,
+  };
+
+  const newAddress = await db.transaction(async (tx) => {
+    const existing = await tx
+      .select({ id: addresses.id })
+      .from(addresses)
+      .where(eq(addresses.userId, userId))
+      .limit(1);
+
+    const makeDefault = isDefault === true || existing.length === 0;
+
+    if (makeDefault) {
+      await tx
+        .update(addresses)
+        .set({ isDefault: false })
+        .where(eq(addresses.userId, userId));
+    }
+
+    const inserted = await tx
+      .insert(addresses)
+      .values({ ...values, isDefault: makeDefault })
+      .returning();
+
+    return inserted[0];
+  });
+
+  res.status(201).json({
+    success: true,
+    message: "Address saved successfully",
+    data: newAddress,
+  });
+};
+
+// PATCH /api/v1/users/me/addresses/:id - Update an address or make it the default
+
+export const updateAddress = async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const addressId = parseInt(req.params.id ?? "");
+
+  if (isNaN(addressId)) {
+    throw new ValidationError("Invalid address ID");
+  }
+
+  const existingAddress = await db
+    .select()
+    .from(addresses)
+    .where(and(eq(addresses.id, addressId), eq(addresses.userId, userId)))
+    .limit(1);
+
+  if (!existingAddress.length || !existingAddress[0]) {
+    throw new NotFoundError("Address not found");
+  }
+
+  const body = req.body as UpdateAddressBody;
+  const updates: Partial<typeof addresses.$inferInsert> = {};
+
+  // The address is checked as a whole, so the region and digital address still agree
+  if (ADDRESS_FIELDS.some((field) => body[field] !== undefined)) {
+    const current = existingAddress[0];
+    const validated = validateAddress({
+      ...Object.fromEntries(ADDRESS_FIELDS.map((field) => [field, current[field]])),
+      ...Object.fromEntries(
+        ADDRESS_FIELDS.filter((field) => body[field] !== undefined).map(
+          (field) => [field, body[field]]
+        )
+      ),
+    });
+    if (validated.errors !== undefined) {
+      throw new ValidationError(
+        "Some address fields are invalid",
+        { data: { errors: validated.errors } }
+      );
+    }
+    Object.assign(updates, validated.address);
+  }
+
+  if (body.label !== undefined) {
+    updates.label = body.label || null;
+  }
+
+  const updatedAddress = await db.transaction(async (tx) => {
+    if (body.isDefault === true) {
+      await tx
+        .update(addresses)
+        .set({ isDefault: false })
+        .where(and(eq(addresses.userId, userId), ne(addresses.id, addressId)));
+      updates.isDefault = true;
+    }
+
+    const updated = await tx
+      .update(addresses)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(addresses.id, addressId))
+      .returning();
+
+    return updated[0];
+  });
+
+  res.json({
+    success: true,
+    message: "Address updated successfully",
+    data: updatedAddress,
+  });
+};
+
+// DELETE /api/v1/users/me/addresses/:id - Delete an address
+// Purpose: If the default is deleted, the most recent remaining address becomes default
+
+export const deleteAddress = async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const addressId = parseInt(req.params.id ?? "");
+
+  if (isNaN(addressId)) {
+    throw new ValidationError("Invalid address ID");
+  }
+
+  const deleted = await db.transaction(async (tx) => {
+    const removed = await tx
+      .delete(addresses)
+      .where(and(eq(addresses.id, addressId), eq(addresses.userId, userId)))
+      .returning();
+
+    if (removed[0]?.isDefault) {
+      const next = await tx
+        .select({ id: addresses.id })
+        .from(addresses)
+        .where(eq(addresses.userId, userId))
+        .orderBy(desc(addresses.createdAt))
+        .limit(1);
+
+      if (next[0]) {
+        await tx
+          .update(addresses)
+          .set({ isDefault: true })
+          .where(eq(addresses.id, next[0].id));
+      }
+    }
+
+    return removed;
+  });
+
+  if (!deleted.length) {
+    throw new NotFoundError("Address not found");
+  }
+
+  res.json({
+    success: true,
+    message: "Address deleted successfully",
+  });
+};
+
+// GET /api/v1/users/me/notification-preferences - How the user wants to hear from us
+// Purpose: Defaults (English, email and SMS, everything on) until changed
+
+export const getNotificationPreferences = async (req: AuthRequest, res: Response) => {
+  res.json({
+    success: true,
+    data: await findNotificationPreferences(db, req.user!.id),
+  });
+};
+
+// PATCH /api/v1/users/me/notification-preferences - Change notification preferences
+// Purpose: Language (en or tw), channels, and which kinds of message to receive
+
+export const updateNotificationPreferences = async (req: AuthRequest, res: Response) => {
+  const preferences = await saveNotificationPreferences(
+    req.user!.id,
+    req.body as UpdateNotificationPreferencesBody
+  );
+
+  res.json({
+    success: true,
+    message: "Notification preferences updated",
+    data: preferences,
+  });
+};
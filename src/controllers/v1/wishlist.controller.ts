@@ -0,0 +1,92 @@
+import type { Response } from "express";
+import { db } from "../../db/index.js";
+import type { AuthRequest } from "../../middleware/auth.middleware.js";
+import type {
+  AddWishlistItemBody,
+  MoveToCartBody,
+  UpdateWishlistItemBody,
+} from "../../schemas/v1/wishlist.schema.js";
+import {
+  listWishlistItems,
+  moveWishlistItemToCart,
+  removeWishlistItem as deleteWishlistItem,
+  saveWishlistItem,
+  updateWishlistAlerts,
+} from "../../services/wishlist.service.js";
+import { getPricedCart } from "../../services/cart.service.js";
+
+// GET /api/v1/wishlist - List the logged-in user's wishlist
+// Purpose: Items with today's price and stock; priceDropped compares with the price when saved
+
+export const getWishlist = async (req: AuthRequest, res: Response) => {
+  res.json({
+    success: true,
+    data: await listWishlistItems(db, req.user!.id),
+  });
+};
+
+// POST /api/v1/wishlist/items - Save a product to the wishlist
+// Purpose: Saving one already on the wishlist updates its price and alerts
+
+export const addWishlistItem = async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+
+  await saveWishlistItem(db, userId, req.body as AddWishlistItemBody);
+
+  res.status(201).json({
+    success: true,
+    message: "Item saved to wishlist",
+    data: await listWishlistItems(db, userId),
+  });
+};
+
+// PATCH /api/v1/wishlist/items/:id - Turn price drop and back in stock alerts on or off
+
+export const updateWishlistItem = async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+
+  await updateWishlistAlerts(
+    userId,
+    parseInt(req.params.id ?? ""),
+    req.body as UpdateWishlistItemBody
+  );
+
+  res.json({
+    success: true,
+    message: "Wishlist item updated",
+    data: await listWishlistItems(db, userId),
+  });
+};
+
+// DELETE /api/v1/wishlist/items/:id - Remove an item from the wishlist
+
+export const removeWishlistItem = async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+
+  await deleteWishlistItem(userId, parseInt(req.params.id ?? ""));
+
+  res.json({
+    success: true,
+    message: "Item removed from wishlist",
+    data: await listWishlistItems(db, userId),
+  });
+};
+
+// POST /api/v1/wishlist/items/:id/move-to-cart - Move a wishlist item to the cart
+// Purpose: Checked against stock like adding to the cart; returns both lists
+
+export const moveToCart = async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { quantity } = req.body as MoveToCartBody;
+
+  await moveWishlistItemToCart(userId, parseInt(req.params.id ?? ""), quantity);
+
+  res.json({
+    success: true,
+    message: "Item moved to cart",
+    data: {
+      wishlist: await listWishlistItems(db, userId),
+      cart: await getPricedCart(db, { userId }),
+    },
+  });
+};
@@ -9,3 +9,8 @@ const pool = new Pool({
 });
 
 export const db = drizzle(pool, { schema });
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Helpers that can run inside or outside a transaction accept either
+export type DbExecutor = typeof db | DbTransaction;
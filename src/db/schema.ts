@@ -8,10 +8,35 @@ import {
   boolean,
   timestamp,
   json,
+  unique,
+  check,
 } from "drizzle-orm/pg-core";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 
 const TABLE_PREFIX = "GMP_";
 
+// Address shape shared by orders.shippingAddress and the address book
+export type ShippingAddress = {
+  homeAddress: string;
+  city: string;
+  regionOrState: string; // One of the 16 regions, see utils/address.ts
+  country: string;
+  digitalAddress?: string | null; // GhanaPost GPS, e.g. GA-123-4567
+  landmark?: string | null; // Directions for the rider
+  zipCode?: string; // Kept for older orders; not used in Ghana
+};
+
+// One applied discount, persisted on orders.discountBreakdown
+export type OrderDiscount = {
+  couponId: number;
+  couponCode: string;
+  type: string; // percentage, fixed, free_shipping
+  appliesTo: "items" | "shipping";
+  fundedBy: "seller" | "marketplace"; // Seller-funded discounts reduce the seller's payout
+  amount: string;
+};
+
 // Users table
 export const users = pgTable(`${TABLE_PREFIX}users`, {
   id: serial("id").primaryKey(),
@@ -20,6 +45,7 @@ export const users = pgTable(`${TABLE_PREFIX}users`, {
   password: varchar("password", { length: 255 }).notNull(),
   role: varchar("role", { length: 50 }).default("customer"), // customer, seller, admin
   phone: varchar("phone", { length: 20 }),
+  deletedAt: timestamp("deleted_at"), // Set when the account is anonymised
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -28,8 +54,11 @@ export const users = pgTable(`${TABLE_PREFIX}users`, {
 export const categories = pgTable(`${TABLE_PREFIX}categories`, {
   id: serial("id").primaryKey(),
   name: varchar("name", { length: 255 }).notNull(),
+  slug: varchar("slug", { length: 255 }).notNull().unique(),
   description: text("description"),
+  parentId: integer("parent_id").references((): AnyPgColumn => categories.id), // Null for top-level categories
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Products table
@@ -39,13 +68,18 @@ export const products = pgTable(`${TABLE_PREFIX}products`, {
   description: text("description").notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   images: json("images").$type<string[]>().default([]), // Array of image URLs
-  category: varchar("category", { length: 100 }).notNull(),
-  subCategory: varchar("sub_category", { length: 100 }),
+  category: varchar("category", { length: 100 }).notNull(), // Name of categoryId, kept for filtering
+  subCategory: varchar("sub_category", { length: 100 }), // Name of subCategoryId
+  categoryId: integer("category_id").references(() => categories.id),
+  subCategoryId: integer("sub_category_id").references(() => categories.id),
   sizes: json("sizes").$type<string[]>().default([]), // ["S", "M", "L"]
-  inStock: boolean("in_stock").default(true),
+  inStock: boolean("in_stock").default(true), // Derived from productStock, never set directly
+  lowStockThreshold: integer("low_stock_threshold").notNull().default(5),
   bestSeller: boolean("best_seller").default(false),
-  rating: decimal("rating", { precision: 2, scale: 1 }).default("0.0"),
+  rating: decimal("rating", { precision: 2, scale: 1 }).default("0.0"), // Average of reviews, maintained by review.controller
+  reviewCount: integer("review_count").notNull().default(0),
   sellerId: integer("seller_id").references(() => users.id),
+  weightKg: decimal("weight_kg", { precision: 8, scale: 3 }), // Shipping weight; a default is used when unset
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -53,22 +87,52 @@ export const products = pgTable(`${TABLE_PREFIX}products`, {
 // Orders table
 export const orders = pgTable(`${TABLE_PREFIX}orders`, {
   id: serial("id").primaryKey(),
+  orderNumber: varchar("order_number", { length: 20 }).notNull().unique(), // Customer-facing, e.g. GMP-7K2QX9MD
   userId: integer("user_id").references(() => users.id), // Nullable for guest orders
-  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  subtotalAmount: decimal("subtotal_amount", { precision: 10, scale: 2 }).notNull(), // Items before discounts
+  shippingAmount: decimal("shipping_amount", { precision: 10, scale: 2 })
+    .notNull()
+    .default("0"),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 })
+    .notNull()
+    .default("0"),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(), // subtotal + shipping - discount
+  couponCode: varchar("coupon_code", { length: 50 }),
+  discountBreakdown: json("discount_breakdown").$type<OrderDiscount[]>(),
   status: varchar("status", { length: 50 }).default("pending"), // pending, processing, shipped, delivered, cancelled
-  shippingAddress: json("shipping_address").$type<{
-    homeAddress: string;
-    city: string;
-    regionOrState: string;
-    country: string;
-    zipCode: string;
-  }>(),
+  shippingAddress: json("shipping_address").$type<ShippingAddress>(),
+  deliveryMethod: varchar("delivery_method", { length: 20 }).notNull().default("delivery"), // delivery, pickup
+  deliveryZoneId: integer("delivery_zone_id").references(() => deliveryZones.id),
+  pickupPointId: integer("pickup_point_id").references(() => pickupPoints.id),
+  estimatedDeliveryFrom: timestamp("estimated_delivery_from"),
+  estimatedDeliveryTo: timestamp("estimated_delivery_to"),
   guestInfo: json("guest_info").$type<{
     name: string;
     email: string;
     phone: string;
   }>(), // For guest checkout
-  paymentStatus: varchar("payment_status", { length: 50 }).default("pending"),
+  paymentStatus: varchar("payment_status", { length: 50 }).default("pending"), // pending, paid, failed, refund_pending (paid after the order was cancelled)
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Order Fulfilments table - one per seller in an order, shipped independently
+// The parent order's status is derived from its fulfilments
+export const orderFulfilments = pgTable(`${TABLE_PREFIX}order_fulfilments`, {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id")
+    .references(() => orders.id, { onDelete: "cascade" })
+    .notNull(),
+  sellerId: integer("seller_id").references(() => users.id), // Null for items sold by the marketplace
+  status: varchar("status", { length: 50 }).notNull().default("pending"), // pending, processing, shipped, delivered, cancelled
+  trackingNumber: varchar("tracking_number", { length: 100 }),
+  carrier: varchar("carrier", { length: 100 }),
+  shippingFee: decimal("shipping_fee", { precision: 10, scale: 2 })
+    .notNull()
+    .default("0"),
+  shippingDiscount: decimal("shipping_discount", { precision: 10, scale: 2 })
+    .notNull()
+    .default("0"), // Part of shippingFee waived by a free shipping coupon
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -79,28 +143,70 @@ export const orderItems = pgTable(`${TABLE_PREFIX}order_items`, {
   orderId: integer("order_id")
     .references(() => orders.id)
     .notNull(),
+  fulfilmentId: integer("fulfilment_id").references(() => orderFulfilments.id),
   productId: integer("product_id")
     .references(() => products.id)
     .notNull(),
   quantity: integer("quantity").notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   size: varchar("size", { length: 50 }),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 })
+    .notNull()
+    .default("0"), // This line's share of the order's item discounts
 });
 
-// Cart table
+// Cart table - each line belongs to a user or to a guest cart
 export const cart = pgTable(`${TABLE_PREFIX}cart`, {
   id: serial("id").primaryKey(),
-  userId: integer("user_id")
-    .references(() => users.id)
-    .notNull(),
+  userId: integer("user_id").references(() => users.id),
+  guestCartId: integer("guest_cart_id").references(() => guestCarts.id, {
+    onDelete: "cascade",
+  }),
   productId: integer("product_id")
     .references(() => products.id)
     .notNull(),
   quantity: integer("quantity").notNull().default(1),
-  size: varchar("size", { length: 50 }),
+  size: varchar("size", { length: 50 }).notNull().default("default"), // "default" for products without sizes
+  priceAtAdd: decimal("price_at_add", { precision: 10, scale: 2 }).notNull(), // Unit price when the line was last added or changed
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique().on(table.userId, table.productId, table.size),
+  unique().on(table.guestCartId, table.productId, table.size),
+  check(
+    "GMP_cart_one_owner",
+    sql`(${table.userId} is null) <> (${table.guestCartId} is null)`
+  ),
+]);
+
+// Guest Carts table - carts for shoppers who aren't logged in, named by a signed cart token
+export const guestCarts = pgTable(`${TABLE_PREFIX}guest_carts`, {
+  id: serial("id").primaryKey(),
+  expiresAt: timestamp("expires_at").notNull(), // Pushed back on every change; expired carts are deleted
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Wishlist table - products a user is saving for later
+// Alerts are opt-in per item and sent by the wishlist-alerts job
+export const wishlist = pgTable(`${TABLE_PREFIX}wishlist`, {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  productId: integer("product_id")
+    .references(() => products.id, { onDelete: "cascade" })
+    .notNull(),
+  size: varchar("size", { length: 50 }).notNull().default("default"), // "default" for products without sizes
+  priceAtAdd: decimal("price_at_add", { precision: 10, scale: 2 }).notNull(), // Unit price when saved
+  alertPriceDrop: boolean("alert_price_drop").notNull().default(false),
+  alertBackInStock: boolean("alert_back_in_stock").notNull().default(false),
+  watchPrice: decimal("watch_price", { precision: 10, scale: 2 }).notNull(), // A price below this is a drop; lowered after each alert
+  wasInStock: boolean("was_in_stock").notNull().default(true), // Stock when last checked, to spot it coming back
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [unique().on(table.userId, table.productId, table.size)]);
+
 // Reviews table
 export const reviews = pgTable(`${TABLE_PREFIX}reviews`, {
   id: serial("id").primaryKey(),
@@ -113,4 +219,323 @@ export const reviews = pgTable(`${TABLE_PREFIX}reviews`, {
   rating: integer("rating").notNull(), // 1-5
   comment: text("comment"),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // One review per user per product
+  unique().on(table.productId, table.userId),
+]);
+
+// Refresh Tokens table
+export const refreshTokens = pgTable(`${TABLE_PREFIX}refresh_tokens`, {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 of the raw token
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  replacedByTokenId: integer("replaced_by_token_id"), // Set when rotated
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Payments table - one row per payment attempt against an order
+export const payments = pgTable(`${TABLE_PREFIX}payments`, {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id")
+    .references(() => orders.id)
+    .notNull(),
+  reference: varchar("reference", { length: 100 }).notNull().unique(), // Our reference sent to the provider
+  provider: varchar("provider", { length: 50 }).notNull(), // fake, ...
+  method: varchar("method", { length: 50 }).notNull(), // mtn_momo, vodafone_cash, airteltigo_money, card
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default("GHS"),
+  phone: varchar("phone", { length: 20 }), // Mobile money wallet number
+  status: varchar("status", { length: 50 }).default("pending"), // pending, successful, failed
+  providerReference: varchar("provider_reference", { length: 255 }).unique(),
+  checkoutUrl: text("checkout_url"), // For card payments that redirect
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Addresses table - saved shipping addresses (address book)
+export const addresses = pgTable(`${TABLE_PREFIX}addresses`, {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  label: varchar("label", { length: 100 }), // e.g. Home, Office
+  homeAddress: varchar("home_address", { length: 255 }).notNull(),
+  city: varchar("city", { length: 100 }).notNull(),
+  regionOrState: varchar("region_or_state", { length: 100 }).notNull(),
+  country: varchar("country", { length: 100 }).notNull().default("Ghana"),
+  zipCode: varchar("zip_code", { length: 20 }), // Not used in Ghana; kept for older addresses
+  digitalAddress: varchar("digital_address", { length: 20 }), // GhanaPost GPS, e.g. GA-123-4567
+  landmark: varchar("landmark", { length: 255 }), // e.g. "Behind the Total filling station"
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Product Stock table - quantity on hand per product size
+export const productStock = pgTable(`${TABLE_PREFIX}product_stock`, {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id")
+    .references(() => products.id, { onDelete: "cascade" })
+    .notNull(),
+  size: varchar("size", { length: 50 }).notNull(), // "default" for products without sizes
+  quantity: integer("quantity").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique().on(table.productId, table.size),
+]);
+
+// Idempotency Keys table - remembers checkout responses so client retries are safe
+export const idempotencyKeys = pgTable(`${TABLE_PREFIX}idempotency_keys`, {
+  id: serial("id").primaryKey(),
+  scope: varchar("scope", { length: 100 }).notNull(), // "user:<id>", or "guest:<SHA-256 of the email>"
+  key: varchar("key", { length: 255 }).notNull(), // Idempotency-Key header value
+  requestHash: varchar("request_hash", { length: 64 }).notNull(), // SHA-256 of the request body
+  orderId: integer("order_id").references(() => orders.id),
+  responseStatus: integer("response_status"),
+  responseBody: json("response_body"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.scope, table.key),
+]);
+
+// Order Status History table - every status change with who made it
+export const orderStatusHistory = pgTable(`${TABLE_PREFIX}order_status_history`, {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id")
+    .references(() => orders.id, { onDelete: "cascade" })
+    .notNull(),
+  fulfilmentId: integer("fulfilment_id").references(() => orderFulfilments.id, {
+    onDelete: "cascade",
+  }), // Set for seller fulfilment changes; null for the order itself
+  fromStatus: varchar("from_status", { length: 50 }), // Null for the initial status
+  toStatus: varchar("to_status", { length: 50 }).notNull(),
+  changedBy: integer("changed_by").references(() => users.id), // Null for guests and the system
+  actorRole: varchar("actor_role", { length: 50 }).notNull(), // customer, seller, admin, guest, system
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Seller Profiles table - seller applications and store details
+export const sellerProfiles = pgTable(`${TABLE_PREFIX}seller_profiles`, {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull()
+    .unique(),
+  businessName: varchar("business_name", { length: 255 }).notNull(),
+  slug: varchar("slug", { length: 255 }).notNull().unique(), // Public store URL
+  description: text("description"),
+  ghanaCardNumber: varchar("ghana_card_number", { length: 20 }), // GHA-XXXXXXXXX-X
+  businessRegistrationNumber: varchar("business_registration_number", { length: 50 }),
+  payoutMomoNumber: varchar("payout_momo_number", { length: 20 }), // Cleared when the account is deleted
+  payoutMomoProvider: varchar("payout_momo_provider", { length: 50 }).notNull(), // mtn_momo, vodafone_cash, airteltigo_money
+  status: varchar("status", { length: 50 }).notNull().default("pending"), // pending, approved, rejected, suspended
+  rejectionReason: text("rejection_reason"),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Commission Rates table - marketplace commission overrides
+// A seller's rate wins over a category's; otherwise the default rate applies
+export const commissionRates = pgTable(`${TABLE_PREFIX}commission_rates`, {
+  id: serial("id").primaryKey(),
+  categoryId: integer("category_id")
+    .references(() => categories.id, { onDelete: "cascade" })
+    .unique(),
+  sellerId: integer("seller_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .unique(),
+  rate: decimal("rate", { precision: 5, scale: 4 }).notNull(), // 0.1000 = 10%
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Payout Batches table - a run of mobile money payouts to sellers
+export const payoutBatches = pgTable(`${TABLE_PREFIX}payout_batches`, {
+  id: serial("id").primaryKey(),
+  status: varchar("status", { length: 50 }).notNull().default("pending"), // pending, completed
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
+  payoutCount: integer("payout_count").notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Payouts table - one seller's payout within a batch
+export const payouts = pgTable(`${TABLE_PREFIX}payouts`, {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id")
+    .references(() => payoutBatches.id)
+    .notNull(),
+  sellerId: integer("seller_id")
+    .references(() => users.id)
+    .notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  momoNumber: varchar("momo_number", { length: 20 }).notNull(),
+  momoProvider: varchar("momo_provider", { length: 50 }).notNull(),
+  status: varchar("status", { length: 50 }).notNull().default("pending"), // pending, paid, failed
+  providerReference: varchar("provider_reference", { length: 255 }),
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Ledger Entries table - double-entry record of what the marketplace owes sellers
+// Every entry group balances: total debits equal total credits
+export const ledgerEntries = pgTable(`${TABLE_PREFIX}ledger_entries`, {
+  id: serial("id").primaryKey(),
+  entryGroup: varchar("entry_group", { length: 64 }).notNull(), // Shared by the entries of one posting
+  entryType: varchar("entry_type", { length: 50 }).notNull(), // sale, shipping, payout, payout_reversal
+  account: varchar("account", { length: 50 }).notNull(), // customer_funds, seller_payable, commission_revenue, shipping_revenue, promotion_expense, payout_cash
+  sellerId: integer("seller_id").references(() => users.id),
+  orderItemId: integer("order_item_id").references(() => orderItems.id),
+  fulfilmentId: integer("fulfilment_id").references(() => orderFulfilments.id), // Set on shipping postings
+  payoutId: integer("payout_id").references(() => payouts.id),
+  debit: decimal("debit", { precision: 12, scale: 2 }).notNull().default("0"),
+  credit: decimal("credit", { precision: 12, scale: 2 }).notNull().default("0"),
+  commissionRate: decimal("commission_rate", { precision: 5, scale: 4 }), // Rate applied to a sale
+  memo: text("memo"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // An order item's sale is posted once
+  unique().on(table.orderItemId, table.account),
+  // So is a fulfilment's shipping
+  unique().on(table.fulfilmentId, table.account),
+]);
+
+// Coupons table - discount codes applied at checkout
+export const coupons = pgTable(`${TABLE_PREFIX}coupons`, {
+  id: serial("id").primaryKey(),
+  code: varchar("code", { length: 50 }).notNull().unique(), // Stored uppercase
+  description: text("description"),
+  type: varchar("type", { length: 50 }).notNull(), // percentage, fixed, free_shipping
+  value: decimal("value", { precision: 10, scale: 2 }).notNull().default("0"), // Percent off, or GHS off for fixed
+  maxDiscountAmount: decimal("max_discount_amount", { precision: 10, scale: 2 }), // Cap for percentage coupons
+  minOrderAmount: decimal("min_order_amount", { precision: 10, scale: 2 }), // Compared with the eligible items' subtotal
+  categoryId: integer("category_id").references(() => categories.id), // Only items in this category
+  sellerId: integer("seller_id").references(() => users.id), // Only this seller's items; funded by the seller
+  usageLimit: integer("usage_limit"), // Total redemptions allowed; null for unlimited
+  perUserLimit: integer("per_user_limit"), // Redemptions per customer; null for unlimited
+  usedCount: integer("used_count").notNull().default(0),
+  startsAt: timestamp("starts_at"),
+  expiresAt: timestamp("expires_at"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Coupon Redemptions table - one row per order that used a coupon
+export const couponRedemptions = pgTable(`${TABLE_PREFIX}coupon_redemptions`, {
+  id: serial("id").primaryKey(),
+  couponId: integer("coupon_id")
+    .references(() => coupons.id)
+    .notNull(),
+  orderId: integer("order_id")
+    .references(() => orders.id, { onDelete: "cascade" })
+    .notNull()
+    .unique(),
+  userId: integer("user_id").references(() => users.id), // Null for guests
+  guestEmail: varchar("guest_email", { length: 255 }), // Lowercased; per-user limit for guests
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Delivery Zones table - shipping rates for a group of regions
+// Each seller's items ship separately: baseFee covers includedUnits, then perUnitFee
+// for every further kg (rateType weight) or item (rateType item_count)
+export const deliveryZones = pgTable(`${TABLE_PREFIX}delivery_zones`, {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  regions: json("regions").$type<string[]>().notNull().default([]), // Region names, matched case-insensitively
+  rateType: varchar("rate_type", { length: 20 }).notNull().default("weight"), // weight, item_count
+  baseFee: decimal("base_fee", { precision: 10, scale: 2 }).notNull(),
+  perUnitFee: decimal("per_unit_fee", { precision: 10, scale: 2 }).notNull().default("0"),
+  includedUnits: integer("included_units").notNull().default(1),
+  etaMinDays: integer("eta_min_days").notNull(),
+  etaMaxDays: integer("eta_max_days").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Pickup Points table - places customers can collect orders from for a flat fee
+export const pickupPoints = pgTable(`${TABLE_PREFIX}pickup_points`, {
+  id: serial("id").primaryKey(),
+  zoneId: integer("zone_id")
+    .references(() => deliveryZones.id, { onDelete: "cascade" })
+    .notNull(),
+  name: varchar("name", { length: 150 }).notNull(),
+  address: varchar("address", { length: 255 }).notNull(),
+  city: varchar("city", { length: 100 }).notNull(),
+  openingHours: varchar("opening_hours", { length: 255 }),
+  fee: decimal("fee", { precision: 10, scale: 2 }).notNull().default("0"), // Per seller, like delivery fees
+  etaMinDays: integer("eta_min_days").notNull(),
+  etaMaxDays: integer("eta_max_days").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Notifications table - outbox of emails and SMS
+// Rows are written as pending and sent by a background job through the configured transport
+export const notifications = pgTable(`${TABLE_PREFIX}notifications`, {
+  id: serial("id").primaryKey(),
+  kind: varchar("kind", { length: 50 }).notNull(), // Template it was rendered from, e.g. order_placed
+  channel: varchar("channel", { length: 10 }).notNull(), // email, sms
+  recipient: varchar("recipient", { length: 255 }).notNull(), // Email address or phone number
+  subject: varchar("subject", { length: 255 }), // Email only
+  body: text("body").notNull(),
+  userId: integer("user_id").references(() => users.id),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, sent, failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(), // Pushed back after each failed attempt
+  transport: varchar("transport", { length: 50 }), // Transport that sent it
+  providerReference: varchar("provider_reference", { length: 255 }),
+  error: text("error"), // Latest failure
+  createdAt: timestamp("created_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+});
+
+// Notification Preferences table - how a user wants to hear from us
+// Users without a row get the defaults
+export const notificationPreferences = pgTable(`${TABLE_PREFIX}notification_preferences`, {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull()
+    .unique(),
+  language: varchar("language", { length: 5 }).notNull().default("en"), // en, tw
+  emailEnabled: boolean("email_enabled").notNull().default(true),
+  smsEnabled: boolean("sms_enabled").notNull().default(true),
+  orderUpdates: boolean("order_updates").notNull().default(true), // Confirmations, shipping and payment
+  cartReminders: boolean("cart_reminders").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Abandoned Carts table - a cart left idle past the abandonment window
+// One row per idle spell; recovered once the same user or guest cart places an order
+export const abandonedCarts = pgTable(`${TABLE_PREFIX}abandoned_carts`, {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id),
+  guestCartId: integer("guest_cart_id").references(() => guestCarts.id, {
+    onDelete: "set null",
+  }),
+  itemCount: integer("item_count").notNull(),
+  cartValue: decimal("cart_value", { precision: 10, scale: 2 }).notNull(), // Subtotal when detected
+  lastActivityAt: timestamp("last_activity_at").notNull(), // Latest cart change before it went idle
+  detectedAt: timestamp("detected_at").defaultNow().notNull(),
+  remindedAt: timestamp("reminded_at"), // Null for guests, who can't be contacted, and users who turned reminders off
+  recoveredOrderId: integer("recovered_order_id").references(() => orders.id),
+  recoveredAmount: decimal("recovered_amount", { precision: 10, scale: 2 }), // The order's total
+  recoveredAt: timestamp("recovered_at"),
 });
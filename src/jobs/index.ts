@@ -0,0 +1,43 @@
+import { scheduleJob } from "./scheduler.js";
+import { deleteExpiredGuestCarts } from "../services/cart.service.js";
+import { detectAbandonedCarts } from "../services/abandonedCart.service.js";
+import { deliverPendingNotifications } from "../services/notification.service.js";
+import { sendWishlistAlerts } from "../services/wishlist.service.js";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// How often to look for newly abandoned carts
+const ABANDONED_CART_SCAN_MINUTES = parseFloat(
+  process.env.ABANDONED_CART_SCAN_MINUTES || "60"
+);
+
+// How often to check wishlisted products for price drops and restocks
+const WISHLIST_ALERT_SCAN_MINUTES = parseFloat(
+  process.env.WISHLIST_ALERT_SCAN_MINUTES || "30"
+);
+
+// Background jobs run in the API process; set RUN_JOBS=false on extra instances
+// so only one of them does the work
+export const startJobs = () => {
+  if (process.env.RUN_JOBS === "false") return;
+
+  scheduleJob("guest-cart-cleanup", HOUR_MS, async () => {
+    const deleted = await deleteExpiredGuestCarts();
+    if (deleted) console.log(`[job:guest-cart-cleanup] Deleted ${deleted} expired guest carts`);
+  });
+
+  scheduleJob("abandoned-carts", ABANDONED_CART_SCAN_MINUTES * MINUTE_MS, async () => {
+    const detected = await detectAbandonedCarts();
+    if (detected) console.log(`[job:abandoned-carts] Found ${detected} abandoned carts`);
+  });
+
+  scheduleJob("wishlist-alerts", WISHLIST_ALERT_SCAN_MINUTES * MINUTE_MS, async () => {
+    const alerted = await sendWishlistAlerts();
+    if (alerted) console.log(`[job:wishlist-alerts] Alerted on ${alerted} wishlist items`);
+  });
+
+  scheduleJob("notifications", MINUTE_MS, async () => {
+    await deliverPendingNotifications();
+  });
+};
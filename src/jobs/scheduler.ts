@@ -0,0 +1,25 @@
+// Run a job every intervalMs in this process. A run that is still going when the
+// next is due is not doubled up, and failures are logged so later runs still happen
+export const scheduleJob = (
+  name: string,
+  intervalMs: number,
+  run: () => Promise<void>
+) => {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await run();
+    } catch (error) {
+      console.error(`[job:${name}]`, error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  // Don't keep the process alive just for jobs
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,63 @@
+import type { Request, Response, NextFunction } from "express";
+import { verifyAccessToken } from "../utils/token.js";
+import { UnauthorizedError } from "../utils/errors.js";
+
+// Extend Express Request type
+export interface AuthRequest extends Request {
+  user?: {
+    id: number;
+    email: string;
+    role: string;
+  };
+}
+
+const getBearerToken = (req: Request) => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith("Bearer ")) return null;
+  return header.slice("Bearer ".length).trim() || null;
+};
+
+// Require a valid access token and populate req.user
+export const authenticate = (
+  req: AuthRequest,
+  _res: Response,
+  next: NextFunction
+) => {
+  const token = getBearerToken(req);
+
+  if (!token) return next(new UnauthorizedError());
+
+  const payload = verifyAccessToken(token);
+
+  if (!payload) {
+    return next(
+      new UnauthorizedError("Invalid or expired token", { code: "INVALID_TOKEN" })
+    );
+  }
+
+  req.user = payload;
+  next();
+};
+
+// Populate req.user when a valid token is sent, but allow anonymous requests
+// Used for routes that also serve guests (e.g. guest checkout)
+export const optionalAuth = (
+  req: AuthRequest,
+  _res: Response,
+  next: NextFunction
+) => {
+  const token = getBearerToken(req);
+
+  if (!token) return next();
+
+  const payload = verifyAccessToken(token);
+
+  if (!payload) {
+    return next(
+      new UnauthorizedError("Invalid or expired token", { code: "INVALID_TOKEN" })
+    );
+  }
+
+  req.user = payload;
+  next();
+};
@@ -0,0 +1,67 @@
+import type { Request, Response, NextFunction } from "express";
+import { AppError, NotFoundError, ValidationError, ConflictError } from "../utils/errors.js";
+import { isUniqueViolation } from "../utils/dbErrors.js";
+
+// Errors raised by express.json() carry a type and an HTTP status
+const isBodyParserError = (
+  error: unknown
+): error is Error & { type: string; status: number } =>
+  error instanceof Error && "type" in error && "status" in error;
+
+const toAppError = (error: unknown): AppError | undefined => {
+  if (error instanceof AppError) return error;
+
+  if (isBodyParserError(error)) {
+    if (error.type === "entity.parse.failed") {
+      return new ValidationError("Request body is not valid JSON", { code: "INVALID_JSON" });
+    }
+    if (error.type === "entity.too.large") {
+      return new AppError(413, "PAYLOAD_TOO_LARGE", "Request body is too large");
+    }
+  }
+
+  // A unique constraint that a handler didn't check for first
+  if (isUniqueViolation(error)) {
+    return new ConflictError("This record already exists", { code: "ALREADY_EXISTS" });
+  }
+
+  return undefined;
+};
+
+// Mounted after every route: requests that matched nothing
+export const notFoundHandler = (req: Request, _res: Response, next: NextFunction) => {
+  next(new NotFoundError(`Cannot ${req.method} ${req.path}`, { code: "ROUTE_NOT_FOUND" }));
+};
+
+// Mounted last: the only place error responses are built from thrown errors
+// Clients get the message and code of known errors; anything unexpected is logged with
+// the request id and reported as a generic 500, so database and driver details stay private
+export const errorHandler = (
+  error: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (res.headersSent) return next(error);
+
+  const requestId: string | undefined = res.locals.requestId;
+  const appError = toAppError(error);
+
+  if (!appError) {
+    console.error(`[${requestId}] ${req.method} ${req.originalUrl}`, error);
+    return res.status(500).json({
+      success: false,
+      message: "Something went wrong. Please try again later",
+      code: "INTERNAL_ERROR",
+      requestId,
+    });
+  }
+
+  res.status(appError.status).json({
+    success: false,
+    message: appError.message,
+    code: appError.code,
+    ...(appError.data !== undefined ? { data: appError.data } : {}),
+    requestId,
+  });
+};
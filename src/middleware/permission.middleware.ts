@@ -0,0 +1,119 @@
+import type { Response, NextFunction } from "express";
+import { eq } from "drizzle-orm";
+import { db } from "../db/index.js";
+import { products, reviews, orderFulfilments, coupons } from "../db/schema.js";
+import type { AuthRequest } from "./auth.middleware.js";
+import {
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+} from "../utils/errors.js";
+
+export const ROLES = ["customer", "seller", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+// Resolves the user id that owns the resource targeted by a request
+// Return undefined when the resource does not exist, null when it has no owner
+export type OwnerResolver = (
+  req: AuthRequest
+) => Promise<number | null | undefined>;
+
+// Allow the request only if the authenticated user has one of the given roles
+// Must be mounted after authenticate
+export const authorize =
+  (...allowedRoles: Role[]) =>
+  (req: AuthRequest, _res: Response, next: NextFunction) => {
+    if (!req.user) return next(new UnauthorizedError());
+
+    if (!allowedRoles.includes(req.user.role as Role)) {
+      return next(new ForbiddenError());
+    }
+
+    next();
+  };
+
+// Allow the request if the user owns the target resource; admins always pass
+// Must be mounted after authenticate
+export const authorizeOwner =
+  (resolveOwnerId: OwnerResolver, resourceName = "Resource") =>
+  async (req: AuthRequest, _res: Response, next: NextFunction) => {
+    if (!req.user) return next(new UnauthorizedError());
+
+    if (req.user.role === "admin") return next();
+
+    // Lookup failures reject the promise, which Express passes to the error handler
+    const ownerId = await resolveOwnerId(req);
+
+    if (ownerId === undefined) {
+      return next(new NotFoundError(`${resourceName} not found`));
+    }
+
+    if (ownerId !== req.user.id) return next(new ForbiddenError());
+
+    next();
+  };
+
+// Owner resolver for routes with a product :id param
+export const productOwner: OwnerResolver = async (req) => {
+  const productId = parseInt(req.params.id ?? "");
+  if (isNaN(productId)) return undefined;
+
+  const product = await db
+    .select({ sellerId: products.sellerId })
+    .from(products)
+    .where(eq(products.id, productId))
+    .limit(1);
+
+  if (!product.length || !product[0]) return undefined;
+
+  return product[0].sellerId;
+};
+
+// Owner resolver for routes with a review :id param
+export const reviewOwner: OwnerResolver = async (req) => {
+  const reviewId = parseInt(req.params.id ?? "");
+  if (isNaN(reviewId)) return undefined;
+
+  const review = await db
+    .select({ userId: reviews.userId })
+    .from(reviews)
+    .where(eq(reviews.id, reviewId))
+    .limit(1);
+
+  if (!review.length || !review[0]) return undefined;
+
+  return review[0].userId;
+};
+
+// Owner resolver for routes with an order fulfilment :id param
+export const fulfilmentOwner: OwnerResolver = async (req) => {
+  const fulfilmentId = parseInt(req.params.id ?? "");
+  if (isNaN(fulfilmentId)) return undefined;
+
+  const fulfilment = await db
+    .select({ sellerId: orderFulfilments.sellerId })
+    .from(orderFulfilments)
+    .where(eq(orderFulfilments.id, fulfilmentId))
+    .limit(1);
+
+  if (!fulfilment.length || !fulfilment[0]) return undefined;
+
+  return fulfilment[0].sellerId;
+};
+
+// Owner resolver for routes with a coupon :id param
+// Marketplace-wide coupons (no seller) can only be managed by admins
+export const couponOwner: OwnerResolver = async (req) => {
+  const couponId = parseInt(req.params.id ?? "");
+  if (isNaN(couponId)) return undefined;
+
+  const coupon = await db
+    .select({ sellerId: coupons.sellerId })
+    .from(coupons)
+    .where(eq(coupons.id, couponId))
+    .limit(1);
+
+  if (!coupon.length || !coupon[0]) return undefined;
+
+  return coupon[0].sellerId;
+};
@@ -0,0 +1,16 @@
+import crypto from "node:crypto";
+import type { Request, Response, NextFunction } from "express";
+
+// Ids from a proxy or client are kept if they look sane, so logs can be joined up
+const REQUEST_ID_REGEX = /^[\w.:-]{1,100}$/;
+
+// Give every request an id, returned in the X-Request-Id header and logged with errors
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get("X-Request-Id");
+  const id =
+    incoming && REQUEST_ID_REGEX.test(incoming) ? incoming : crypto.randomUUID();
+
+  res.locals.requestId = id;
+  res.setHeader("X-Request-Id", id);
+  next();
+};
@@ -0,0 +1,68 @@
+import type { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { ValidationError } from "../utils/errors.js";
+
+// Missing fields read "Required" rather than zod's type mismatch message
+z.config({
+  customError: (issue) => (issue.input === undefined ? "Required" : undefined),
+});
+
+const REQUEST_PARTS = ["params", "query", "body"] as const;
+type RequestPart = (typeof REQUEST_PARTS)[number];
+
+export type RequestSchemas = Partial<Record<RequestPart, z.ZodType>>;
+
+export interface RequestFieldError {
+  location: RequestPart;
+  field: string;
+  message: string;
+}
+
+// Check params, query and body against their schemas before the controller runs
+// Each part is replaced by its parsed value, so fields a schema doesn't list never
+// reach the controller. Every invalid field is reported in one 400 response
+export const validate =
+  (schemas: RequestSchemas) =>
+  (req: Request, _res: Response, next: NextFunction) => {
+    const errors: RequestFieldError[] = [];
+    const parsed: Partial<Record<RequestPart, unknown>> = {};
+
+    for (const location of REQUEST_PARTS) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        parsed[location] = result.data;
+        continue;
+      }
+
+      for (const issue of result.error.issues) {
+        errors.push({
+          location,
+          field: issue.path.map(String).join(".") || location,
+          message: issue.message,
+        });
+      }
+    }
+
+    if (errors.length) {
+      return next(
+        new ValidationError("Some request fields are invalid", { data: { errors } })
+      );
+    }
+
+    if (parsed.params !== undefined) req.params = parsed.params as Request["params"];
+    // req.query is a getter in Express 5, so shadow it on the request itself
+    if (parsed.query !== undefined) {
+      Object.defineProperty(req, "query", {
+        value: parsed.query,
+        writable: true,
+        configurable: true,
+        enumerable: true,
+      });
+    }
+    if (parsed.body !== undefined) req.body = parsed.body;
+
+    next();
+  };
@@ -0,0 +1,25 @@
+import { Router } from "express";
+import {
+  register,
+  login,
+  refresh,
+  logout,
+  getMe,
+} from "../../controllers/v1/auth.controller.js";
+import { authenticate } from "../../middleware/auth.middleware.js";
+import { validate } from "../../middleware/validate.middleware.js";
+import {
+  registerBody,
+  loginBody,
+  refreshTokenBody,
+} from "../../schemas/v1/auth.schema.js";
+
+const router = Router();
+
+router.post("/register", validate({ body: registerBody }), register);
+router.post("/login", validate({ body: loginBody }), login);
+router.post("/refresh", validate({ body: refreshTokenBody }), refresh);
+router.post("/logout", validate({ body: refreshTokenBody }), logout);
+router.get("/me", authenticate, getMe);
+
+export default router;
@@ -1,16 +1,43 @@
 import { Router } from "express";
 import {
   getUserCart,
-  syncCart,
+  addCartItem,
+  updateCartItem,
+  removeCartItem,
   saveCart,
   clearCart,
+  saveForLater,
 } from "../../controllers/v1/cart.controller.js";
+import { authenticate, optionalAuth } from "../../middleware/auth.middleware.js";
+import { validate } from "../../middleware/validate.middleware.js";
+import { idParams } from "../../schemas/v1/common.schema.js";
+import {
+  addCartItemBody,
+  cartBody,
+  updateCartItemBody,
+} from "../../schemas/v1/cart.schema.js";
 
 const router = Router();
 
+// Logged-in users work on their own cart; guests on the cart named by X-Cart-Token
+router.use(optionalAuth);
+
 router.get("/", getUserCart);
-router.post("/sync", syncCart);
-router.post("/save", saveCart);
+router.post("/items", validate({ body: addCartItemBody }), addCartItem);
+router.patch(
+  "/items/:id",
+  validate({ params: idParams, body: updateCartItemBody }),
+  updateCartItem
+);
+router.delete("/items/:id", validate({ params: idParams }), removeCartItem);
+// Wishlists need an account
+router.post(
+  "/items/:id/save-for-later",
+  authenticate,
+  validate({ params: idParams }),
+  saveForLater
+);
+router.post("/save", validate({ body: cartBody }), saveCart);
 router.delete("/", clearCart);
 
 export default router;
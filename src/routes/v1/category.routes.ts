@@ -0,0 +1,48 @@
+import { Router } from "express";
+import {
+  getCategories,
+  getCategoryTree,
+  getCategory,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+} from "../../controllers/v1/category.controller.js";
+import { authenticate } from "../../middleware/auth.middleware.js";
+import { authorize } from "../../middleware/permission.middleware.js";
+import { validate } from "../../middleware/validate.middleware.js";
+import { idParams } from "../../schemas/v1/common.schema.js";
+import {
+  listCategoriesQuery,
+  categoryParams,
+  createCategoryBody,
+  updateCategoryBody,
+} from "../../schemas/v1/category.schema.js";
+
+const router = Router();
+
+router.get("/", validate({ query: listCategoriesQuery }), getCategories);
+router.get("/tree", getCategoryTree);
+router.get("/:idOrSlug", validate({ params: categoryParams }), getCategory);
+router.post(
+  "/",
+  authenticate,
+  authorize("admin"),
+  validate({ body: createCategoryBody }),
+  createCategory
+);
+router.patch(
+  "/:id",
+  authenticate,
+  authorize("admin"),
+  validate({ params: idParams, body: updateCategoryBody }),
+  updateCategory
+);
+router.delete(
+  "/:id",
+  authenticate,
+  authorize("admin"),
+  validate({ params: idParams }),
+  deleteCategory
+);
+
+export default router;
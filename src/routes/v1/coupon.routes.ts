@@ -0,0 +1,49 @@
+import { Router } from "express";
+import {
+  getCoupons,
+  getCouponById,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+} from "../../controllers/v1/coupon.controller.js";
+import { authenticate } from "../../middleware/auth.middleware.js";
+import {
+  authorize,
+  authorizeOwner,
+  couponOwner,
+} from "../../middleware/permission.middleware.js";
+import { validate } from "../../middleware/validate.middleware.js";
+import { idParams } from "../../schemas/v1/common.schema.js";
+import {
+  couponsQuery,
+  createCouponBody,
+  updateCouponBody,
+} from "../../schemas/v1/coupon.schema.js";
+
+const router = Router();
+
+// Customers apply coupons at checkout (/orders/preview, /orders); these manage them
+router.use(authenticate, authorize("seller", "admin"));
+
+router.get("/", validate({ query: couponsQuery }), getCoupons);
+router.post("/", validate({ body: createCouponBody }), createCoupon);
+router.get(
+  "/:id",
+  validate({ params: idParams }),
+  authorizeOwner(couponOwner, "Coupon"),
+  getCouponById
+);
+router.patch(
+  "/:id",
+  validate({ params: idParams, body: updateCouponBody }),
+  authorizeOwner(couponOwner, "Coupon"),
+  updateCoupon
+);
+router.delete(
+  "/:id",
+  validate({ params: idParams }),
+  authorizeOwner(couponOwner, "Coupon"),
+  deleteCoupon
+);
+
+export default router;
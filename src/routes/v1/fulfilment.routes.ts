@@ -0,0 +1,39 @@
+import { Router } from "express";
+import {
+  getFulfilments,
+  getFulfilmentById,
+  updateFulfilment,
+} from "../../controllers/v1/fulfilment.controller.js";
+import { authenticate } from "../../middleware/auth.middleware.js";
+import {
+  authorize,
+  authorizeOwner,
+  fulfilmentOwner,
+} from "../../middleware/permission.middleware.js";
+import { validate } from "../../middleware/validate.middleware.js";
+import { idParams } from "../../schemas/v1/common.schema.js";
+import {
+  listFulfilmentsQuery,
+  updateFulfilmentBody,
+} from "../../schemas/v1/fulfilment.schema.js";
+
+const router = Router();
+
+// Sellers work on their own fulfilments; admins can act on any
+router.use(authenticate, authorize("seller", "admin"));
+
+router.get("/", validate({ query: listFulfilmentsQuery }), getFulfilments);
+router.get(
+  "/:id",
+  validate({ params: idParams }),
+  authorizeOwner(fulfilmentOwner, "Fulfilment"),
+  getFulfilmentById
+);
+router.patch(
+  "/:id",
+  validate({ params: idParams, body: updateFulfilmentBody }),
+  authorizeOwner(fulfilmentOwner, "Fulfilment"),
+  updateFulfilment
+);
+
+export default router;
@@ -1,12 +1,36 @@
 import { Router } from "express";
+import authRoutes from "./auth.routes.js";
 import productRoutes from "./product.routes.js";
+import categoryRoutes from "./category.routes.js";
 import cartRoutes from "./cart.routes.js";
 import orderRoutes from "./order.routes.js";
+import paymentRoutes from "./payment.routes.js";
+import reviewRoutes from "./review.routes.js";
+import userRoutes from "./user.routes.js";
+import sellerRoutes from "./seller.routes.js";
+import fulfilmentRoutes from "./fulfilment.routes.js";
+import payoutRoutes from "./payout.routes.js";
+import couponRoutes from "./coupon.routes.js";
+import shippingRoutes from "./shipping.routes.js";
+import reportRoutes from "./report.routes.js";
+import wishlistRoutes from "./wishlist.routes.js";
 
 const router = Router();
 
+router.use("/auth", authRoutes);
 router.use("/products", productRoutes);
+router.use("/categories", categoryRoutes);
 router.use("/cart", cartRoutes);
 router.use("/orders", orderRoutes);
+router.use("/payments", paymentRoutes);
+router.use("/reviews", reviewRoutes);
+router.use("/users", userRoutes);
+router.use("/sellers", sellerRoutes);
+router.use("/fulfilments", fulfilmentRoutes);
+router.use("/payouts", payoutRoutes);
+router.use("/coupons", couponRoutes);
+router.use("/shipping", shippingRoutes);
+router.use("/reports", reportRoutes);
+router.use("/wishlist", wishlistRoutes);
 
 export default router;
@@ -4,15 +4,44 @@ import {
   getOrderById,
   createOrder,
   updateOrderStatus,
-  updatePaymentStatus,
+  getOrderTimeline,
+  trackGuestOrder,
+  claimGuestOrders,
+  previewOrder,
 } from "../../controllers/v1/order.controller.js";
+import {
+  authenticate,
+  optionalAuth,
+} from "../../middleware/auth.middleware.js";
+import { authorize } from "../../middleware/permission.middleware.js";
+import { validate } from "../../middleware/validate.middleware.js";
+import { idParams } from "../../schemas/v1/common.schema.js";
+import {
+  previewOrderBody,
+  createOrderBody,
+  updateOrderStatusBody,
+  trackOrderBody,
+  claimOrdersBody,
+} from "../../schemas/v1/order.schema.js";
 
 const router = Router();
 
-router.get("/", getUserOrders);
-router.get("/:id", getOrderById);
-router.post("/", createOrder);
-router.put("/:id", updateOrderStatus);
-router.put("/:id/payment", updatePaymentStatus);
+router.get("/", authenticate, getUserOrders);
+// Guests: order number + email/phone, or tracking token
+router.post("/track", validate({ body: trackOrderBody }), trackGuestOrder);
+router.post("/claim", authenticate, validate({ body: claimOrdersBody }), claimGuestOrders);
+// Prices a cart and coupon without ordering
+router.post("/preview", optionalAuth, validate({ body: previewOrderBody }), previewOrder);
+router.get("/:id", authenticate, validate({ params: idParams }), getOrderById);
+router.get("/:id/timeline", authenticate, validate({ params: idParams }), getOrderTimeline);
+// Guests may check out without a token
+router.post("/", optionalAuth, validate({ body: createOrderBody }), createOrder);
+router.put(
+  "/:id",
+  authenticate,
+  authorize("admin"),
+  validate({ params: idParams, body: updateOrderStatusBody }),
+  updateOrderStatus
+);
 
 export default router;
@@ -0,0 +1,30 @@
+import { Router } from "express";
+import {
+  initiatePayment,
+  handlePaymentWebhook,
+  getOrderPayments,
+} from "../../controllers/v1/payment.controller.js";
+import {
+  authenticate,
+  optionalAuth,
+} from "../../middleware/auth.middleware.js";
+import { validate } from "../../middleware/validate.middleware.js";
+import {
+  initiatePaymentBody,
+  orderPaymentsParams,
+} from "../../schemas/v1/payment.schema.js";
+
+const router = Router();
+
+// Guests pay with their checkout email
+router.post("/initiate", optionalAuth, validate({ body: initiatePaymentBody }), initiatePayment);
+// Authenticated by signature; each provider parses its own payload
+router.post("/webhook/:provider", handlePaymentWebhook);
+router.get(
+  "/order/:orderId",
+  authenticate,
+  validate({ params: orderPaymentsParams }),
+  getOrderPayments
+);
+
+export default router;
@@ -0,0 +1,43 @@
+import { Router } from "express";
+import {
+  getCommissionRates,
+  setCommissionRate,
+  deleteCommissionRate,
+  createPayoutBatch,
+  getPayoutBatches,
+  getPayoutBatch,
+  updatePayout,
+} from "../../controllers/v1/payout.controller.js";
+import { authenticate } from "../../middleware/auth.middleware.js";
+import { authorize } from "../../middleware/permission.middleware.js";
+import { validate } from "../../middleware/validate.middleware.js";
+import { idParams } from "../../schemas/v1/common.schema.js";
+import {
+  setCommissionRateBody,
+  updatePayoutBody,
+} from "../../schemas/v1/payout.schema.js";
+
+const router = Router();
+
+// Commission and payouts are managed by admins; sellers use /sellers/me/balance
+router.use(authenticate, authorize("admin"));
+
+router.get("/commission-rates", getCommissionRates);
+router.put(
+  "/commission-rates",
+  validate({ body: setCommissionRateBody }),
+  setCommissionRate
+);
+router.delete(
+  "/commission-rates/:id",
+  validate({ params: idParams }),
+  deleteCommissionRate
+);
+
+router.post("/batches", createPayoutBatch);
+router.get("/batches", getPayoutBatches);
+router.get("/batches/:id", validate({ params: idParams }), getPayoutBatch);
+
+router.patch("/:id", validate({ params: idParams, body: updatePayoutBody }), updatePayout);
+
+export default router;
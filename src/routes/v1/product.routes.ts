@@ -1,16 +1,42 @@
 import {Router} from 'express';
 import {
     getProducts,
+    searchProducts,
+    suggestProducts,
     getProductById,
     createProduct,
     updateProduct,
     deleteProduct,
+    getProductStock,
+    updateProductStock,
+    getLowStockProducts,
 } from "../../controllers/v1/product.controller.js";
+import { authenticate } from "../../middleware/auth.middleware.js";
+import {
+    authorize,
+    authorizeOwner,
+    productOwner,
+} from "../../middleware/permission.middleware.js";
+import { validate } from "../../middleware/validate.middleware.js";
+import { idParams } from "../../schemas/v1/common.schema.js";
+import {
+    listProductsQuery,
+    searchProductsQuery,
+    suggestProductsQuery,
+    createProductBody,
+    updateProductBody,
+    updateStockBody,
+} from "../../schemas/v1/product.schema.js";
 const router = Router();
-router.get('/product', getProducts);
-router.get('/product/:id', getProductById);
-router.post('/product', createProduct);
-router.patch('/product/:id', updateProduct);
-router.delete('/product/:id', deleteProduct);
+router.get('/product', validate({ query: listProductsQuery }), getProducts);
+router.get('/search', validate({ query: searchProductsQuery }), searchProducts);
+router.get('/suggest', validate({ query: suggestProductsQuery }), suggestProducts);
+router.get('/product/:id', validate({ params: idParams }), getProductById);
+router.post('/product', authenticate, authorize("seller", "admin"), validate({ body: createProductBody }), createProduct);
+router.patch('/product/:id', authenticate, authorizeOwner(productOwner, "Product"), validate({ params: idParams, body: updateProductBody }), updateProduct);
+router.delete('/product/:id', authenticate, authorizeOwner(productOwner, "Product"), validate({ params: idParams }), deleteProduct);
+router.get('/product/:id/stock', validate({ params: idParams }), getProductStock);
+router.put('/product/:id/stock', authenticate, authorizeOwner(productOwner, "Product"), validate({ params: idParams, body: updateStockBody }), updateProductStock);
+router.get('/stock/low', authenticate, authorize("seller", "admin"), getLowStockProducts);
 
 export default router
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { Router } from "express";
+import { getAbandonedCartReport } from "../../controllers/v1/report.controller.js";
+import { authenticate } from "../../middleware/auth.middleware.js";
+import { authorize } from "../../middleware/permission.middleware.js";
+import { validate } from "../../middleware/validate.middleware.js";
+import { reportRangeQuery } from "../../schemas/v1/report.schema.js";
+
+const router = Router();
+
+// Marketplace-wide reports are for admins only
+router.use(authenticate, authorize("admin"));
+
+router.get(
+  "/abandoned-carts",
+  validate({ query: reportRangeQuery }),
+  getAbandonedCartReport
+);
+
+export default router;
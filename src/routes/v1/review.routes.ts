@@ -0,0 +1,45 @@
+import { Router } from "express";
+import {
+  getProductReviews,
+  createReview,
+  updateReview,
+  deleteReview,
+} from "../../controllers/v1/review.controller.js";
+import { authenticate } from "../../middleware/auth.middleware.js";
+import {
+  authorizeOwner,
+  reviewOwner,
+} from "../../middleware/permission.middleware.js";
+import { validate } from "../../middleware/validate.middleware.js";
+import { idParams } from "../../schemas/v1/common.schema.js";
+import {
+  productReviewsParams,
+  productReviewsQuery,
+  createReviewBody,
+  updateReviewBody,
+} from "../../schemas/v1/review.schema.js";
+
+const router = Router();
+
+router.get(
+  "/product/:productId",
+  validate({ params: productReviewsParams, query: productReviewsQuery }),
+  getProductReviews
+);
+router.post("/", authenticate, validate({ body: createReviewBody }), createReview);
+router.patch(
+  "/:id",
+  authenticate,
+  validate({ params: idParams, body: updateReviewBody }),
+  authorizeOwner(reviewOwner, "Review"),
+  updateReview
+);
+router.delete(
+  "/:id",
+  authenticate,
+  validate({ params: idParams }),
+  authorizeOwner(reviewOwner, "Review"),
+  deleteReview
+);
+
+export default router;
@@ -0,0 +1,86 @@
+import { Router } from "express";
+import {
+  applyAsSeller,
+  getMySellerProfile,
+  updateMySellerProfile,
+  getMySellerProducts,
+  getMySellerOrderItems,
+  getMySellerBalance,
+  getMySellerStatement,
+  getSellerApplications,
+  approveSellerApplication,
+  rejectSellerApplication,
+  getStore,
+} from "../../controllers/v1/seller.controller.js";
+import { authenticate } from "../../middleware/auth.middleware.js";
+import { authorize } from "../../middleware/permission.middleware.js";
+import { validate } from "../../middleware/validate.middleware.js";
+import { idParams, pageQuery } from "../../schemas/v1/common.schema.js";
+import {
+  applyAsSellerBody,
+  updateSellerProfileBody,
+  sellerOrderItemsQuery,
+  sellerStatementQuery,
+  sellerApplicationsQuery,
+  rejectApplicationBody,
+  storeParams,
+} from "../../schemas/v1/seller.schema.js";
+
+const router = Router();
+
+router.post("/apply", authenticate, validate({ body: applyAsSellerBody }), applyAsSeller);
+router.get("/me", authenticate, getMySellerProfile);
+router.patch(
+  "/me",
+  authenticate,
+  validate({ body: updateSellerProfileBody }),
+  updateMySellerProfile
+);
+router.get(
+  "/me/products",
+  authenticate,
+  authorize("seller"),
+  validate({ query: pageQuery }),
+  getMySellerProducts
+);
+router.get(
+  "/me/order-items",
+  authenticate,
+  authorize("seller"),
+  validate({ query: sellerOrderItemsQuery }),
+  getMySellerOrderItems
+);
+router.get("/me/balance", authenticate, authorize("seller"), getMySellerBalance);
+router.get(
+  "/me/statement",
+  authenticate,
+  authorize("seller"),
+  validate({ query: sellerStatementQuery }),
+  getMySellerStatement
+);
+
+router.get(
+  "/applications",
+  authenticate,
+  authorize("admin"),
+  validate({ query: sellerApplicationsQuery }),
+  getSellerApplications
+);
+router.post(
+  "/applications/:id/approve",
+  authenticate,
+  authorize("admin"),
+  validate({ params: idParams }),
+  approveSellerApplication
+);
+router.post(
+  "/applications/:id/reject",
+  authenticate,
+  authorize("admin"),
+  validate({ params: idParams, body: rejectApplicationBody }),
+  rejectSellerApplication
+);
+
+router.get("/:slug", validate({ params: storeParams, query: pageQuery }), getStore);
+
+export default router;
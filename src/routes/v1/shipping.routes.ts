@@ -0,0 +1,81 @@
+import { Router } from "express";
+import {
+  getDeliveryZones,
+  createDeliveryZone,
+  updateDeliveryZone,
+  deleteDeliveryZone,
+  getPickupPoints,
+  createPickupPoint,
+  updatePickupPoint,
+  deletePickupPoint,
+  getShippingQuote,
+} from "../../controllers/v1/shipping.controller.js";
+import {
+  authenticate,
+  optionalAuth,
+} from "../../middleware/auth.middleware.js";
+import { authorize } from "../../middleware/permission.middleware.js";
+import { validate } from "../../middleware/validate.middleware.js";
+import { idParams } from "../../schemas/v1/common.schema.js";
+import {
+  createZoneBody,
+  updateZoneBody,
+  zonesQuery,
+  createPickupPointBody,
+  updatePickupPointBody,
+  pickupPointsQuery,
+  shippingQuoteBody,
+} from "../../schemas/v1/shipping.schema.js";
+
+const router = Router();
+
+// Logged-in users may quote to a saved address
+router.post("/quote", optionalAuth, validate({ body: shippingQuoteBody }), getShippingQuote);
+
+router.get("/zones", optionalAuth, validate({ query: zonesQuery }), getDeliveryZones);
+router.post(
+  "/zones",
+  authenticate,
+  authorize("admin"),
+  validate({ body: createZoneBody }),
+  createDeliveryZone
+);
+router.patch(
+  "/zones/:id",
+  authenticate,
+  authorize("admin"),
+  validate({ params: idParams, body: updateZoneBody }),
+  updateDeliveryZone
+);
+router.delete(
+  "/zones/:id",
+  authenticate,
+  authorize("admin"),
+  validate({ params: idParams }),
+  deleteDeliveryZone
+);
+
+router.get("/pickup-points", validate({ query: pickupPointsQuery }), getPickupPoints);
+router.post(
+  "/pickup-points",
+  authenticate,
+  authorize("admin"),
+  validate({ body: createPickupPointBody }),
+  createPickupPoint
+);
+router.patch(
+  "/pickup-points/:id",
+  authenticate,
+  authorize("admin"),
+  validate({ params: idParams, body: updatePickupPointBody }),
+  updatePickupPoint
+);
+router.delete(
+  "/pickup-points/:id",
+  authenticate,
+  authorize("admin"),
+  validate({ params: idParams }),
+  deletePickupPoint
+);
+
+export default router;
@@ -0,0 +1,52 @@
+import { Router } from "express";
+import {
+  getProfile,
+  updateProfile,
+  changePassword,
+  deleteAccount,
+  getAddresses,
+  createAddress,
+  updateAddress,
+  deleteAddress,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from "../../controllers/v1/user.controller.js";
+import { authenticate } from "../../middleware/auth.middleware.js";
+import { validate } from "../../middleware/validate.middleware.js";
+import { idParams } from "../../schemas/v1/common.schema.js";
+import {
+  updateProfileBody,
+  changePasswordBody,
+  deleteAccountBody,
+  createAddressBody,
+  updateAddressBody,
+  updateNotificationPreferencesBody,
+} from "../../schemas/v1/user.schema.js";
+
+const router = Router();
+
+// Every user route acts on the logged-in user's own account
+router.use(authenticate);
+
+router.get("/me", getProfile);
+router.patch("/me", validate({ body: updateProfileBody }), updateProfile);
+router.put("/me/password", validate({ body: changePasswordBody }), changePassword);
+router.delete("/me", validate({ body: deleteAccountBody }), deleteAccount);
+
+router.get("/me/addresses", getAddresses);
+router.post("/me/addresses", validate({ body: createAddressBody }), createAddress);
+router.patch(
+  "/me/addresses/:id",
+  validate({ params: idParams, body: updateAddressBody }),
+  updateAddress
+);
+router.delete("/me/addresses/:id", validate({ params: idParams }), deleteAddress);
+
+router.get("/me/notification-preferences", getNotificationPreferences);
+router.patch(
+  "/me/notification-preferences",
+  validate({ body: updateNotificationPreferencesBody }),
+  updateNotificationPreferences
+);
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router } from "express";
+import {
+  getWishlist,
+  addWishlistItem,
+  updateWishlistItem,
+  removeWishlistItem,
+  moveToCart,
+} from "../../controllers/v1/wishlist.controller.js";
+import { authenticate } from "../../middleware/auth.middleware.js";
+import { validate } from "../../middleware/validate.middleware.js";
+import { idParams } from "../../schemas/v1/common.schema.js";
+import {
+  addWishlistItemBody,
+  moveToCartBody,
+  updateWishlistItemBody,
+} from "../../schemas/v1/wishlist.schema.js";
+
+const router = Router();
+
+// The wishlist belongs to the logged-in user's account
+router.use(authenticate);
+
+router.get("/", getWishlist);
+router.post("/items", validate({ body: addWishlistItemBody }), addWishlistItem);
+router.patch(
+  "/items/:id",
+  validate({ params: idParams, body: updateWishlistItemBody }),
+  updateWishlistItem
+);
+router.delete("/items/:id", validate({ params: idParams }), removeWishlistItem);
+router.post(
+  "/items/:id/move-to-cart",
+  validate({ params: idParams, body: moveToCartBody }),
+  moveToCart
+);
+
+export default router;
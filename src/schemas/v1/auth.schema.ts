@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { email, nonEmptyString } from "./common.schema.js";
+import { MIN_PASSWORD_LENGTH } from "../../utils/password.js";
+
+export const password = z
+  .string()
+  .min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+
+export const registerBody = z.object({
+  name: nonEmptyString(255),
+  email,
+  password,
+  phone: z.string().trim().max(20).nullable().optional(),
+});
+export type RegisterBody = z.infer<typeof registerBody>;
+
+export const loginBody = z.object({
+  email,
+  password: z.string().min(1, "Required"),
+});
+export type LoginBody = z.infer<typeof loginBody>;
+
+export const refreshTokenBody = z.object({
+  refreshToken: z.string().min(1, "Required"),
+});
+export type RefreshTokenBody = z.infer<typeof refreshTokenBody>;
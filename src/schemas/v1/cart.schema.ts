@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { id, nonEmptyString } from "./common.schema.js";
+import { MAX_LINE_QUANTITY } from "../../services/cart.service.js";
+
+export const lineQuantity = z
+  .number()
+  .int("Must be a whole number of at least 1")
+  .min(1, "Must be a whole number of at least 1")
+  .max(MAX_LINE_QUANTITY, `Must be at most ${MAX_LINE_QUANTITY}`);
+
+// { productId: { size: quantity } }, the shape the storefront keeps in localStorage
+// A quantity of 0 marks a line the storefront has emptied
+export const cartBody = z.object({
+  cartItems: z.record(
+    z.string(),
+    z.record(z.string(), z.union([z.literal(0), lineQuantity]))
+  ),
+});
+export type CartBody = z.infer<typeof cartBody>;
+
+// size can be left out for products that come in one size
+export const addCartItemBody = z.object({
+  productId: id,
+  size: nonEmptyString(50).optional(),
+  quantity: lineQuantity.default(1),
+});
+export type AddCartItemBody = z.infer<typeof addCartItemBody>;
+
+export const updateCartItemBody = z.object({ quantity: lineQuantity });
+export type UpdateCartItemBody = z.infer<typeof updateCartItemBody>;
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { id, idString, nonEmptyString, optionalText } from "./common.schema.js";
+
+export const listCategoriesQuery = z.object({
+  parentId: z.union([z.literal("root"), idString]).optional(),
+});
+
+export const categoryParams = z.object({
+  idOrSlug: nonEmptyString(255),
+});
+
+export const createCategoryBody = z.object({
+  name: nonEmptyString(255),
+  description: optionalText(5000),
+  parentId: id.nullable().optional(),
+  slug: optionalText(255),
+});
+export type CreateCategoryBody = z.infer<typeof createCategoryBody>;
+
+export const updateCategoryBody = z.object({
+  name: nonEmptyString(255).optional(),
+  description: optionalText(5000),
+  parentId: id.nullable().optional(), // null moves it to the top level
+  slug: nonEmptyString(255).optional(),
+});
+export type UpdateCategoryBody = z.infer<typeof updateCategoryBody>;
@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { validateAddress } from "../../utils/address.js";
+import { isGhanaPhone } from "../../utils/phone.js";
+
+// Path and query values arrive as strings; controllers still parse them with parseInt
+export const idString = z
+  .string()
+  .regex(/^[1-9]\d*$/, "Must be a positive whole number");
+
+export const idParams = z.object({ id: idString });
+
+export const pageQuery = z.object({
+  page: idString.optional(),
+  limit: idString.optional(),
+});
+
+export const flagQuery = z.enum(["true", "false"]);
+
+export const dateQuery = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), "Must be a valid date");
+
+// Body values: JSON numbers, or numeric strings from form posts
+// Blank strings are left as they are rather than read as 0
+const numeric = <T extends z.ZodType>(schema: T) =>
+  z.preprocess(
+    (value) => (typeof value === "string" && value.trim() !== "" ? Number(value) : value),
+    schema
+  );
+
+const number = (message: string) =>
+  z.number({ error: (issue) => (issue.input === undefined ? "Required" : message) });
+
+export const id = numeric(
+  number("Must be a positive whole number")
+    .int("Must be a positive whole number")
+    .positive("Must be a positive whole number")
+);
+
+export const amount = numeric(
+  number("Must be a positive amount").nonnegative("Must be a positive amount")
+);
+
+export const wholeNumber = numeric(
+  number("Must be a whole number")
+    .int("Must be a whole number")
+    .nonnegative("Must be a whole number")
+);
+
+export const nonEmptyString = (max: number) =>
+  z.string().trim().min(1, "Cannot be empty").max(max, `Must be at most ${max} characters`);
+
+export const optionalText = (max: number) =>
+  z.string().trim().max(max, `Must be at most ${max} characters`).nullable().optional();
+
+export const email = z.string().trim().toLowerCase().pipe(z.email("Must be a valid email"));
+
+export const ghanaPhone = z
+  .string()
+  .refine(isGhanaPhone, "Must be a Ghana phone number, e.g. 0241234567");
+
+export const bool = z.union([z.boolean(), z.enum(["true", "false"]).transform((value) => value === "true")]);
+
+export const addressShape = {
+  homeAddress: z.string().optional(),
+  city: z.string().optional(),
+  regionOrState: z.string().optional(),
+  country: z.string().optional(),
+  digitalAddress: z.string().nullable().optional(),
+  landmark: z.string().nullable().optional(),
+};
+
+// Check a Ghana address field by field, reporting each problem under its field
+export const checkAddress = (input: Record<string, unknown>, ctx: z.RefinementCtx) => {
+  const validated = validateAddress(input);
+  if (validated.errors === undefined) return validated.address;
+
+  for (const error of validated.errors) {
+    ctx.addIssue({ code: "custom", message: error.message, path: [error.field] });
+  }
+  return z.NEVER;
+};
+
+// Parses to the stored ShippingAddress shape
+export const address = z.object(addressShape).transform(checkAddress);
+
+// Carts: { productId: { size: quantity } }; each line is checked against its product
+// by the controller so problems can be reported per line
+export const cartItems = z.record(z.string(), z.unknown());
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { amount, bool, flagQuery, id, optionalText } from "./common.schema.js";
+import {
+  COUPON_TYPES,
+  normalizeCouponCode,
+} from "../../services/coupon.service.js";
+
+const COUPON_CODE_REGEX = /^[A-Z0-9_-]{3,50}$/;
+
+// Blank form fields clear optional limits
+const clearable = <T extends z.ZodType>(schema: T) =>
+  z.preprocess((value) => (value === "" ? null : value), schema.nullable());
+
+// Fields a coupon owner may set; usage counts and ownership are managed by the server
+const couponFields = {
+  description: optionalText(1000),
+  type: z.enum(COUPON_TYPES),
+  value: amount,
+  maxDiscountAmount: clearable(amount),
+  minOrderAmount: clearable(amount),
+  categoryId: clearable(id),
+  usageLimit: clearable(id),
+  perUserLimit: clearable(id),
+  startsAt: clearable(z.coerce.date("Must be a valid date")),
+  expiresAt: clearable(z.coerce.date("Must be a valid date")),
+  isActive: bool,
+};
+
+export const couponsQuery = z.object({
+  active: flagQuery.optional(),
+});
+
+export const createCouponBody = z
+  .object(couponFields)
+  .partial()
+  .extend({
+    code: z
+      .string()
+      .transform(normalizeCouponCode)
+      .pipe(
+        z
+          .string()
+          .regex(
+            COUPON_CODE_REGEX,
+            "Code must be 3-50 characters of letters, numbers, dashes or underscores"
+          )
+      ),
+    type: couponFields.type,
+    sellerId: id.nullable().optional(), // Admins only
+  });
+export type CreateCouponBody = z.infer<typeof createCouponBody>;
+
+// The code is fixed once created, since customers may already have it
+export const updateCouponBody = z.object(couponFields).partial();
+export type UpdateCouponBody = z.infer<typeof updateCouponBody>;
@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { optionalText, pageQuery } from "./common.schema.js";
+import { ORDER_STATUSES } from "../../services/orderStatus.service.js";
+
+export const listFulfilmentsQuery = pageQuery.extend({
+  status: z.enum(ORDER_STATUSES).optional(),
+});
+
+export const updateFulfilmentBody = z.object({
+  status: z.enum(ORDER_STATUSES).optional(),
+  trackingNumber: optionalText(100),
+  carrier: optionalText(100),
+  note: optionalText(500),
+});
+export type UpdateFulfilmentBody = z.infer<typeof updateFulfilmentBody>;
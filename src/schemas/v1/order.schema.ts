@@ -0,0 +1,67 @@
+import { z } from "zod";
+import {
+  address,
+  addressShape,
+  cartItems,
+  email,
+  ghanaPhone,
+  id,
+  nonEmptyString,
+  optionalText,
+} from "./common.schema.js";
+import { ORDER_STATUSES } from "../../services/orderStatus.service.js";
+import { DELIVERY_METHODS } from "../../services/shipping.service.js";
+
+const guestInfo = z.object({
+  name: nonEmptyString(255),
+  email,
+  phone: ghanaPhone,
+});
+
+const checkoutFields = {
+  cartItems,
+  couponCode: z.string().trim().max(50).optional(),
+  addressId: id.optional(),
+  deliveryMethod: z.enum(DELIVERY_METHODS).optional(),
+  pickupPointId: id.optional(),
+};
+
+// A preview reports address problems alongside the prices, so the address is
+// only shaped here and checked by the controller
+export const previewOrderBody = z.object({
+  ...checkoutFields,
+  guestInfo: guestInfo.partial().optional(),
+  shippingAddress: z.object(addressShape).optional(),
+});
+export type PreviewOrderBody = z.infer<typeof previewOrderBody>;
+
+export const createOrderBody = z.object({
+  ...checkoutFields,
+  guestInfo: guestInfo.optional(),
+  shippingAddress: address.optional(),
+});
+export type CreateOrderBody = z.infer<typeof createOrderBody>;
+
+export const updateOrderStatusBody = z.object({
+  status: z.enum(ORDER_STATUSES),
+  note: optionalText(500),
+});
+export type UpdateOrderStatusBody = z.infer<typeof updateOrderStatusBody>;
+
+export const trackOrderBody = z
+  .object({
+    orderNumber: z.string().trim().toUpperCase().max(50).optional(),
+    email: email.optional(),
+    phone: z.string().trim().max(20).optional(),
+    trackingToken: z.string().min(1).optional(),
+  })
+  .refine(
+    (body) => body.trackingToken || (body.orderNumber && (body.email || body.phone)),
+    "Order number and the email or phone used at checkout are required"
+  );
+export type TrackOrderBody = z.infer<typeof trackOrderBody>;
+
+export const claimOrdersBody = z.object({
+  phone: z.string().trim().min(1, "The phone number used at checkout is required"),
+});
+export type ClaimOrdersBody = z.infer<typeof claimOrdersBody>;
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { email, ghanaPhone, id, idString } from "./common.schema.js";
+import {
+  MOBILE_MONEY_METHODS,
+  PAYMENT_METHODS,
+} from "../../services/payments/index.js";
+
+export const initiatePaymentBody = z
+  .object({
+    orderId: id,
+    method: z.enum(PAYMENT_METHODS),
+    phone: ghanaPhone.optional(),
+    email: email.optional(), // Guests confirm the email used at checkout
+  })
+  .superRefine((body, ctx) => {
+    if (MOBILE_MONEY_METHODS.includes(body.method) && !body.phone) {
+      ctx.addIssue({
+        code: "custom",
+        message: "A valid Ghana mobile money number is required",
+        path: ["phone"],
+      });
+    }
+  });
+export type InitiatePaymentBody = z.infer<typeof initiatePaymentBody>;
+
+export const orderPaymentsParams = z.object({ orderId: idString });
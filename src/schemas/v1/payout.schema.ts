@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { id, optionalText } from "./common.schema.js";
+import { isValidCommissionRate } from "../../services/ledger.service.js";
+
+// Rate as a fraction (0.12 = 12%)
+export const setCommissionRateBody = z
+  .object({
+    categoryId: id.optional(),
+    sellerId: id.optional(),
+    rate: z
+      .union([z.number(), z.string()])
+      .refine(isValidCommissionRate, "Rate must be a fraction between 0 and 1, e.g. 0.12 for 12%")
+      .transform(Number),
+  })
+  .refine(
+    (body) => (body.categoryId === undefined) !== (body.sellerId === undefined),
+    "Provide either categoryId or sellerId"
+  );
+export type SetCommissionRateBody = z.infer<typeof setCommissionRateBody>;
+
+export const updatePayoutBody = z
+  .object({
+    status: z.enum(["paid", "failed"]),
+    providerReference: optionalText(255),
+    failureReason: optionalText(5000),
+  })
+  .refine((body) => body.status !== "failed" || body.failureReason, {
+    message: "A failure reason is required",
+    path: ["failureReason"],
+  });
+export type UpdatePayoutBody = z.infer<typeof updatePayoutBody>;
@@ -0,0 +1,77 @@
+import { z } from "zod";
+import {
+  bool,
+  flagQuery,
+  id,
+  idString,
+  nonEmptyString,
+  pageQuery,
+  wholeNumber,
+} from "./common.schema.js";
+
+const priceQuery = z
+  .string()
+  .refine((value) => value === "" || Number(value) >= 0, "Must be a positive number");
+
+export const listProductsQuery = pageQuery.extend({
+  search: z.string().optional(),
+  sort: z.string().optional(),
+  category: z.string().optional(),
+  categoryId: idString.optional(),
+  subCategory: z.string().optional(),
+  subCategoryId: idString.optional(),
+  size: z.string().optional(), // Comma separated, e.g. S,M
+  minPrice: priceQuery.optional(),
+  maxPrice: priceQuery.optional(),
+  inStock: flagQuery.optional(),
+  bestSeller: flagQuery.optional(),
+  facets: flagQuery.optional(),
+});
+
+export const searchProductsQuery = listProductsQuery.extend({
+  q: z.string().trim().min(1, "Search term is required"),
+});
+
+export const suggestProductsQuery = z.object({
+  q: z.string().optional(),
+});
+
+// { size: quantity }; sizes are checked against the product's sizes by the controller
+export const stockLevels = z.record(z.string(), z.number().int().nonnegative("Must be a whole number of 0 or more"));
+
+const productFields = {
+  name: nonEmptyString(255),
+  description: nonEmptyString(10000),
+  price: z.coerce.number().positive("Must be greater than 0"),
+  images: z.array(z.string().trim().min(1)),
+  categoryId: id,
+  subCategoryId: id.nullable(),
+  sizes: z.array(nonEmptyString(50)),
+  lowStockThreshold: wholeNumber,
+  bestSeller: bool,
+  sellerId: id.nullable(), // Honoured for admins only
+  weightKg: z.coerce.number().positive("Must be a positive number of kilograms").max(99999).nullable(),
+};
+
+export const createProductBody = z.object({
+  ...productFields,
+  images: productFields.images.optional(),
+  subCategoryId: productFields.subCategoryId.optional(),
+  sizes: productFields.sizes.optional(),
+  lowStockThreshold: productFields.lowStockThreshold.optional(),
+  bestSeller: productFields.bestSeller.optional(),
+  sellerId: productFields.sellerId.optional(),
+  weightKg: productFields.weightKg.optional(),
+  stock: stockLevels.optional(),
+});
+export type CreateProductBody = z.infer<typeof createProductBody>;
+
+// Ratings, stock status and category names are maintained by the server
+export const updateProductBody = z.object(productFields).partial();
+export type UpdateProductBody = z.infer<typeof updateProductBody>;
+
+export const updateStockBody = z.object({
+  stock: stockLevels,
+  lowStockThreshold: wholeNumber.optional(),
+});
+export type UpdateStockBody = z.infer<typeof updateStockBody>;
@@ -0,0 +1,7 @@
+import { z } from "zod";
+import { dateQuery } from "./common.schema.js";
+
+export const reportRangeQuery = z.object({
+  from: dateQuery.optional(),
+  to: dateQuery.optional(),
+});
@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { id, idString, optionalText, pageQuery } from "./common.schema.js";
+
+const rating = z
+  .number()
+  .int("Rating must be a whole number from 1 to 5")
+  .min(1, "Rating must be a whole number from 1 to 5")
+  .max(5, "Rating must be a whole number from 1 to 5");
+
+export const productReviewsParams = z.object({ productId: idString });
+
+export const productReviewsQuery = pageQuery.extend({
+  sort: z.enum(["newest", "highest", "lowest"]).optional(),
+});
+
+export const createReviewBody = z.object({
+  productId: id,
+  rating,
+  comment: optionalText(5000),
+});
+export type CreateReviewBody = z.infer<typeof createReviewBody>;
+
+export const updateReviewBody = z.object({
+  rating: rating.optional(),
+  comment: optionalText(5000),
+});
+export type UpdateReviewBody = z.infer<typeof updateReviewBody>;
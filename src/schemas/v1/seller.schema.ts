@@ -0,0 +1,94 @@
+import { z } from "zod";
+import {
+  dateQuery,
+  ghanaPhone,
+  nonEmptyString,
+  optionalText,
+  pageQuery,
+} from "./common.schema.js";
+import { MOBILE_MONEY_METHODS } from "../../services/payments/index.js";
+import { ORDER_STATUSES } from "../../services/orderStatus.service.js";
+
+export const SELLER_STATUSES = ["pending", "approved", "rejected"] as const;
+
+// Ghana Card personal ID number, e.g. GHA-123456789-0
+const GHANA_CARD_REGEX = /^GHA-\d{9}-\d$/;
+
+// Registrar-General numbers, e.g. CS123456789 or BN123456789
+const BUSINESS_REGISTRATION_REGEX = /^[A-Z0-9-]{5,50}$/;
+
+// Blank ID numbers count as not given
+const idNumber = (regex: RegExp, message: string) =>
+  z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine((value) => !value || regex.test(value), message)
+    .transform((value) => value || null)
+    .nullable()
+    .optional();
+
+const payoutMomoNumber = ghanaPhone.transform((phone) => phone.replace(/\s/g, ""));
+
+const payoutMomoProvider = z.enum(MOBILE_MONEY_METHODS, {
+  error: `Payout provider must be one of: ${MOBILE_MONEY_METHODS.join(", ")}`,
+});
+
+export const applyAsSellerBody = z
+  .object({
+    businessName: nonEmptyString(255),
+    description: optionalText(5000),
+    ghanaCardNumber: idNumber(
+      GHANA_CARD_REGEX,
+      "Ghana Card number must look like GHA-123456789-0"
+    ),
+    businessRegistrationNumber: idNumber(
+      BUSINESS_REGISTRATION_REGEX,
+      "Invalid business registration number"
+    ),
+    payoutMomoNumber,
+    payoutMomoProvider,
+  })
+  .refine((body) => body.ghanaCardNumber || body.businessRegistrationNumber, {
+    message: "A Ghana Card number or business registration number is required",
+    path: ["ghanaCardNumber"],
+  });
+export type ApplyAsSellerBody = z.infer<typeof applyAsSellerBody>;
+
+// Changing where payouts go needs the account password, so a stolen session
+// can't redirect the next payout batch
+export const updateSellerProfileBody = z
+  .object({
+    businessName: nonEmptyString(255).optional(),
+    description: optionalText(5000),
+    payoutMomoNumber: payoutMomoNumber.optional(),
+    payoutMomoProvider: payoutMomoProvider.optional(),
+    password: z.string().min(1, "Required").optional(),
+  })
+  .refine(
+    (body) =>
+      body.password !== undefined ||
+      (body.payoutMomoNumber === undefined && body.payoutMomoProvider === undefined),
+    { message: "Password is required to change payout details", path: ["password"] }
+  );
+export type UpdateSellerProfileBody = z.infer<typeof updateSellerProfileBody>;
+
+export const sellerOrderItemsQuery = pageQuery.extend({
+  status: z.enum(ORDER_STATUSES).optional(),
+});
+
+export const sellerStatementQuery = pageQuery.extend({
+  from: dateQuery.optional(),
+  to: dateQuery.optional(),
+});
+
+export const sellerApplicationsQuery = z.object({
+  status: z.enum(SELLER_STATUSES).optional(),
+});
+
+export const rejectApplicationBody = z.object({
+  reason: nonEmptyString(5000),
+});
+export type RejectApplicationBody = z.infer<typeof rejectApplicationBody>;
+
+export const storeParams = z.object({ slug: nonEmptyString(255) });
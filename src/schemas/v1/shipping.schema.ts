@@ -0,0 +1,108 @@
+import { z } from "zod";
+import {
+  address,
+  amount,
+  bool,
+  cartItems,
+  flagQuery,
+  id,
+  idString,
+  nonEmptyString,
+  optionalText,
+  wholeNumber,
+} from "./common.schema.js";
+import { DELIVERY_METHODS, RATE_TYPES } from "../../services/shipping.service.js";
+import { GHANA_REGIONS, toGhanaRegion } from "../../utils/address.js";
+
+// Accepts "ashanti", "Ashanti Region", etc. and returns the canonical name
+const ghanaRegion = z.string().transform((region, ctx) => {
+  const canonical = toGhanaRegion(region);
+  if (!canonical) {
+    ctx.addIssue({
+      code: "custom",
+      message: `Must be one of: ${GHANA_REGIONS.join(", ")}`,
+    });
+    return z.NEVER;
+  }
+  return canonical;
+});
+
+const deliveryWindow = (body: {
+  etaMinDays?: number | undefined;
+  etaMaxDays?: number | undefined;
+}) =>
+  body.etaMinDays === undefined ||
+  body.etaMaxDays === undefined ||
+  body.etaMaxDays >= body.etaMinDays;
+
+const deliveryWindowError = {
+  message: "etaMaxDays must not be less than etaMinDays",
+  path: ["etaMaxDays"],
+};
+
+const zoneFields = {
+  name: nonEmptyString(100),
+  regions: z.array(ghanaRegion).min(1, "At least one region is required"),
+  rateType: z.enum(RATE_TYPES),
+  baseFee: amount,
+  perUnitFee: amount,
+  includedUnits: wholeNumber,
+  etaMinDays: wholeNumber,
+  etaMaxDays: wholeNumber,
+  isActive: bool,
+};
+
+export const createZoneBody = z
+  .object(zoneFields)
+  .partial({ rateType: true, perUnitFee: true, includedUnits: true, isActive: true })
+  .refine(deliveryWindow, deliveryWindowError);
+export type CreateZoneBody = z.infer<typeof createZoneBody>;
+
+// The delivery window is checked against the stored zone by the controller
+export const updateZoneBody = z
+  .object(zoneFields)
+  .partial()
+  .refine(deliveryWindow, deliveryWindowError);
+export type UpdateZoneBody = z.infer<typeof updateZoneBody>;
+
+export const zonesQuery = z.object({
+  all: flagQuery.optional(), // Admins only
+});
+
+const pickupPointFields = {
+  zoneId: id,
+  name: nonEmptyString(150),
+  address: nonEmptyString(255),
+  city: nonEmptyString(100),
+  openingHours: optionalText(255),
+  fee: amount,
+  etaMinDays: wholeNumber,
+  etaMaxDays: wholeNumber,
+  isActive: bool,
+};
+
+export const createPickupPointBody = z
+  .object(pickupPointFields)
+  .partial({ openingHours: true, fee: true, isActive: true })
+  .refine(deliveryWindow, deliveryWindowError);
+export type CreatePickupPointBody = z.infer<typeof createPickupPointBody>;
+
+export const updatePickupPointBody = z
+  .object(pickupPointFields)
+  .partial()
+  .refine(deliveryWindow, deliveryWindowError);
+export type UpdatePickupPointBody = z.infer<typeof updatePickupPointBody>;
+
+export const pickupPointsQuery = z.object({
+  region: z.string().optional(),
+  zoneId: idString.optional(),
+});
+
+export const shippingQuoteBody = z.object({
+  cartItems,
+  shippingAddress: address.optional(),
+  addressId: id.optional(),
+  deliveryMethod: z.enum(DELIVERY_METHODS).optional(),
+  pickupPointId: id.optional(),
+});
+export type ShippingQuoteBody = z.infer<typeof shippingQuoteBody>;
@@ -0,0 +1,58 @@
+import { z } from "zod";
+import {
+  addressShape,
+  bool,
+  checkAddress,
+  nonEmptyString,
+  optionalText,
+} from "./common.schema.js";
+import { password } from "./auth.schema.js";
+import { NOTIFICATION_LANGUAGES } from "../../services/notifications/index.js";
+
+export const updateProfileBody = z
+  .object({
+    name: nonEmptyString(255).optional(),
+    phone: z.string().trim().max(20).nullable().optional(),
+  })
+  .refine((body) => body.name !== undefined || body.phone !== undefined, "Nothing to update");
+export type UpdateProfileBody = z.infer<typeof updateProfileBody>;
+
+export const changePasswordBody = z.object({
+  currentPassword: z.string().min(1, "Required"),
+  newPassword: password,
+});
+export type ChangePasswordBody = z.infer<typeof changePasswordBody>;
+
+export const deleteAccountBody = z.object({
+  password: z.string().min(1, "Password is required to delete your account"),
+});
+export type DeleteAccountBody = z.infer<typeof deleteAccountBody>;
+
+const addressExtras = {
+  label: optionalText(100),
+  isDefault: bool.optional(),
+};
+
+export const createAddressBody = z
+  .object({ ...addressShape, ...addressExtras })
+  .transform(({ label, isDefault, ...fields }, ctx) => ({
+    ...checkAddress(fields, ctx),
+    label,
+    isDefault,
+  }));
+export type CreateAddressBody = z.infer<typeof createAddressBody>;
+
+// Only the fields being changed; the merged address is checked by the controller
+export const updateAddressBody = z.object({ ...addressShape, ...addressExtras });
+export type UpdateAddressBody = z.infer<typeof updateAddressBody>;
+
+export const updateNotificationPreferencesBody = z
+  .object({
+    language: z.enum(NOTIFICATION_LANGUAGES).optional(),
+    emailEnabled: bool.optional(),
+    smsEnabled: bool.optional(),
+    orderUpdates: bool.optional(),
+    cartReminders: bool.optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), "Nothing to update");
+export type UpdateNotificationPreferencesBody = z.infer<typeof updateNotificationPreferencesBody>;
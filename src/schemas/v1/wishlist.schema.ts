@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { bool, id, nonEmptyString } from "./common.schema.js";
+import { lineQuantity } from "./cart.schema.js";
+
+const alerts = {
+  alertPriceDrop: bool.optional(),
+  alertBackInStock: bool.optional(),
+};
+
+// size can be left out for products that come in one size
+export const addWishlistItemBody = z.object({
+  productId: id,
+  size: nonEmptyString(50).optional(),
+  ...alerts,
+});
+export type AddWishlistItemBody = z.infer<typeof addWishlistItemBody>;
+
+export const updateWishlistItemBody = z
+  .object(alerts)
+  .refine(
+    (body) => body.alertPriceDrop !== undefined || body.alertBackInStock !== undefined,
+    "Nothing to update"
+  );
+export type UpdateWishlistItemBody = z.infer<typeof updateWishlistItemBody>;
+
+export const moveToCartBody = z.object({ quantity: lineQuantity.default(1) });
+export type MoveToCartBody = z.infer<typeof moveToCartBody>;
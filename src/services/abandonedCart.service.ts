@@ -0,0 +1,218 @@
+import { and, count, desc, eq, gte, isNull, lt, lte, sql, sum } from "drizzle-orm";
+import { abandonedCarts, cart, orders, products, users } from "../db/schema.js";
+import { db } from "../db/index.js";
+import type { DbExecutor } from "../db/index.js";
+import { formatPesewas, toPesewas } from "../utils/money.js";
+import { STOREFRONT_URL, notify } from "./notification.service.js";
+import type { CartOwner } from "./cart.service.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// A cart counts as abandoned once it has gone this long without a change
+export const ABANDONED_CART_IDLE_HOURS = parseFloat(
+  process.env.ABANDONED_CART_IDLE_HOURS || "24"
+);
+
+// Carts idle for longer than this are left alone, so switching detection on
+// doesn't remind everyone about carts from months ago
+const ABANDONED_CART_MAX_IDLE_DAYS = parseFloat(
+  process.env.ABANDONED_CART_MAX_IDLE_DAYS || "7"
+);
+
+// An order placed within this many days of detection recovers the cart
+const ABANDONED_CART_RECOVERY_DAYS = parseFloat(
+  process.env.ABANDONED_CART_RECOVERY_DAYS || "7"
+);
+
+const ownerCondition = (owner: CartOwner) =>
+  "userId" in owner
+    ? eq(abandonedCarts.userId, owner.userId)
+    : eq(abandonedCarts.guestCartId, owner.guestCartId);
+
+// Queue the reminder for a user's abandoned cart, as their preferences allow
+// Returns whether anything was queued
+const remindUser = async (
+  executor: DbExecutor,
+  userId: number,
+  itemCount: number,
+  cartValue: string
+) => {
+  const user = await executor
+    .select({ name: users.name, email: users.email, phone: users.phone })
+    .from(users)
+    .where(and(eq(users.id, userId), isNull(users.deletedAt)))
+    .limit(1);
+
+  if (!user[0]) return false;
+
+  const queued = await notify(executor, { userId, ...user[0] }, "cart_reminder", {
+    name: user[0].name,
+    itemCount,
+    cartValue,
+    cartUrl: `${STOREFRONT_URL}/cart`,
+  });
+
+  return queued > 0;
+};
+
+// Record carts that have gone idle since the last run and queue reminders
+// Each idle spell is recorded once; a cart that changes and goes idle again is a new one
+// Guest carts are recorded for the report but can't be reminded
+export const detectAbandonedCarts = async (now = new Date()) => {
+  const idleSince = new Date(now.getTime() - ABANDONED_CART_IDLE_HOURS * HOUR_MS);
+  const staleSince = new Date(now.getTime() - ABANDONED_CART_MAX_IDLE_DAYS * DAY_MS);
+
+  const lastActivity = sql`max(coalesce(${cart.updatedAt}, ${cart.createdAt}))`;
+  const idleCarts = await db
+    .select({
+      userId: cart.userId,
+      guestCartId: cart.guestCartId,
+      lastActivityAt: lastActivity.mapWith(cart.updatedAt),
+      itemCount: sql<number>`sum(${cart.quantity})`.mapWith(Number),
+      cartValue: sql<string>`sum(${cart.quantity} * ${products.price})`,
+    })
+    .from(cart)
+    .innerJoin(products, eq(cart.productId, products.id))
+    .groupBy(cart.userId, cart.guestCartId)
+    .having(
+      // Bound through the column so the dates are encoded like stored timestamps
+      and(
+        lt(lastActivity, sql.param(idleSince, cart.updatedAt)),
+        gte(lastActivity, sql.param(staleSince, cart.updatedAt))
+      )
+    );
+
+  if (!idleCarts.length) return 0;
+
+  // Spells already recorded started after staleSince too
+  const recorded = await db
+    .select({
+      userId: abandonedCarts.userId,
+      guestCartId: abandonedCarts.guestCartId,
+      lastActivityAt: abandonedCarts.lastActivityAt,
+    })
+    .from(abandonedCarts)
+    .where(gte(abandonedCarts.lastActivityAt, staleSince));
+
+  const isRecorded = (idle: (typeof idleCarts)[number]) =>
+    recorded.some(
+      (spell) =>
+        spell.userId === idle.userId &&
+        spell.guestCartId === idle.guestCartId &&
+        spell.lastActivityAt >= idle.lastActivityAt
+    );
+
+  let detected = 0;
+  for (const idle of idleCarts) {
+    if (isRecorded(idle)) continue;
+
+    const cartValue = formatPesewas(toPesewas(idle.cartValue));
+
+    await db.transaction(async (tx) => {
+      const reminded = idle.userId
+        ? await remindUser(tx, idle.userId, idle.itemCount, cartValue)
+        : false;
+
+      await tx.insert(abandonedCarts).values({
+        userId: idle.userId,
+        guestCartId: idle.guestCartId,
+        itemCount: idle.itemCount,
+        cartValue,
+        lastActivityAt: idle.lastActivityAt,
+        detectedAt: now,
+        remindedAt: reminded ? now : null,
+      });
+    });
+    detected += 1;
+  }
+
+  return detected;
+};
+
+// Mark the owner's latest open abandoned cart as recovered by an order
+// Call from checkout in the order's transaction
+export const recordCartRecovery = async (
+  executor: DbExecutor,
+  owner: CartOwner,
+  order: { id: number; totalAmount: string }
+) => {
+  const since = new Date(Date.now() - ABANDONED_CART_RECOVERY_DAYS * DAY_MS);
+
+  const open = await executor
+    .select({ id: abandonedCarts.id })
+    .from(abandonedCarts)
+    .where(
+      and(
+        ownerCondition(owner),
+        isNull(abandonedCarts.recoveredOrderId),
+        gte(abandonedCarts.detectedAt, since)
+      )
+    )
+    .orderBy(desc(abandonedCarts.detectedAt))
+    .limit(1);
+
+  if (!open[0]) return;
+
+  await executor
+    .update(abandonedCarts)
+    .set({
+      recoveredOrderId: order.id,
+      recoveredAmount: order.totalAmount,
+      recoveredAt: new Date(),
+    })
+    .where(eq(abandonedCarts.id, open[0].id));
+};
+
+const rate = (part: number, whole: number) =>
+  whole ? Math.round((part / whole) * 10000) / 10000 : 0;
+
+// Abandonment and recovery for carts detected (and orders placed) in a date range
+// abandonmentRate: carts left unrecovered out of all carts that either became an
+// order or were left. recoveryRate: recovered out of abandoned
+export const getAbandonedCartReport = async (from: Date | null, to: Date | null) => {
+  const [spells, placed] = await Promise.all([
+    db
+      .select({
+        abandoned: count(),
+        reminded: count(abandonedCarts.remindedAt),
+        recovered: count(abandonedCarts.recoveredOrderId),
+        abandonedValue: sum(abandonedCarts.cartValue),
+        recoveredRevenue: sum(abandonedCarts.recoveredAmount),
+      })
+      .from(abandonedCarts)
+      .where(
+        and(
+          from ? gte(abandonedCarts.detectedAt, from) : undefined,
+          to ? lte(abandonedCarts.detectedAt, to) : undefined
+        )
+      ),
+    db
+      .select({ orders: count() })
+      .from(orders)
+      .where(
+        and(
+          from ? gte(orders.createdAt, from) : undefined,
+          to ? lte(orders.createdAt, to) : undefined
+        )
+      ),
+  ]);
+
+  const { abandoned, reminded, recovered, abandonedValue, recoveredRevenue } = spells[0]!;
+  const ordersPlaced = placed[0]!.orders;
+  const unrecovered = abandoned - recovered;
+
+  return {
+    from,
+    to,
+    idleHours: ABANDONED_CART_IDLE_HOURS,
+    abandonedCarts: abandoned,
+    remindersSent: reminded,
+    recoveredCarts: recovered,
+    ordersPlaced,
+    abandonmentRate: rate(unrecovered, ordersPlaced + unrecovered),
+    recoveryRate: rate(recovered, abandoned),
+    abandonedValue: formatPesewas(toPesewas(abandonedValue ?? 0)),
+    recoveredRevenue: formatPesewas(toPesewas(recoveredRevenue ?? 0)),
+  };
+};
@@ -0,0 +1,417 @@
+import { and, asc, eq, gt, lt, sql } from "drizzle-orm";
+import { abandonedCarts, cart, guestCarts, productStock, products } from "../db/schema.js";
+import { db } from "../db/index.js";
+import type { DbExecutor } from "../db/index.js";
+import { formatPesewas, toPesewas } from "../utils/money.js";
+import { ConflictError, NotFoundError, ValidationError } from "../utils/errors.js";
+import { stockSizesFor } from "./inventory.service.js";
+import { validateCartLines } from "./checkout.service.js";
+import { signGuestCartToken, verifyGuestCartToken } from "../utils/token.js";
+
+// Guest carts are deleted after this many days without a change
+export const GUEST_CART_TTL_DAYS = parseInt(process.env.GUEST_CART_TTL_DAYS || "30");
+
+// Guests send their cart token in this header
+export const CART_TOKEN_HEADER = "X-Cart-Token";
+
+// Most of one product and size a cart line can hold
+export const MAX_LINE_QUANTITY = 100;
+
+// Whose cart a request works on: a logged-in user's, or a guest cart
+export type CartOwner = { userId: number } | { guestCartId: number };
+
+export interface CartLineInput {
+  productId: number;
+  size?: string | undefined;
+  quantity: number;
+}
+
+const ownerCondition = (owner: CartOwner) =>
+  "userId" in owner
+    ? eq(cart.userId, owner.userId)
+    : eq(cart.guestCartId, owner.guestCartId);
+
+// Column values that put a new line in the owner's cart
+const ownerValues = (owner: CartOwner) =>
+  "userId" in owner
+    ? { userId: owner.userId }
+    : { guestCartId: owner.guestCartId };
+
+// The unique (owner, product, size) key lines are upserted on
+const lineTarget = (owner: CartOwner) => [
+  "userId" in owner ? cart.userId : cart.guestCartId,
+  cart.productId,
+  cart.size,
+];
+
+const guestCartExpiry = () =>
+  new Date(Date.now() + GUEST_CART_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+// Start an empty guest cart; the token is what the shopper keeps
+export const createGuestCart = async () => {
+  const created = await db
+    .insert(guestCarts)
+    .values({ expiresAt: guestCartExpiry() })
+    .returning({ id: guestCarts.id });
+
+  const guestCartId = created[0]!.id;
+  return { guestCartId, cartToken: signGuestCartToken(guestCartId) };
+};
+
+// The guest cart a token names, or undefined if the token is invalid or the cart expired
+export const findGuestCart = async (cartToken: string) => {
+  const guestCartId = verifyGuestCartToken(cartToken);
+  if (guestCartId === null) return undefined;
+
+  // Expired carts are only deleted periodically, so check the expiry here too
+  const found = await db
+    .select({ id: guestCarts.id })
+    .from(guestCarts)
+    .where(and(eq(guestCarts.id, guestCartId), gt(guestCarts.expiresAt, new Date())))
+    .limit(1);
+
+  return found[0] ? { guestCartId: found[0].id } : undefined;
+};
+
+// A change to a guest cart keeps it alive for another GUEST_CART_TTL_DAYS
+const touchCart = async (executor: DbExecutor, owner: CartOwner) => {
+  if ("userId" in owner) return;
+
+  await executor
+    .update(guestCarts)
+    .set({ expiresAt: guestCartExpiry(), updatedAt: new Date() })
+    .where(eq(guestCarts.id, owner.guestCartId));
+};
+
+// The product a line points at, checked to exist
+export const findCartProduct = async (executor: DbExecutor, productId: number) => {
+  const product = await executor
+    .select()
+    .from(products)
+    .where(eq(products.id, productId))
+    .limit(1);
+
+  if (!product[0]) {
+    throw new NotFoundError("Product not found", { code: "PRODUCT_NOT_FOUND" });
+  }
+  return product[0];
+};
+
+// Products without sizes are stored under the default size
+export const checkSize = (sizes: string[] | null, size: string | undefined) => {
+  const allowedSizes = stockSizesFor(sizes);
+  const lineSize = size ?? (allowedSizes.length === 1 ? allowedSizes[0]! : undefined);
+
+  if (lineSize === undefined || !allowedSizes.includes(lineSize)) {
+    throw new ValidationError(`Size must be one of: ${allowedSizes.join(", ")}`, {
+      code: "INVALID_SIZE",
+    });
+  }
+  return lineSize;
+};
+
+const checkStock = async (
+  executor: DbExecutor,
+  productId: number,
+  size: string,
+  quantity: number
+) => {
+  const stock = await executor
+    .select({ quantity: productStock.quantity })
+    .from(productStock)
+    .where(and(eq(productStock.productId, productId), eq(productStock.size, size)))
+    .limit(1);
+
+  const available = stock[0]?.quantity ?? 0;
+  if (quantity > available) {
+    throw new ConflictError(
+      available > 0 ? `Only ${available} left in stock` : "This item is out of stock",
+      { code: "INSUFFICIENT_STOCK", data: { productId, size, requested: quantity, available } }
+    );
+  }
+};
+
+const findCartLine = async (executor: DbExecutor, owner: CartOwner, lineId: number) => {
+  const line = await executor
+    .select()
+    .from(cart)
+    .where(and(eq(cart.id, lineId), ownerCondition(owner)))
+    .limit(1);
+
+  if (!line[0]) {
+    throw new NotFoundError("Cart item not found");
+  }
+  return line[0];
+};
+
+// Cart lines with today's price and stock
+// priceChanged compares against the price when the line was last added or changed;
+// subtotal covers every line, so out-of-stock lines must be removed before checkout
+export const getPricedCart = async (executor: DbExecutor, owner: CartOwner) => {
+  const rows = await executor
+    .select({
+      line: cart,
+      product: {
+        name: products.name,
+        price: products.price,
+        images: products.images,
+      },
+      available: productStock.quantity,
+    })
+    .from(cart)
+    .innerJoin(products, eq(cart.productId, products.id))
+    .leftJoin(
+      productStock,
+      and(eq(productStock.productId, cart.productId), eq(productStock.size, cart.size))
+    )
+    .where(ownerCondition(owner))
+    .orderBy(asc(cart.createdAt), asc(cart.id));
+
+  let subtotal = 0;
+  // { productId: { size: quantity } }, the shape the storefront keeps in localStorage
+  const cartItems: Record<string, Record<string, number>> = {};
+
+  const items = rows.map(({ line, product, available }) => {
+    const unitPrice = toPesewas(product.price);
+    const lineTotal = unitPrice * line.quantity;
+    const stock = available ?? 0; // No stock row: the size was removed from the product
+    subtotal += lineTotal;
+    (cartItems[line.productId] ??= {})[line.size] = line.quantity;
+
+    return {
+      id: line.id,
+      productId: line.productId,
+      name: product.name,
+      image: product.images?.[0] ?? null,
+      size: line.size,
+      quantity: line.quantity,
+      unitPrice: formatPesewas(unitPrice),
+      priceAtAdd: line.priceAtAdd,
+      lineTotal: formatPesewas(lineTotal),
+      available: stock,
+      priceChanged: unitPrice !== toPesewas(line.priceAtAdd),
+      outOfStock: stock === 0,
+      exceedsStock: stock > 0 && line.quantity > stock,
+    };
+  });
+
+  return {
+    items,
+    itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+    subtotal: formatPesewas(subtotal),
+    hasChanges: items.some(
+      (item) => item.priceChanged || item.outOfStock || item.exceedsStock
+    ),
+    cartItems,
+  };
+};
+
+// What getPricedCart returns for a guest who has no cart yet
+export const emptyCart = () => ({
+  items: [],
+  itemCount: 0,
+  subtotal: formatPesewas(0),
+  hasChanges: false,
+  cartItems: {},
+});
+
+// Add to a line, creating it if needed; the new total must be in stock and
+// within MAX_LINE_QUANTITY
+// Runs in the caller's transaction, e.g. when moving an item from the wishlist
+export const addToCart = async (
+  executor: DbExecutor,
+  owner: CartOwner,
+  input: CartLineInput
+) => {
+  const product = await findCartProduct(executor, input.productId);
+  const size = checkSize(product.sizes, input.size);
+
+  const existing = await executor
+    .select({ quantity: cart.quantity })
+    .from(cart)
+    .where(
+      and(
+        ownerCondition(owner),
+        eq(cart.productId, product.id),
+        eq(cart.size, size)
+      )
+    )
+    .limit(1);
+
+  const quantity = (existing[0]?.quantity ?? 0) + input.quantity;
+  if (quantity > MAX_LINE_QUANTITY) {
+    throw new ValidationError(`Must be at most ${MAX_LINE_QUANTITY}`, {
+      code: "INVALID_QUANTITY",
+      data: { productId: product.id, size, requested: quantity, max: MAX_LINE_QUANTITY },
+    });
+  }
+
+  await checkStock(executor, product.id, size, quantity);
+
+  await executor
+    .insert(cart)
+    .values({
+      ...ownerValues(owner),
+      productId: product.id,
+      size,
+      quantity: input.quantity,
+      priceAtAdd: product.price,
+    })
+    .onConflictDoUpdate({
+      target: lineTarget(owner),
+      set: {
+        quantity: sql`${cart.quantity} + ${input.quantity}`,
+        priceAtAdd: product.price,
+        updatedAt: new Date(),
+      },
+    });
+
+  await touchCart(executor, owner);
+};
+
+export const addCartLine = (owner: CartOwner, input: CartLineInput) =>
+  db.transaction((tx) => addToCart(tx, owner, input));
+
+// Set a line's quantity; the line takes today's price
+export const updateCartLine = (owner: CartOwner, lineId: number, quantity: number) =>
+  db.transaction(async (tx) => {
+    const line = await findCartLine(tx, owner, lineId);
+    const product = await findCartProduct(tx, line.productId);
+    await checkStock(tx, line.productId, line.size, quantity);
+
+    await tx
+      .update(cart)
+      .set({ quantity, priceAtAdd: product.price, updatedAt: new Date() })
+      .where(eq(cart.id, line.id));
+
+    await touchCart(tx, owner);
+  });
+
+// Remove a line and return it, e.g. to save it to the wishlist
+export const takeCartLine = async (
+  executor: DbExecutor,
+  owner: CartOwner,
+  lineId: number
+) => {
+  const removed = await executor
+    .delete(cart)
+    .where(and(eq(cart.id, lineId), ownerCondition(owner)))
+    .returning();
+
+  if (!removed[0]) {
+    throw new NotFoundError("Cart item not found");
+  }
+
+  await touchCart(executor, owner);
+  return removed[0];
+};
+
+export const removeCartLine = (owner: CartOwner, lineId: number) =>
+  db.transaction(async (tx) => {
+    await takeCartLine(tx, owner, lineId);
+  });
+
+export const clearCartLines = (executor: DbExecutor, owner: CartOwner) =>
+  executor.delete(cart).where(ownerCondition(owner));
+
+// Lines with a quantity of 0 are ones the storefront has emptied; drop them
+const withoutEmptyLines = (cartItems: Record<string, Record<string, number>>) =>
+  Object.fromEntries(
+    Object.entries(cartItems).map(([productId, sizes]) => [
+      productId,
+      Object.fromEntries(Object.entries(sizes).filter(([, quantity]) => quantity > 0)),
+    ])
+  );
+
+// Replace a cart with { productId: { size: quantity } }, e.g. one kept in localStorage
+// Every line must match a product and one of its sizes, and be in stock
+export const replaceCart = async (
+  owner: CartOwner,
+  cartItems: Record<string, Record<string, number>>
+) => {
+  const { lines, errors } = await validateCartLines(withoutEmptyLines(cartItems));
+  if (errors.length) {
+    throw new ValidationError("Some cart items are invalid", {
+      code: "INVALID_CART_ITEMS",
+      data: { errors },
+    });
+  }
+
+  // Lines that were already saved keep their price snapshot
+  await db.transaction(async (tx) => {
+    const saved = await tx.select().from(cart).where(ownerCondition(owner));
+    const savedPrice = new Map(
+      saved.map((line) => [`${line.productId}:${line.size}`, line.priceAtAdd])
+    );
+
+    for (const line of lines) {
+      await checkStock(tx, line.productId, line.size, line.quantity);
+    }
+
+    await clearCartLines(tx, owner);
+    await touchCart(tx, owner);
+    if (!lines.length) return;
+
+    await tx.insert(cart).values(
+      lines.map((line) => ({
+        ...ownerValues(owner),
+        productId: line.productId,
+        size: line.size,
+        quantity: line.quantity,
+        priceAtAdd: savedPrice.get(`${line.productId}:${line.size}`) ?? line.price,
+      }))
+    );
+  });
+};
+
+// Move a guest cart into a user's cart when they log in, then delete it
+// Lines in both keep the larger quantity and the user's price snapshot
+// Returns the number of guest lines merged
+export const mergeGuestCart = (guestCartId: number, userId: number) =>
+  db.transaction(async (tx) => {
+    const guestLines = await tx
+      .select()
+      .from(cart)
+      .where(eq(cart.guestCartId, guestCartId));
+
+    if (guestLines.length) {
+      await tx
+        .insert(cart)
+        .values(
+          guestLines.map((line) => ({
+            userId,
+            productId: line.productId,
+            size: line.size,
+            quantity: line.quantity,
+            priceAtAdd: line.priceAtAdd,
+          }))
+        )
+        .onConflictDoUpdate({
+          target: [cart.userId, cart.productId, cart.size],
+          set: {
+            quantity: sql`greatest(${cart.quantity}, excluded.quantity)`,
+            updatedAt: new Date(),
+          },
+        });
+    }
+
+    // An order after login still recovers the guest cart if it had been abandoned
+    await tx
+      .update(abandonedCarts)
+      .set({ userId, guestCartId: null })
+      .where(eq(abandonedCarts.guestCartId, guestCartId));
+
+    // Its lines go with it
+    await tx.delete(guestCarts).where(eq(guestCarts.id, guestCartId));
+    return guestLines.length;
+  });
+
+// Delete guest carts nobody has changed for GUEST_CART_TTL_DAYS, with their lines
+export const deleteExpiredGuestCarts = async () => {
+  const deleted = await db
+    .delete(guestCarts)
+    .where(lt(guestCarts.expiresAt, new Date()))
+    .returning({ id: guestCarts.id });
+
+  return deleted.length;
+};
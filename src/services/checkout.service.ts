@@ -0,0 +1,128 @@
+import { and, eq } from "drizzle-orm";
+import { addresses, products } from "../db/schema.js";
+import { db } from "../db/index.js";
+import { toShippingAddress } from "../utils/address.js";
+import { stockSizesFor } from "./inventory.service.js";
+
+type CartLineErrorCode =
+  | "INVALID_PRODUCT_ID"
+  | "PRODUCT_NOT_FOUND"
+  | "INVALID_SIZE"
+  | "INVALID_QUANTITY";
+
+export interface CartLineError {
+  productId: string;
+  size?: string;
+  code: CartLineErrorCode;
+  message: string;
+}
+
+export interface OrderLine {
+  productId: number;
+  sellerId: number | null;
+  categoryId: number | null;
+  subCategoryId: number | null;
+  quantity: number;
+  price: string;
+  size: string;
+  weightKg: string | null;
+}
+
+// Check every { productId: { size: quantity } } line of a checkout cart
+// Invalid lines are reported rather than skipped so the client can fix them
+export const validateCartLines = async (cartItems: Record<string, unknown>) => {
+  const lines: OrderLine[] = [];
+  const errors: CartLineError[] = [];
+
+  for (const productId in cartItems) {
+    const productIdNum = Number(productId);
+    if (!Number.isInteger(productIdNum) || productIdNum <= 0) {
+      errors.push({
+        productId,
+        code: "INVALID_PRODUCT_ID",
+        message: "Product ID must be a positive integer",
+      });
+      continue;
+    }
+
+    // Fetch product details
+    const product = await db
+      .select()
+      .from(products)
+      .where(eq(products.id, productIdNum))
+      .limit(1);
+
+    if (!product.length || !product[0]) {
+      errors.push({
+        productId,
+        code: "PRODUCT_NOT_FOUND",
+        message: "Product does not exist",
+      });
+      continue;
+    }
+
+    const productData = product[0];
+    const sizeQuantities = cartItems[productId];
+    const allowedSizes = stockSizesFor(productData.sizes);
+
+    if (!sizeQuantities || typeof sizeQuantities !== "object") {
+      errors.push({
+        productId,
+        code: "INVALID_QUANTITY",
+        message: "Expected an object of { size: quantity }",
+      });
+      continue;
+    }
+
+    // Process each size variant
+    for (const [size, quantity] of Object.entries(sizeQuantities)) {
+      if (!allowedSizes.includes(size)) {
+        errors.push({
+          productId,
+          size,
+          code: "INVALID_SIZE",
+          message: `Size must be one of: ${allowedSizes.join(", ")}`,
+        });
+        continue;
+      }
+
+      if (!Number.isInteger(quantity) || (quantity as number) <= 0) {
+        errors.push({
+          productId,
+          size,
+          code: "INVALID_QUANTITY",
+          message: "Quantity must be a positive whole number",
+        });
+        continue;
+      }
+
+      lines.push({
+        productId: productIdNum,
+        sellerId: productData.sellerId,
+        categoryId: productData.categoryId,
+        subCategoryId: productData.subCategoryId,
+        quantity: quantity as number,
+        price: productData.price,
+        size,
+        weightKg: productData.weightKg,
+      });
+    }
+  }
+
+  return { lines, errors };
+};
+
+// A user's saved address by id, or their default address when no id is given
+export const findSavedAddress = async (userId: number, addressId?: number) => {
+  const savedAddress = await db
+    .select()
+    .from(addresses)
+    .where(
+      addressId
+        ? and(eq(addresses.id, addressId), eq(addresses.userId, userId))
+        : and(eq(addresses.userId, userId), eq(addresses.isDefault, true))
+    )
+    .limit(1);
+
+  return savedAddress[0] ? toShippingAddress(savedAddress[0]) : undefined;
+};
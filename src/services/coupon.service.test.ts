@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import type { coupons } from "../db/schema.js";
+import {
+  calculateCouponDiscount,
+  summariseOrderTotals,
+} from "./coupon.service.js";
+import type { CheckoutLine } from "./coupon.service.js";
+
+const coupon = (overrides: Partial<typeof coupons.$inferSelect>) => ({
+  id: 1,
+  code: "SAVE",
+  description: null,
+  type: "percentage",
+  value: "10.00",
+  maxDiscountAmount: null,
+  minOrderAmount: null,
+  categoryId: null,
+  sellerId: null,
+  usageLimit: null,
+  perUserLimit: null,
+  usedCount: 0,
+  startsAt: null,
+  expiresAt: null,
+  isActive: true,
+  createdBy: null,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+// GHS 100 from seller 1 and 2 x GHS 50 from seller 2
+const lines: CheckoutLine[] = [
+  { productId: 1, sellerId: 1, categoryId: 10, subCategoryId: null, quantity: 1, price: "100.00" },
+  { productId: 2, sellerId: 2, categoryId: 20, subCategoryId: 21, quantity: 2, price: "50.00" },
+];
+
+// Shipping in pesewas per seller
+const shipping = new Map<number | null, number>([
+  [1, 1500],
+  [2, 2000],
+]);
+
+describe("calculateCouponDiscount", () => {
+  it.each([
+    {
+      name: "percentage off every item",
+      overrides: {},
+      amount: "20.00",
+      lineDiscounts: [1000, 1000],
+    },
+    {
+      name: "percentage capped at the maximum",
+      overrides: { maxDiscountAmount: "5.00" },
+      amount: "5.00",
+      lineDiscounts: [250, 250],
+    },
+    {
+      name: "percentage rounded to the pesewa",
+      overrides: { value: "3.33" },
+      amount: "6.66",
+      lineDiscounts: [333, 333],
+    },
+    {
+      name: "fixed amount on a subcategory",
+      overrides: { type: "fixed", value: "30.00", categoryId: 21 },
+      amount: "30.00",
+      lineDiscounts: [0, 3000],
+    },
+    {
+      name: "fixed amount limited to the eligible items",
+      overrides: { type: "fixed", value: "500.00", categoryId: 10 },
+      amount: "100.00",
+      lineDiscounts: [10000, 0],
+    },
+    {
+      name: "fixed amount split with the leftover pesewa",
+      overrides: { type: "fixed", value: "0.05" },
+      amount: "0.05",
+      lineDiscounts: [3, 2],
+    },
+    {
+      name: "minimum order met by the eligible items",
+      overrides: { minOrderAmount: "200.00" },
+      amount: "20.00",
+      lineDiscounts: [1000, 1000],
+    },
+  ])("$name", ({ overrides, amount, lineDiscounts }) => {
+    const applied = calculateCouponDiscount(coupon(overrides), lines, shipping);
+
+    expect(applied.discount).toMatchObject({
+      appliesTo: "items",
+      fundedBy: "marketplace",
+      amount,
+    });
+    expect(applied.lineDiscounts).toEqual(lineDiscounts);
+    expect(applied.shippingDiscounts.size).toBe(0);
+  });
+
+  it.each([
+    {
+      name: "every seller",
+      sellerId: null,
+      fundedBy: "marketplace",
+      amount: "35.00",
+      shippingDiscounts: [
+        [1, 1500],
+        [2, 2000],
+      ],
+    },
+    {
+      name: "one seller",
+      sellerId: 2,
+      fundedBy: "seller",
+      amount: "20.00",
+      shippingDiscounts: [[2, 2000]],
+    },
+  ])("free shipping for $name", ({ sellerId, fundedBy, amount, shippingDiscounts }) => {
+    const applied = calculateCouponDiscount(
+      coupon({ type: "free_shipping", value: "0", sellerId }),
+      lines,
+      shipping
+    );
+
+    expect(applied.discount).toMatchObject({ appliesTo: "shipping", fundedBy, amount });
+    expect(applied.lineDiscounts).toEqual([0, 0]);
+    expect(applied.shippingDiscounts).toEqual(new Map(shippingDiscounts as [number, number][]));
+  });
+
+  it.each([
+    { name: "no item is eligible", overrides: { sellerId: 3 }, code: "COUPON_NOT_APPLICABLE" },
+    {
+      name: "eligible items are under the minimum",
+      overrides: { categoryId: 10, minOrderAmount: "150.00" },
+      code: "COUPON_MIN_ORDER_NOT_MET",
+    },
+  ])("rejects when $name", ({ overrides, code }) => {
+    expect(() => calculateCouponDiscount(coupon(overrides), lines, shipping)).toThrow(
+      expect.objectContaining({ code })
+    );
+  });
+});
+
+describe("summariseOrderTotals", () => {
+  it.each([
+    { name: "without a coupon", overrides: undefined, discount: "0.00", total: "235.00" },
+    { name: "with an item discount", overrides: {}, discount: "20.00", total: "215.00" },
+    {
+      name: "with free shipping",
+      overrides: { type: "free_shipping" },
+      discount: "35.00",
+      total: "200.00",
+    },
+  ])("$name", ({ overrides, discount, total }) => {
+    const applied = overrides
+      ? calculateCouponDiscount(coupon(overrides), lines, shipping)
+      : undefined;
+
+    expect(summariseOrderTotals(lines, shipping, applied)).toEqual({
+      subtotalAmount: "200.00",
+      shippingAmount: "35.00",
+      discountAmount: discount,
+      totalAmount: total,
+    });
+  });
+});
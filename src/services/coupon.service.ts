@@ -0,0 +1,269 @@
+import { and, count, eq, isNull, lt, or, sql } from "drizzle-orm";
+import { couponRedemptions, coupons } from "../db/schema.js";
+import type { OrderDiscount } from "../db/schema.js";
+import type { DbExecutor } from "../db/index.js";
+import { allocatePesewas, formatPesewas, toPesewas } from "../utils/money.js";
+import { ValidationError } from "../utils/errors.js";
+
+export const COUPON_TYPES = ["percentage", "fixed", "free_shipping"] as const;
+export type CouponType = (typeof COUPON_TYPES)[number];
+
+export type CouponErrorCode =
+  | "COUPON_NOT_FOUND"
+  | "COUPON_INACTIVE"
+  | "COUPON_NOT_STARTED"
+  | "COUPON_EXPIRED"
+  | "COUPON_USAGE_LIMIT_REACHED"
+  | "COUPON_USER_LIMIT_REACHED"
+  | "COUPON_MIN_ORDER_NOT_MET"
+  | "COUPON_NOT_APPLICABLE";
+
+// Thrown when a coupon can't be used for a cart; callers report the code to the client
+export class CouponError extends ValidationError {
+  declare code: CouponErrorCode;
+
+  constructor(code: CouponErrorCode, message: string) {
+    super(message, { code, data: { errors: [{ code, message }] } });
+    this.name = "CouponError";
+  }
+}
+
+type CouponRow = typeof coupons.$inferSelect;
+
+export interface CheckoutLine {
+  productId: number;
+  sellerId: number | null;
+  categoryId: number | null;
+  subCategoryId: number | null;
+  quantity: number;
+  price: string;
+}
+
+export interface CheckoutCustomer {
+  userId: number | null;
+  guestEmail: string | null;
+}
+
+export interface AppliedCoupon {
+  coupon: CouponRow;
+  discount: OrderDiscount;
+  // Item discount per line in pesewas, in the same order as the lines
+  lineDiscounts: number[];
+  // Shipping waived per seller in pesewas, for free shipping coupons
+  shippingDiscounts: Map<number | null, number>;
+}
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+const lineTotal = (line: CheckoutLine) => toPesewas(line.price) * line.quantity;
+
+const isEligible = (coupon: CouponRow, line: CheckoutLine) =>
+  (coupon.categoryId === null ||
+    line.categoryId === coupon.categoryId ||
+    line.subCategoryId === coupon.categoryId) &&
+  (coupon.sellerId === null || line.sellerId === coupon.sellerId);
+
+// Look up a coupon and work out its discount for the given cart
+// shippingBySeller holds each seller's shipping fee in pesewas
+// Pass lock inside the checkout transaction so limits are checked and used atomically
+export const applyCoupon = async (
+  executor: DbExecutor,
+  code: string,
+  lines: CheckoutLine[],
+  shippingBySeller: Map<number | null, number>,
+  customer: CheckoutCustomer,
+  { lock = false }: { lock?: boolean } = {}
+): Promise<AppliedCoupon> => {
+  const query = executor
+    .select()
+    .from(coupons)
+    .where(eq(coupons.code, normalizeCouponCode(code)))
+    .limit(1);
+  const found = lock ? await query.for("update") : await query;
+  const coupon = found[0];
+
+  if (!coupon) {
+    throw new CouponError("COUPON_NOT_FOUND", "Coupon code is not valid");
+  }
+
+  const now = new Date();
+  if (!coupon.isActive) {
+    throw new CouponError("COUPON_INACTIVE", "This coupon is no longer available");
+  }
+  if (coupon.startsAt && coupon.startsAt > now) {
+    throw new CouponError("COUPON_NOT_STARTED", "This coupon is not active yet");
+  }
+  if (coupon.expiresAt && coupon.expiresAt <= now) {
+    throw new CouponError("COUPON_EXPIRED", "This coupon has expired");
+  }
+  if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) {
+    throw new CouponError(
+      "COUPON_USAGE_LIMIT_REACHED",
+      "This coupon has been fully redeemed"
+    );
+  }
+
+  if (coupon.perUserLimit !== null) {
+    const customerCondition = customer.userId
+      ? eq(couponRedemptions.userId, customer.userId)
+      : customer.guestEmail
+        ? eq(couponRedemptions.guestEmail, customer.guestEmail.toLowerCase())
+        : undefined;
+
+    if (customerCondition) {
+      const used = await executor
+        .select({ total: count() })
+        .from(couponRedemptions)
+        .where(and(eq(couponRedemptions.couponId, coupon.id), customerCondition));
+
+      if ((used[0]?.total ?? 0) >= coupon.perUserLimit) {
+        throw new CouponError(
+          "COUPON_USER_LIMIT_REACHED",
+          "You have already used this coupon"
+        );
+      }
+    }
+  }
+
+  return calculateCouponDiscount(coupon, lines, shippingBySeller);
+};
+
+// Work out a coupon's discount for the given cart, once its dates and limits are checked
+// shippingBySeller holds each seller's shipping fee in pesewas
+export const calculateCouponDiscount = (
+  coupon: CouponRow,
+  lines: CheckoutLine[],
+  shippingBySeller: Map<number | null, number>
+): AppliedCoupon => {
+  const eligibleTotals = lines.map((line) =>
+    isEligible(coupon, line) ? lineTotal(line) : 0
+  );
+  const eligibleSubtotal = eligibleTotals.reduce((sum, total) => sum + total, 0);
+
+  if (!eligibleSubtotal) {
+    throw new CouponError(
+      "COUPON_NOT_APPLICABLE",
+      "This coupon doesn't apply to any item in your cart"
+    );
+  }
+
+  if (
+    coupon.minOrderAmount !== null &&
+    eligibleSubtotal < toPesewas(coupon.minOrderAmount)
+  ) {
+    throw new CouponError(
+      "COUPON_MIN_ORDER_NOT_MET",
+      `Spend at least GHS ${coupon.minOrderAmount} on eligible items to use this coupon`
+    );
+  }
+
+  const fundedBy = coupon.sellerId === null ? "marketplace" : "seller";
+  let amount = 0;
+
+  if (coupon.type === "free_shipping") {
+    // Shipping is waived for the sellers whose items the coupon covers
+    const eligibleSellers = new Set(
+      lines.filter((line) => isEligible(coupon, line)).map((line) => line.sellerId)
+    );
+    const shippingDiscounts = new Map<number | null, number>();
+    for (const sellerId of eligibleSellers) {
+      const fee = shippingBySeller.get(sellerId) ?? 0;
+      shippingDiscounts.set(sellerId, fee);
+      amount += fee;
+    }
+
+    return {
+      coupon,
+      discount: {
+        couponId: coupon.id,
+        couponCode: coupon.code,
+        type: coupon.type,
+        appliesTo: "shipping",
+        fundedBy,
+        amount: formatPesewas(amount),
+      },
+      lineDiscounts: lines.map(() => 0),
+      shippingDiscounts,
+    };
+  }
+
+  if (coupon.type === "percentage") {
+    amount = Math.round((eligibleSubtotal * parseFloat(coupon.value)) / 100);
+    if (coupon.maxDiscountAmount !== null) {
+      amount = Math.min(amount, toPesewas(coupon.maxDiscountAmount));
+    }
+  } else {
+    amount = toPesewas(coupon.value);
+  }
+  amount = Math.min(amount, eligibleSubtotal);
+
+  return {
+    coupon,
+    discount: {
+      couponId: coupon.id,
+      couponCode: coupon.code,
+      type: coupon.type,
+      appliesTo: "items",
+      fundedBy,
+      amount: formatPesewas(amount),
+    },
+    // Spread over eligible lines so refunds and payouts can use each line's share
+    lineDiscounts: allocatePesewas(amount, eligibleTotals),
+    shippingDiscounts: new Map(),
+  };
+};
+
+// Order totals in GHS strings, as stored on the order
+export const summariseOrderTotals = (
+  lines: CheckoutLine[],
+  shippingBySeller: Map<number | null, number>,
+  applied?: AppliedCoupon
+) => {
+  const subtotal = lines.reduce((sum, line) => sum + lineTotal(line), 0);
+  const shipping = [...shippingBySeller.values()].reduce(
+    (sum, fee) => sum + fee,
+    0
+  );
+  const discount = applied ? toPesewas(applied.discount.amount) : 0;
+
+  return {
+    subtotalAmount: formatPesewas(subtotal),
+    shippingAmount: formatPesewas(shipping),
+    discountAmount: formatPesewas(discount),
+    totalAmount: formatPesewas(subtotal + shipping - discount),
+  };
+};
+
+// Count the coupon as used by this order; must run in the checkout transaction
+export const redeemCoupon = async (
+  executor: DbExecutor,
+  applied: AppliedCoupon,
+  orderId: number,
+  customer: CheckoutCustomer
+) => {
+  const updated = await executor
+    .update(coupons)
+    .set({ usedCount: sql`${coupons.usedCount} + 1`, updatedAt: new Date() })
+    .where(
+      and(
+        eq(coupons.id, applied.coupon.id),
+        or(isNull(coupons.usageLimit), lt(coupons.usedCount, coupons.usageLimit))
+      )
+    )
+    .returning({ id: coupons.id });
+
+  if (!updated.length) {
+    throw new CouponError(
+      "COUPON_USAGE_LIMIT_REACHED",
+      "This coupon has been fully redeemed"
+    );
+  }
+
+  await executor.insert(couponRedemptions).values({
+    couponId: applied.coupon.id,
+    orderId,
+    userId: customer.userId,
+    guestEmail: customer.userId ? null : customer.guestEmail?.toLowerCase() ?? null,
+    discountAmount: applied.discount.amount,
+  });
+};
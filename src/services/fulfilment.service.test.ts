@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { deriveOrderStatus } from "./fulfilment.service.js";
+
+describe("deriveOrderStatus", () => {
+  it.each([
+    { statuses: ["pending"], expected: "pending" },
+    { statuses: ["pending", "pending"], expected: "pending" },
+    { statuses: ["pending", "processing"], expected: "processing" },
+    { statuses: ["pending", "shipped"], expected: "processing" },
+    { statuses: ["processing", "shipped"], expected: "processing" },
+    { statuses: ["shipped", "delivered"], expected: "shipped" },
+    { statuses: ["delivered", "delivered"], expected: "delivered" },
+    { statuses: ["cancelled", "shipped"], expected: "shipped" },
+    { statuses: ["cancelled", "pending", "delivered"], expected: "processing" },
+    { statuses: ["cancelled", "cancelled"], expected: "cancelled" },
+    { statuses: [], expected: "cancelled" },
+  ])("$statuses -> $expected", ({ statuses, expected }) => {
+    expect(deriveOrderStatus(statuses)).toBe(expected);
+  });
+});
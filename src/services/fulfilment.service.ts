@@ -0,0 +1,216 @@
+import { asc, eq, inArray } from "drizzle-orm";
+import {
+  orderFulfilments,
+  orderItems,
+  orders,
+  products,
+  sellerProfiles,
+} from "../db/schema.js";
+import { db } from "../db/index.js";
+import type { DbExecutor } from "../db/index.js";
+import { releaseStock } from "./inventory.service.js";
+import { formatPesewas } from "../utils/money.js";
+import { FULFILMENT_STEPS, recordStatusChange } from "./orderStatus.service.js";
+import type { OrderStatus, StatusActor } from "./orderStatus.service.js";
+import { publishOrderEvent } from "./orderNotification.service.js";
+
+export interface FulfilmentLine {
+  productId: number;
+  sellerId: number | null;
+  quantity: number;
+  price: string;
+  size: string;
+  discountAmount?: string;
+}
+
+type FulfilmentRow = typeof orderFulfilments.$inferSelect;
+
+// Parent order status from its fulfilments: cancelled once every fulfilment is,
+// otherwise the least advanced active fulfilment - except that the order counts
+// as processing as soon as any seller has started on it
+export const deriveOrderStatus = (statuses: string[]): OrderStatus => {
+  const active = statuses.filter((status) => status !== "cancelled");
+  if (!active.length) return "cancelled";
+
+  const steps = active.map((status) =>
+    Math.max(0, FULFILMENT_STEPS.indexOf(status as OrderStatus))
+  );
+  const least = Math.min(...steps);
+
+  if (least === 0 && Math.max(...steps) > 0) return "processing";
+  return FULFILMENT_STEPS[least]!;
+};
+
+// Create one fulfilment per seller and insert each line under its seller's fulfilment
+// shippingBySeller holds each seller's shipping fee in pesewas, and
+// shippingDiscounts the part of it a free shipping coupon waived
+export const createFulfilments = async (
+  executor: DbExecutor,
+  orderId: number,
+  lines: FulfilmentLine[],
+  shippingBySeller?: Map<number | null, number>,
+  shippingDiscounts?: Map<number | null, number>
+) => {
+  const sellerIds = [...new Set(lines.map((line) => line.sellerId))];
+
+  const fulfilments = await executor
+    .insert(orderFulfilments)
+    .values(
+      sellerIds.map((sellerId) => ({
+        orderId,
+        sellerId,
+        status: "pending",
+        shippingFee: formatPesewas(shippingBySeller?.get(sellerId) ?? 0),
+        shippingDiscount: formatPesewas(shippingDiscounts?.get(sellerId) ?? 0),
+      }))
+    )
+    .returning();
+
+  const fulfilmentFor = new Map(
+    fulfilments.map((fulfilment) => [fulfilment.sellerId, fulfilment.id])
+  );
+
+  const items = await executor
+    .insert(orderItems)
+    .values(
+      lines.map((line) => ({
+        orderId,
+        fulfilmentId: fulfilmentFor.get(line.sellerId)!,
+        productId: line.productId,
+        quantity: line.quantity,
+        price: line.price,
+        size: line.size,
+        discountAmount: line.discountAmount ?? "0",
+      }))
+    )
+    .returning();
+
+  return { fulfilments, items };
+};
+
+// Move one fulfilment to a new status and record it in the order history
+// The caller checks the transition and should then call syncOrderStatus
+export const applyFulfilmentStatus = async (
+  executor: DbExecutor,
+  fulfilment: FulfilmentRow,
+  toStatus: OrderStatus,
+  actor: StatusActor,
+  note?: string | null
+) => {
+  // Cancelling puts this seller's reserved stock back
+  if (toStatus === "cancelled") {
+    const items = await executor
+      .select({
+        productId: orderItems.productId,
+        size: orderItems.size,
+        quantity: orderItems.quantity,
+      })
+      .from(orderItems)
+      .where(eq(orderItems.fulfilmentId, fulfilment.id));
+
+    await releaseStock(executor, items);
+  }
+
+  const updated = await executor
+    .update(orderFulfilments)
+    .set({ status: toStatus, updatedAt: new Date() })
+    .where(eq(orderFulfilments.id, fulfilment.id))
+    .returning();
+
+  await recordStatusChange(executor, {
+    orderId: fulfilment.orderId,
+    fulfilmentId: fulfilment.id,
+    fromStatus: fulfilment.status,
+    toStatus,
+    actor,
+    note: note ?? null,
+  });
+
+  return updated[0]!;
+};
+
+// Recompute the parent order's status from its fulfilments
+// Lock the order row first so concurrent fulfilment updates see each other
+// Reaching shipped or delivered queues the customer's notification
+export const syncOrderStatus = async (
+  executor: DbExecutor,
+  orderId: number,
+  actor: StatusActor,
+  note?: string | null
+) => {
+  const fulfilments = await executor
+    .select({ status: orderFulfilments.status })
+    .from(orderFulfilments)
+    .where(eq(orderFulfilments.orderId, orderId));
+
+  const order = await executor
+    .select()
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+
+  if (!order[0] || !fulfilments.length) return order[0];
+
+  const derived = deriveOrderStatus(fulfilments.map((row) => row.status));
+  if (order[0].status === derived) return order[0];
+
+  const updated = await executor
+    .update(orders)
+    .set({ status: derived, updatedAt: new Date() })
+    .where(eq(orders.id, orderId))
+    .returning();
+
+  await recordStatusChange(executor, {
+    orderId,
+    fromStatus: order[0].status,
+    toStatus: derived,
+    actor,
+    note: note ?? null,
+  });
+
+  // The customer hears about the order as a whole, not each seller's parcel
+  if (derived === "shipped" || derived === "delivered") {
+    await publishOrderEvent(executor, { type: `order_${derived}`, orderId });
+  }
+
+  return updated[0];
+};
+
+// Fulfilments for the given orders with their items and store names
+export const getFulfilmentsWithItems = async (orderIds: number[]) => {
+  if (!orderIds.length) return [];
+
+  const fulfilments = await db
+    .select({
+      fulfilment: orderFulfilments,
+      storeName: sellerProfiles.businessName,
+      storeSlug: sellerProfiles.slug,
+    })
+    .from(orderFulfilments)
+    .leftJoin(sellerProfiles, eq(orderFulfilments.sellerId, sellerProfiles.userId))
+    .where(inArray(orderFulfilments.orderId, orderIds))
+    .orderBy(asc(orderFulfilments.id));
+
+  const items = await db
+    .select({
+      id: orderItems.id,
+      fulfilmentId: orderItems.fulfilmentId,
+      productId: orderItems.productId,
+      quantity: orderItems.quantity,
+      price: orderItems.price,
+      size: orderItems.size,
+      discountAmount: orderItems.discountAmount,
+      productName: products.name,
+      productImage: products.images,
+    })
+    .from(orderItems)
+    .leftJoin(products, eq(orderItems.productId, products.id))
+    .where(inArray(orderItems.orderId, orderIds));
+
+  return fulfilments.map(({ fulfilment, storeName, storeSlug }) => ({
+    ...fulfilment,
+    storeName,
+    storeSlug,
+    items: items.filter((item) => item.fulfilmentId === fulfilment.id),
+  }));
+};
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { and, eq } from "drizzle-orm";
+import { productStock, products } from "../db/schema.js";
+import { db } from "../db/index.js";
+import { resetDb } from "../test/db.js";
+import { createProduct } from "../test/fixtures.js";
+import {
+  InsufficientStockError,
+  releaseStock,
+  reserveStock,
+  syncStockSizes,
+} from "./inventory.service.js";
+import type { StockLine } from "./inventory.service.js";
+
+vi.mock("../db/index.js", () => import("../test/db.js"));
+
+const stockOf = async (productId: number, size: string) => {
+  const row = await db
+    .select({ quantity: productStock.quantity })
+    .from(productStock)
+    .where(and(eq(productStock.productId, productId), eq(productStock.size, size)));
+  return row[0]?.quantity;
+};
+
+const isInStock = async (productId: number) =>
+  (await db.select().from(products).where(eq(products.id, productId)))[0]!.inStock;
+
+const reserve = (lines: StockLine[]) => db.transaction((tx) => reserveStock(tx, lines));
+
+describe("reserveStock", () => {
+  let shirt: number;
+
+  beforeEach(async () => {
+    await resetDb();
+    shirt = (await createProduct({ sizes: ["S", "M"] }, { S: 3, M: 1 })).id;
+  });
+
+  it("takes the quantity from the size ordered", async () => {
+    await reserve([{ productId: shirt, size: "S", quantity: 2 }]);
+
+    expect(await stockOf(shirt, "S")).toBe(1);
+    expect(await stockOf(shirt, "M")).toBe(1);
+  });
+
+  it("reports every short line and takes nothing", async () => {
+    const error = await reserve([
+      { productId: shirt, size: "S", quantity: 2 },
+      { productId: shirt, size: "M", quantity: 2 },
+      { productId: shirt, size: "XL", quantity: 1 },
+    ]).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(InsufficientStockError);
+    expect((error as InsufficientStockError).shortages).toEqual([
+      { productId: shirt, size: "M", requested: 2, available: 1 },
+      { productId: shirt, size: "XL", requested: 1, available: 0 },
+    ]);
+    expect(await stockOf(shirt, "S")).toBe(3);
+  });
+
+  it("sells the last unit only once", async () => {
+    const results = await Promise.allSettled([
+      reserve([{ productId: shirt, size: "M", quantity: 1 }]),
+      reserve([{ productId: shirt, size: "M", quantity: 1 }]),
+    ]);
+
+    expect(results.map(({ status }) => status).sort()).toEqual(["fulfilled", "rejected"]);
+    expect(await stockOf(shirt, "M")).toBe(0);
+  });
+
+  it("marks the product out of stock once every size is gone, and back when released", async () => {
+    await reserve([
+      { productId: shirt, size: "S", quantity: 3 },
+      { productId: shirt, size: "M", quantity: 1 },
+    ]);
+    expect(await isInStock(shirt)).toBe(false);
+
+    await releaseStock(db, [{ productId: shirt, size: "M", quantity: 1 }]);
+    expect(await stockOf(shirt, "M")).toBe(1);
+    expect(await isInStock(shirt)).toBe(true);
+  });
+
+  it("keeps the stock of products without sizes under the default size", async () => {
+    const mug = (await createProduct({}, { default: 2 })).id;
+
+    await reserve([{ productId: mug, size: null, quantity: 2 }]);
+    expect(await stockOf(mug, "default")).toBe(0);
+
+    await releaseStock(db, [{ productId: mug, size: null, quantity: 1 }]);
+    expect(await stockOf(mug, "default")).toBe(1);
+  });
+});
+
+describe("syncStockSizes", () => {
+  beforeEach(resetDb);
+
+  it("drops removed sizes and adds new ones at zero", async () => {
+    const shirt = (await createProduct({ sizes: ["S", "M"] }, { S: 3, M: 1 })).id;
+
+    await syncStockSizes(db, shirt, ["M", "L"]);
+
+    expect(await stockOf(shirt, "S")).toBeUndefined();
+    expect(await stockOf(shirt, "M")).toBe(1);
+    expect(await stockOf(shirt, "L")).toBe(0);
+  });
+});
@@ -0,0 +1,191 @@
+import { and, eq, gte, inArray, notInArray, sql } from "drizzle-orm";
+import { productStock, products } from "../db/schema.js";
+import type { DbExecutor } from "../db/index.js";
+import { ConflictError } from "../utils/errors.js";
+
+// Stock key used for products that have no sizes
+export const DEFAULT_SIZE = "default";
+
+export interface StockLine {
+  productId: number;
+  size: string | null;
+  quantity: number;
+}
+
+export interface StockShortage {
+  productId: number;
+  size: string;
+  requested: number;
+  available: number;
+}
+
+// Thrown when a reservation cannot be satisfied; the caller's transaction rolls back
+export class InsufficientStockError extends ConflictError {
+  constructor(public shortages: StockShortage[]) {
+    super("Some items are out of stock", {
+      code: "INSUFFICIENT_STOCK",
+      data: {
+        errors: shortages.map((shortage) => ({
+          ...shortage,
+          code: "INSUFFICIENT_STOCK",
+          message: `Only ${shortage.available} left in stock`,
+        })),
+      },
+    });
+    this.name = "InsufficientStockError";
+  }
+}
+
+export const normalizeSize = (size: string | null | undefined) =>
+  size ? size : DEFAULT_SIZE;
+
+// Stock sizes for a product: its sizes, or the default key if it has none
+export const stockSizesFor = (sizes: string[] | null | undefined) =>
+  sizes && sizes.length ? sizes : [DEFAULT_SIZE];
+
+// Recompute products.inStock from remaining quantities
+export const refreshStockStatus = async (
+  executor: DbExecutor,
+  productIds: number[]
+) => {
+  if (!productIds.length) return;
+
+  await executor
+    .update(products)
+    .set({
+      inStock: sql`exists (
+        select 1 from ${productStock}
+        where ${productStock.productId} = ${products.id}
+        and ${productStock.quantity} > 0
+      )`,
+      updatedAt: new Date(),
+    })
+    .where(inArray(products.id, productIds));
+};
+
+// Atomically take stock for every line, or throw InsufficientStockError
+// Must run inside a transaction so a partial reservation is rolled back
+export const reserveStock = async (executor: DbExecutor, lines: StockLine[]) => {
+  const shortages: StockShortage[] = [];
+
+  for (const line of lines) {
+    const size = normalizeSize(line.size);
+
+    // The quantity check and decrement happen in one statement, so
+    // concurrent checkouts cannot both take the last unit
+    const updated = await executor
+      .update(productStock)
+      .set({
+        quantity: sql`${productStock.quantity} - ${line.quantity}`,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(productStock.productId, line.productId),
+          eq(productStock.size, size),
+          gte(productStock.quantity, line.quantity)
+        )
+      )
+      .returning({ id: productStock.id });
+
+    if (!updated.length) {
+      const current = await executor
+        .select({ quantity: productStock.quantity })
+        .from(productStock)
+        .where(
+          and(
+            eq(productStock.productId, line.productId),
+            eq(productStock.size, size)
+          )
+        )
+        .limit(1);
+
+      shortages.push({
+        productId: line.productId,
+        size,
+        requested: line.quantity,
+        available: current[0]?.quantity ?? 0,
+      });
+    }
+  }
+
+  if (shortages.length) {
+    throw new InsufficientStockError(shortages);
+  }
+
+  await refreshStockStatus(executor, [
+    ...new Set(lines.map((line) => line.productId)),
+  ]);
+};
+
+// Put stock back, e.g. when an order is cancelled
+export const releaseStock = async (executor: DbExecutor, lines: StockLine[]) => {
+  for (const line of lines) {
+    await executor
+      .insert(productStock)
+      .values({
+        productId: line.productId,
+        size: normalizeSize(line.size),
+        quantity: line.quantity,
+      })
+      .onConflictDoUpdate({
+        target: [productStock.productId, productStock.size],
+        set: {
+          quantity: sql`${productStock.quantity} + ${line.quantity}`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  await refreshStockStatus(executor, [
+    ...new Set(lines.map((line) => line.productId)),
+  ]);
+};
+
+// Set absolute quantities per size, e.g. { S: 10, M: 4 }
+export const setStockLevels = async (
+  executor: DbExecutor,
+  productId: number,
+  levels: Record<string, number>
+) => {
+  for (const [size, quantity] of Object.entries(levels)) {
+    await executor
+      .insert(productStock)
+      .values({ productId, size, quantity })
+      .onConflictDoUpdate({
+        target: [productStock.productId, productStock.size],
+        set: { quantity, updatedAt: new Date() },
+      });
+  }
+
+  await refreshStockStatus(executor, [productId]);
+};
+
+// Keep stock rows in line with a product's sizes after they change
+export const syncStockSizes = async (
+  executor: DbExecutor,
+  productId: number,
+  sizes: string[] | null | undefined
+) => {
+  const stockSizes = stockSizesFor(sizes);
+
+  await executor
+    .delete(productStock)
+    .where(
+      and(
+        eq(productStock.productId, productId),
+        notInArray(productStock.size, stockSizes)
+      )
+    );
+
+  await executor
+    .insert(productStock)
+    .values(stockSizes.map((size) => ({ productId, size, quantity: 0 })))
+    .onConflictDoNothing();
+
+  await refreshStockStatus(executor, [productId]);
+};
+
+// A size is low on stock once it reaches the product's threshold
+export const isLowStock = (quantity: number, threshold: number) =>
+  quantity <= threshold;
@@ -0,0 +1,206 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { ledgerEntries, orderFulfilments } from "../db/schema.js";
+import type { OrderDiscount } from "../db/schema.js";
+import { db } from "../db/index.js";
+import { resetDb } from "../test/db.js";
+import { createOrder, createProduct, createUser } from "../test/fixtures.js";
+import { createFulfilments } from "./fulfilment.service.js";
+import { LEDGER_ACCOUNTS, getSellerBalance, postDeliveredSales } from "./ledger.service.js";
+
+vi.mock("../db/index.js", () => import("../test/db.js"));
+
+let sellerId: number;
+
+// One GHS 100 item from the seller with GHS 15 shipping, delivered and paid
+const placeOrder = async (
+  options: {
+    paymentStatus?: string;
+    status?: string;
+    discountAmount?: string;
+    shippingDiscount?: number;
+    discountBreakdown?: OrderDiscount[];
+  } = {}
+) => {
+  const product = await createProduct({ sellerId, price: "100.00" });
+  const order = await createOrder({
+    paymentStatus: options.paymentStatus ?? "paid",
+    discountBreakdown: options.discountBreakdown ?? null,
+  });
+  const { fulfilments } = await createFulfilments(
+    db,
+    order.id,
+    [
+      {
+        productId: product.id,
+        sellerId,
+        quantity: 1,
+        price: "100.00",
+        size: "default",
+        discountAmount: options.discountAmount ?? "0",
+      },
+    ],
+    new Map([[sellerId, 1500]]),
+    new Map([[sellerId, options.shippingDiscount ?? 0]])
+  );
+  await db
+    .update(orderFulfilments)
+    .set({ status: options.status ?? "delivered" })
+    .where(eq(orderFulfilments.id, fulfilments[0]!.id));
+
+  return order.id;
+};
+
+// Debit or credit per entry type and account, e.g. { "sale customer_funds": "100.00" }
+const postings = async () => {
+  const entries = await db.select().from(ledgerEntries);
+  return Object.fromEntries(
+    entries.map((entry) => [
+      `${entry.entryType} ${entry.account}`,
+      parseFloat(entry.debit) ? entry.debit : entry.credit,
+    ])
+  );
+};
+
+const discount = (overrides: Partial<OrderDiscount>): OrderDiscount => ({
+  couponId: 1,
+  couponCode: "SAVE",
+  type: "fixed",
+  appliesTo: "items",
+  fundedBy: "marketplace",
+  amount: "10.00",
+  ...overrides,
+});
+
+describe("postDeliveredSales", () => {
+  beforeEach(async () => {
+    await resetDb();
+    sellerId = (await createUser({ role: "seller" })).id;
+  });
+
+  it("posts the sale with commission and the shipping as platform revenue", async () => {
+    const orderId = await placeOrder();
+
+    expect(await postDeliveredSales(db, orderId)).toBe(2);
+    expect(await postings()).toEqual({
+      "sale customer_funds": "100.00",
+      "sale seller_payable": "90.00",
+      "sale commission_revenue": "10.00",
+      "shipping customer_funds": "15.00",
+      "shipping shipping_revenue": "15.00",
+    });
+  });
+
+  it("keeps every posting balanced", async () => {
+    await postDeliveredSales(
+      db,
+      await placeOrder({
+        discountAmount: "10.00",
+        shippingDiscount: 500,
+        discountBreakdown: [discount({})],
+      })
+    );
+
+    const groups = new Map<string, number>();
+    for (const entry of await db.select().from(ledgerEntries)) {
+      const net = parseFloat(entry.debit) - parseFloat(entry.credit);
+      groups.set(entry.entryGroup, (groups.get(entry.entryGroup) ?? 0) + net);
+    }
+    expect(groups.size).toBe(2);
+    for (const net of groups.values()) expect(net).toBeCloseTo(0);
+  });
+
+  it("posts nothing until the order is paid", async () => {
+    const orderId = await placeOrder({ paymentStatus: "pending" });
+
+    expect(await postDeliveredSales(db, orderId)).toBe(0);
+    expect(await db.select().from(ledgerEntries)).toEqual([]);
+  });
+
+  it("posts nothing for fulfilments not yet delivered", async () => {
+    const orderId = await placeOrder({ status: "shipped" });
+
+    expect(await postDeliveredSales(db, orderId)).toBe(0);
+    expect(await db.select().from(ledgerEntries)).toEqual([]);
+  });
+
+  it("posts each sale and shipping fee once", async () => {
+    const orderId = await placeOrder();
+    await postDeliveredSales(db, orderId);
+
+    expect(await postDeliveredSales(db, orderId)).toBe(0);
+    expect(await db.select().from(ledgerEntries)).toHaveLength(5);
+  });
+
+  it("charges a marketplace item discount to promotion expense", async () => {
+    const orderId = await placeOrder({
+      discountAmount: "10.00",
+      discountBreakdown: [discount({})],
+    });
+    await postDeliveredSales(db, orderId);
+
+    expect(await postings()).toMatchObject({
+      "sale customer_funds": "90.00",
+      "sale promotion_expense": "10.00",
+      "sale seller_payable": "90.00",
+      "sale commission_revenue": "10.00",
+    });
+  });
+
+  it("takes a seller's item discount off their gross", async () => {
+    const orderId = await placeOrder({
+      discountAmount: "10.00",
+      discountBreakdown: [discount({ fundedBy: "seller" })],
+    });
+    await postDeliveredSales(db, orderId);
+
+    const posted = await postings();
+    expect(posted).toMatchObject({
+      "sale customer_funds": "90.00",
+      "sale seller_payable": "81.00",
+      "sale commission_revenue": "9.00",
+    });
+    expect(posted).not.toHaveProperty("sale promotion_expense");
+  });
+
+  it.each([
+    { fundedBy: "marketplace" as const, account: LEDGER_ACCOUNTS.promotionExpense },
+    { fundedBy: "seller" as const, account: LEDGER_ACCOUNTS.sellerPayable },
+  ])("charges $fundedBy free shipping to $account", async ({ fundedBy, account }) => {
+    const orderId = await placeOrder({
+      shippingDiscount: 1500,
+      discountBreakdown: [
+        discount({ type: "free_shipping", appliesTo: "shipping", fundedBy, amount: "15.00" }),
+      ],
+    });
+    await postDeliveredSales(db, orderId);
+
+    const posted = await postings();
+    expect(posted).toMatchObject({
+      [`shipping ${account}`]: "15.00",
+      "shipping shipping_revenue": "15.00",
+    });
+    expect(posted).not.toHaveProperty("shipping customer_funds");
+  });
+
+  it("leaves shipping out of the seller's sales but takes free shipping they fund off their balance", async () => {
+    const orderId = await placeOrder({
+      shippingDiscount: 1500,
+      discountBreakdown: [
+        discount({
+          type: "free_shipping",
+          appliesTo: "shipping",
+          fundedBy: "seller",
+          amount: "15.00",
+        }),
+      ],
+    });
+    await postDeliveredSales(db, orderId);
+
+    expect(await getSellerBalance(db, sellerId)).toMatchObject({
+      grossSales: "100.00",
+      netEarnings: "90.00",
+      available: "75.00",
+    });
+  });
+});
@@ -0,0 +1,424 @@
+import crypto from "node:crypto";
+import { and, eq, gt, gte, inArray, isNotNull, notExists, or, sql } from "drizzle-orm";
+import {
+  commissionRates,
+  ledgerEntries,
+  orderFulfilments,
+  orderItems,
+  orders,
+  payoutBatches,
+  payouts,
+  products,
+  sellerProfiles,
+} from "../db/schema.js";
+import type { DbExecutor } from "../db/index.js";
+import { toPesewas, formatPesewas } from "../utils/money.js";
+
+// Ledger accounts; seller_payable is kept per seller and is what the marketplace owes them
+export const LEDGER_ACCOUNTS = {
+  customerFunds: "customer_funds", // Money collected from customers
+  sellerPayable: "seller_payable",
+  commissionRevenue: "commission_revenue",
+  shippingRevenue: "shipping_revenue", // Delivery fees charged on orders
+  promotionExpense: "promotion_expense", // Coupon discounts the marketplace pays for
+  payoutCash: "payout_cash", // Money sent to sellers' mobile money wallets
+} as const;
+
+// Commission taken when no category or seller rate is configured, e.g. 0.10 = 10%
+export const DEFAULT_COMMISSION_RATE = process.env.MARKETPLACE_COMMISSION_RATE || "0.10";
+
+// Sellers with a smaller balance are left for a later batch
+const MIN_PAYOUT_AMOUNT = parseFloat(process.env.MIN_PAYOUT_AMOUNT || "10");
+
+// Arbitrary key for the advisory lock that serialises payout batch runs
+const PAYOUT_BATCH_LOCK = 7301;
+
+export const isValidCommissionRate = (rate: unknown) => {
+  const value = Number(rate);
+  return rate !== "" && rate !== null && !isNaN(value) && value >= 0 && value < 1;
+};
+
+// Seller rate first, then the product's subcategory, then its category, then the default
+export const resolveCommissionRate = async (
+  executor: DbExecutor,
+  product: {
+    sellerId: number;
+    categoryId: number | null;
+    subCategoryId: number | null;
+  }
+) => {
+  const categoryIds = [product.subCategoryId, product.categoryId].filter(
+    (id): id is number => id !== null
+  );
+
+  const rates = await executor
+    .select()
+    .from(commissionRates)
+    .where(
+      or(
+        eq(commissionRates.sellerId, product.sellerId),
+        categoryIds.length
+          ? inArray(commissionRates.categoryId, categoryIds)
+          : undefined
+      )
+    );
+
+  const match =
+    rates.find((rate) => rate.sellerId === product.sellerId) ??
+    categoryIds
+      .map((id) => rates.find((rate) => rate.categoryId === id))
+      .find(Boolean);
+
+  return match?.rate ?? DEFAULT_COMMISSION_RATE;
+};
+
+// Post the sale of every delivered item of a paid order, and the shipping of
+// every delivered fulfilment, that isn't in the ledger yet
+// Safe to call repeatedly: from delivery updates and from the payment webhook
+export const postDeliveredSales = async (executor: DbExecutor, orderId: number) => {
+  const order = await executor
+    .select({
+      orderNumber: orders.orderNumber,
+      paymentStatus: orders.paymentStatus,
+      discountBreakdown: orders.discountBreakdown,
+    })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+
+  if (order[0]?.paymentStatus !== "paid") return 0;
+
+  const discounts = order[0].discountBreakdown ?? [];
+  const sellerFunded = discounts.some(
+    (discount) => discount.appliesTo === "items" && discount.fundedBy === "seller"
+  );
+  const sellerFundedShipping = discounts.some(
+    (discount) => discount.appliesTo === "shipping" && discount.fundedBy === "seller"
+  );
+
+  const items = await executor
+    .select({
+      id: orderItems.id,
+      quantity: orderItems.quantity,
+      price: orderItems.price,
+      discountAmount: orderItems.discountAmount,
+      sellerId: orderFulfilments.sellerId,
+      categoryId: products.categoryId,
+      subCategoryId: products.subCategoryId,
+    })
+    .from(orderItems)
+    .innerJoin(orderFulfilments, eq(orderItems.fulfilmentId, orderFulfilments.id))
+    .innerJoin(products, eq(orderItems.productId, products.id))
+    .where(
+      and(
+        eq(orderItems.orderId, orderId),
+        eq(orderFulfilments.status, "delivered"),
+        // Items sold by the marketplace itself have no seller to pay
+        isNotNull(orderFulfilments.sellerId),
+        notExists(
+          executor
+            .select({ id: ledgerEntries.id })
+            .from(ledgerEntries)
+            .where(eq(ledgerEntries.orderItemId, orderItems.id))
+        )
+      )
+    );
+
+  for (const item of items) {
+    const sellerId = item.sellerId!;
+    const rate = await resolveCommissionRate(executor, { ...item, sellerId });
+    const discount = toPesewas(item.discountAmount);
+    const paid = toPesewas(item.price) * item.quantity - discount;
+
+    // Seller-funded coupons lower the seller's gross; otherwise the marketplace
+    // covers the discount and the seller is paid on the full price
+    const gross = sellerFunded ? paid : paid + discount;
+    const commission = Math.round(gross * parseFloat(rate));
+    const entry = {
+      entryGroup: crypto.randomUUID(),
+      entryType: "sale",
+      sellerId,
+      orderItemId: item.id,
+    };
+
+    // Dr customer funds (paid) + Dr promotion expense (marketplace discount)
+    // = Cr seller payable (net) + Cr commission
+    await executor
+      .insert(ledgerEntries)
+      .values([
+        {
+          ...entry,
+          account: LEDGER_ACCOUNTS.customerFunds,
+          debit: formatPesewas(paid),
+        },
+        ...(gross > paid
+          ? [
+              {
+                ...entry,
+                account: LEDGER_ACCOUNTS.promotionExpense,
+                debit: formatPesewas(gross - paid),
+              },
+            ]
+          : []),
+        {
+          ...entry,
+          account: LEDGER_ACCOUNTS.sellerPayable,
+          credit: formatPesewas(gross - commission),
+        },
+        {
+          ...entry,
+          account: LEDGER_ACCOUNTS.commissionRevenue,
+          credit: formatPesewas(commission),
+          commissionRate: rate,
+        },
+      ])
+      .onConflictDoNothing();
+  }
+
+  const shipments = await executor
+    .select({
+      id: orderFulfilments.id,
+      sellerId: orderFulfilments.sellerId,
+      shippingFee: orderFulfilments.shippingFee,
+      shippingDiscount: orderFulfilments.shippingDiscount,
+    })
+    .from(orderFulfilments)
+    .where(
+      and(
+        eq(orderFulfilments.orderId, orderId),
+        eq(orderFulfilments.status, "delivered"),
+        gt(orderFulfilments.shippingFee, "0"),
+        notExists(
+          executor
+            .select({ id: ledgerEntries.id })
+            .from(ledgerEntries)
+            .where(eq(ledgerEntries.fulfilmentId, orderFulfilments.id))
+        )
+      )
+    );
+
+  for (const shipment of shipments) {
+    const fee = toPesewas(shipment.shippingFee);
+    const waived = Math.min(toPesewas(shipment.shippingDiscount), fee);
+    const entry = {
+      entryGroup: crypto.randomUUID(),
+      entryType: "shipping",
+      sellerId: shipment.sellerId,
+      fulfilmentId: shipment.id,
+      memo: `Shipping for order ${order[0].orderNumber}`,
+    };
+
+    // Dr customer funds (paid) + Dr promotion expense or seller payable (waived)
+    // = Cr shipping revenue (fee)
+    await executor
+      .insert(ledgerEntries)
+      .values([
+        ...(fee > waived
+          ? [
+              {
+                ...entry,
+                account: LEDGER_ACCOUNTS.customerFunds,
+                debit: formatPesewas(fee - waived),
+              },
+            ]
+          : []),
+        ...(waived
+          ? [
+              {
+                ...entry,
+                // A seller's free shipping coupon comes out of their balance
+                account: sellerFundedShipping
+                  ? LEDGER_ACCOUNTS.sellerPayable
+                  : LEDGER_ACCOUNTS.promotionExpense,
+                debit: formatPesewas(waived),
+              },
+            ]
+          : []),
+        {
+          ...entry,
+          account: LEDGER_ACCOUNTS.shippingRevenue,
+          credit: formatPesewas(fee),
+        },
+      ])
+      .onConflictDoNothing();
+  }
+
+  return items.length + shipments.length;
+};
+
+// Totals for a seller's dashboard
+export const getSellerBalance = async (executor: DbExecutor, sellerId: number) => {
+  const isSale = eq(ledgerEntries.entryType, "sale");
+  const totals = await executor
+    .select({
+      available: sql<string>`coalesce(sum(${ledgerEntries.credit} - ${ledgerEntries.debit}) filter (where ${ledgerEntries.account} = ${LEDGER_ACCOUNTS.sellerPayable}), 0)`,
+      grossSales: sql<string>`coalesce(sum(${ledgerEntries.debit}) filter (where ${ledgerEntries.account} in (${LEDGER_ACCOUNTS.customerFunds}, ${LEDGER_ACCOUNTS.promotionExpense}) and ${isSale}), 0)`,
+      commission: sql<string>`coalesce(sum(${ledgerEntries.credit}) filter (where ${ledgerEntries.account} = ${LEDGER_ACCOUNTS.commissionRevenue} and ${isSale}), 0)`,
+      netEarnings: sql<string>`coalesce(sum(${ledgerEntries.credit}) filter (where ${ledgerEntries.account} = ${LEDGER_ACCOUNTS.sellerPayable} and ${isSale}), 0)`,
+    })
+    .from(ledgerEntries)
+    .where(eq(ledgerEntries.sellerId, sellerId));
+
+  const payoutTotals = await executor
+    .select({
+      pending: sql<string>`coalesce(sum(${payouts.amount}) filter (where ${payouts.status} = 'pending'), 0)`,
+      paid: sql<string>`coalesce(sum(${payouts.amount}) filter (where ${payouts.status} = 'paid'), 0)`,
+    })
+    .from(payouts)
+    .where(eq(payouts.sellerId, sellerId));
+
+  const amount = (value: string | undefined) => parseFloat(value ?? "0").toFixed(2);
+
+  return {
+    available: amount(totals[0]?.available),
+    grossSales: amount(totals[0]?.grossSales),
+    commission: amount(totals[0]?.commission),
+    netEarnings: amount(totals[0]?.netEarnings),
+    pendingPayouts: amount(payoutTotals[0]?.pending),
+    paidOut: amount(payoutTotals[0]?.paid),
+  };
+};
+
+// Pay out every approved seller's balance to their mobile money number
+// The payout is taken off the balance immediately; a failed payout is reversed
+// Returns undefined when no seller has enough to pay out
+export const createPayoutBatch = async (
+  executor: DbExecutor,
+  createdBy: number
+) => {
+  await executor.execute(sql`select pg_advisory_xact_lock(${PAYOUT_BATCH_LOCK})`);
+
+  const balance = sql<string>`sum(${ledgerEntries.credit} - ${ledgerEntries.debit})`;
+  const balances = await executor
+    .select({
+      sellerId: ledgerEntries.sellerId,
+      balance,
+      momoNumber: sellerProfiles.payoutMomoNumber,
+      momoProvider: sellerProfiles.payoutMomoProvider,
+    })
+    .from(ledgerEntries)
+    .innerJoin(
+      sellerProfiles,
+      and(
+        eq(ledgerEntries.sellerId, sellerProfiles.userId),
+        eq(sellerProfiles.status, "approved"),
+        isNotNull(sellerProfiles.payoutMomoNumber)
+      )
+    )
+    .where(eq(ledgerEntries.account, LEDGER_ACCOUNTS.sellerPayable))
+    .groupBy(
+      ledgerEntries.sellerId,
+      sellerProfiles.payoutMomoNumber,
+      sellerProfiles.payoutMomoProvider
+    )
+    .having(gte(balance, MIN_PAYOUT_AMOUNT.toFixed(2)));
+
+  if (!balances.length) return undefined;
+
+  const total = balances.reduce((sum, row) => sum + toPesewas(row.balance), 0);
+
+  const batch = await executor
+    .insert(payoutBatches)
+    .values({
+      status: "pending",
+      totalAmount: formatPesewas(total),
+      payoutCount: balances.length,
+      createdBy,
+    })
+    .returning();
+
+  const created = await executor
+    .insert(payouts)
+    .values(
+      balances.map((row) => ({
+        batchId: batch[0]!.id,
+        sellerId: row.sellerId!,
+        amount: formatPesewas(toPesewas(row.balance)),
+        momoNumber: row.momoNumber!, // Sellers without a number were left out above
+        momoProvider: row.momoProvider,
+        status: "pending",
+      }))
+    )
+    .returning();
+
+  // Dr seller payable = Cr payout cash
+  await executor.insert(ledgerEntries).values(
+    created.flatMap((payout) => {
+      const entry = {
+        entryGroup: crypto.randomUUID(),
+        entryType: "payout",
+        sellerId: payout.sellerId,
+        payoutId: payout.id,
+      };
+      return [
+        { ...entry, account: LEDGER_ACCOUNTS.sellerPayable, debit: payout.amount },
+        { ...entry, account: LEDGER_ACCOUNTS.payoutCash, credit: payout.amount },
+      ];
+    })
+  );
+
+  return { ...batch[0]!, payouts: created };
+};
+
+// Record the outcome of a payout; failed payouts go back on the seller's balance
+// Returns undefined when the payout doesn't exist or was already settled
+export const settlePayout = async (
+  executor: DbExecutor,
+  payoutId: number,
+  outcome: {
+    status: "paid" | "failed";
+    providerReference?: string | null;
+    failureReason?: string | null;
+  }
+) => {
+  const updated = await executor
+    .update(payouts)
+    .set({
+      status: outcome.status,
+      providerReference: outcome.providerReference ?? null,
+      failureReason: outcome.failureReason ?? null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(payouts.id, payoutId), eq(payouts.status, "pending")))
+    .returning();
+
+  const payout = updated[0];
+  if (!payout) return undefined;
+
+  if (outcome.status === "failed") {
+    const entry = {
+      entryGroup: crypto.randomUUID(),
+      entryType: "payout_reversal",
+      sellerId: payout.sellerId,
+      payoutId: payout.id,
+      memo: outcome.failureReason ?? null,
+    };
+    await executor.insert(ledgerEntries).values([
+      { ...entry, account: LEDGER_ACCOUNTS.payoutCash, debit: payout.amount },
+      { ...entry, account: LEDGER_ACCOUNTS.sellerPayable, credit: payout.amount },
+    ]);
+  }
+
+  // The batch is complete once none of its payouts are pending
+  await executor
+    .update(payoutBatches)
+    .set({ status: "completed", completedAt: new Date() })
+    .where(
+      and(
+        eq(payoutBatches.id, payout.batchId),
+        notExists(
+          executor
+            .select({ id: payouts.id })
+            .from(payouts)
+            .where(
+              and(
+                eq(payouts.batchId, payout.batchId),
+                eq(payouts.status, "pending")
+              )
+            )
+        )
+      )
+    );
+
+  return payout;
+};
@@ -0,0 +1,229 @@
+import { and, asc, eq, lte } from "drizzle-orm";
+import { notificationPreferences, notifications } from "../db/schema.js";
+import { db } from "../db/index.js";
+import type { DbExecutor } from "../db/index.js";
+import { getTransport, renderTemplate } from "./notifications/index.js";
+import type {
+  NotificationLanguage,
+  OutgoingMessage,
+  TemplateData,
+  TemplateName,
+} from "./notifications/index.js";
+
+const MINUTE_MS = 60 * 1000;
+
+// A message is given up on after this many failed attempts
+const NOTIFICATION_MAX_ATTEMPTS = parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || "5");
+
+// Wait before the first retry; it doubles after each further failure
+const NOTIFICATION_RETRY_MINUTES = parseFloat(
+  process.env.NOTIFICATION_RETRY_MINUTES || "1"
+);
+
+// Links in messages point at the storefront
+export const STOREFRONT_URL = process.env.STOREFRONT_URL || "http://localhost:5173";
+
+export interface NotificationInput extends OutgoingMessage {
+  kind: string;
+  userId?: number | null;
+}
+
+export type NotificationPreferences = Pick<
+  typeof notificationPreferences.$inferSelect,
+  "emailEnabled" | "smsEnabled" | "orderUpdates" | "cartReminders"
+> & { language: NotificationLanguage };
+
+// Used for guests and for users who never changed their preferences
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  language: "en",
+  emailEnabled: true,
+  smsEnabled: true,
+  orderUpdates: true,
+  cartReminders: true,
+};
+
+// Which preference lets a user turn each template off
+// null: the user asked for these one by one, e.g. wishlist alerts
+const TEMPLATE_TOPICS: Record<TemplateName, "orderUpdates" | "cartReminders" | null> = {
+  order_placed: "orderUpdates",
+  order_shipped: "orderUpdates",
+  order_delivered: "orderUpdates",
+  payment_received: "orderUpdates",
+  cart_reminder: "cartReminders",
+  wishlist_price_drop: null,
+  wishlist_back_in_stock: null,
+};
+
+// Who a message goes to; userId is null for guests
+export interface NotificationRecipient {
+  userId: number | null;
+  name: string;
+  email: string | null;
+  phone: string | null;
+}
+
+export const getNotificationPreferences = async (
+  executor: DbExecutor,
+  userId: number
+): Promise<NotificationPreferences> => {
+  const saved = await executor
+    .select()
+    .from(notificationPreferences)
+    .where(eq(notificationPreferences.userId, userId))
+    .limit(1);
+
+  if (!saved[0]) return DEFAULT_NOTIFICATION_PREFERENCES;
+
+  const { language, emailEnabled, smsEnabled, orderUpdates, cartReminders } = saved[0];
+  return {
+    language: language as NotificationLanguage,
+    emailEnabled,
+    smsEnabled,
+    orderUpdates,
+    cartReminders,
+  };
+};
+
+// Change some preferences, creating the row with the defaults on first use
+// Fields left undefined keep their current value
+export const updateNotificationPreferences = async (
+  userId: number,
+  input: { [K in keyof NotificationPreferences]?: NotificationPreferences[K] | undefined }
+) => {
+  const changes = Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined)
+  ) as Partial<NotificationPreferences>;
+
+  await db
+    .insert(notificationPreferences)
+    .values({ ...DEFAULT_NOTIFICATION_PREFERENCES, ...changes, userId })
+    .onConflictDoUpdate({
+      target: notificationPreferences.userId,
+      set: { ...changes, updatedAt: new Date() },
+    });
+
+  return getNotificationPreferences(db, userId);
+};
+
+// Queue a message; it is sent by the notifications job, so callers never wait on a gateway
+// Pass the transaction when the message should only go out if it commits
+export const enqueueNotification = async (
+  executor: DbExecutor,
+  input: NotificationInput
+) => {
+  const queued = await executor
+    .insert(notifications)
+    .values({
+      kind: input.kind,
+      channel: input.channel,
+      recipient: input.to,
+      subject: input.subject ?? null,
+      body: input.body,
+      userId: input.userId ?? null,
+    })
+    .returning({ id: notifications.id });
+
+  return queued[0]!.id;
+};
+
+// Render a template in the recipient's language and queue it by email and SMS,
+// skipping channels they turned off or we have no address for
+// Returns how many messages were queued
+export const notify = async <T extends TemplateName>(
+  executor: DbExecutor,
+  recipient: NotificationRecipient,
+  template: T,
+  data: TemplateData[T]
+) => {
+  const preferences = recipient.userId
+    ? await getNotificationPreferences(executor, recipient.userId)
+    : DEFAULT_NOTIFICATION_PREFERENCES;
+
+  const topic = TEMPLATE_TOPICS[template];
+  if (topic && !preferences[topic]) return 0;
+
+  const message = renderTemplate(template, preferences.language, data);
+  let queued = 0;
+
+  if (recipient.email && preferences.emailEnabled) {
+    await enqueueNotification(executor, {
+      kind: template,
+      channel: "email",
+      to: recipient.email,
+      subject: message.subject,
+      body: message.email,
+      userId: recipient.userId,
+    });
+    queued += 1;
+  }
+
+  if (recipient.phone && preferences.smsEnabled) {
+    await enqueueNotification(executor, {
+      kind: template,
+      channel: "sms",
+      to: recipient.phone,
+      body: message.sms,
+      userId: recipient.userId,
+    });
+    queued += 1;
+  }
+
+  return queued;
+};
+
+const retryDelayMs = (attempts: number) =>
+  NOTIFICATION_RETRY_MINUTES * MINUTE_MS * 2 ** (attempts - 1);
+
+// Send queued messages that are due, oldest first; returns how many were sent
+// A failed message is retried with backoff until NOTIFICATION_MAX_ATTEMPTS
+export const deliverPendingNotifications = async (batchSize = 50) => {
+  const now = new Date();
+  const due = await db
+    .select()
+    .from(notifications)
+    .where(and(eq(notifications.status, "pending"), lte(notifications.nextAttemptAt, now)))
+    .orderBy(asc(notifications.nextAttemptAt), asc(notifications.id))
+    .limit(batchSize);
+
+  let sent = 0;
+  for (const notification of due) {
+    const message: OutgoingMessage = {
+      channel: notification.channel as OutgoingMessage["channel"],
+      to: notification.recipient,
+      body: notification.body,
+      ...(notification.subject ? { subject: notification.subject } : {}),
+    };
+    const attempts = notification.attempts + 1;
+
+    try {
+      const transport = getTransport(message.channel);
+      const result = await transport.send(message);
+
+      await db
+        .update(notifications)
+        .set({
+          status: "sent",
+          attempts,
+          transport: transport.name,
+          providerReference: result.providerReference ?? null,
+          sentAt: new Date(),
+        })
+        .where(eq(notifications.id, notification.id));
+      sent += 1;
+    } catch (error) {
+      const givingUp = attempts >= NOTIFICATION_MAX_ATTEMPTS;
+
+      await db
+        .update(notifications)
+        .set({
+          status: givingUp ? "failed" : "pending",
+          attempts,
+          ...(givingUp ? {} : { nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)) }),
+          error: error instanceof Error ? error.message : String(error),
+        })
+        .where(eq(notifications.id, notification.id));
+    }
+  }
+
+  return sent;
+};
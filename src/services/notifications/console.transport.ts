@@ -0,0 +1,19 @@
+import crypto from "node:crypto";
+import type { NotificationTransport } from "./types.js";
+
+// Local transport for development and testing: messages are logged, not delivered
+export const consoleTransport: NotificationTransport = {
+  name: "console",
+  channels: ["email", "sms"],
+
+  async send(message) {
+    const providerReference = `CONSOLE-${crypto.randomUUID()}`;
+    const heading = message.subject ? ` "${message.subject}"` : "";
+
+    console.log(
+      `[notifications:console] ${message.channel} to ${message.to}${heading}\n${message.body}`
+    );
+
+    return { providerReference };
+  },
+};
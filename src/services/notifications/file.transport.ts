@@ -0,0 +1,24 @@
+import crypto from "node:crypto";
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import type { NotificationTransport } from "./types.js";
+
+// One JSON message per line; logs/ is git-ignored
+const NOTIFICATION_LOG_FILE = process.env.NOTIFICATION_LOG_FILE || "logs/notifications.log";
+
+// Local transport for development and testing: messages are appended to a file
+// so they can be read back, e.g. by an end-to-end test
+export const fileTransport: NotificationTransport = {
+  name: "file",
+  channels: ["email", "sms"],
+
+  async send(message) {
+    const providerReference = `FILE-${crypto.randomUUID()}`;
+    const line = JSON.stringify({ providerReference, at: new Date(), ...message });
+
+    await mkdir(path.dirname(NOTIFICATION_LOG_FILE), { recursive: true });
+    await appendFile(NOTIFICATION_LOG_FILE, `${line}\n`);
+
+    return { providerReference };
+  },
+};
@@ -0,0 +1,26 @@
+import { consoleTransport } from "./console.transport.js";
+import { fileTransport } from "./file.transport.js";
+import type { NotificationChannel, NotificationTransport } from "./types.js";
+
+export * from "./types.js";
+export * from "./templates.js";
+
+// Register real email and SMS gateways here as they are integrated
+const transports: Record<string, NotificationTransport> = {
+  [consoleTransport.name]: consoleTransport,
+  [fileTransport.name]: fileTransport,
+};
+
+// Transport for a channel, selected with EMAIL_TRANSPORT and SMS_TRANSPORT
+export const getTransport = (channel: NotificationChannel): NotificationTransport => {
+  const name =
+    (channel === "email" ? process.env.EMAIL_TRANSPORT : process.env.SMS_TRANSPORT) ||
+    consoleTransport.name;
+  const transport = Object.hasOwn(transports, name) ? transports[name] : undefined;
+
+  if (!transport || !transport.channels.includes(channel)) {
+    throw new Error(`Unknown ${channel} transport "${name}"`);
+  }
+
+  return transport;
+};
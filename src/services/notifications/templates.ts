@@ -0,0 +1,206 @@
+import type { NotificationLanguage } from "./types.js";
+
+// What each template needs; amounts are formatted GHS strings
+export interface TemplateData {
+  order_placed: {
+    name: string;
+    orderNumber: string;
+    itemCount: number;
+    total: string;
+    orderUrl: string;
+  };
+  order_shipped: { name: string; orderNumber: string; orderUrl: string };
+  order_delivered: { name: string; orderNumber: string };
+  payment_received: { name: string; orderNumber: string; amount: string };
+  cart_reminder: { name: string; itemCount: number; cartValue: string; cartUrl: string };
+  wishlist_price_drop: {
+    name: string;
+    productName: string;
+    oldPrice: string;
+    newPrice: string;
+    productUrl: string;
+  };
+  wishlist_back_in_stock: {
+    name: string;
+    productName: string;
+    size: string | null; // Null for products without sizes
+    productUrl: string;
+  };
+}
+
+export type TemplateName = keyof TemplateData;
+
+export interface RenderedMessage {
+  subject: string;
+  email: string;
+  sms: string; // Kept short enough for one or two SMS segments
+}
+
+type Template<T extends TemplateName> = (data: TemplateData[T]) => RenderedMessage;
+
+const SIGN_OFF = "\n\nGhana Marketplace";
+const SMS_PREFIX = "Ghana Marketplace:";
+
+const items: Record<NotificationLanguage, (count: number) => string> = {
+  en: (count) => (count === 1 ? "1 item" : `${count} items`),
+  tw: (count) => (count === 1 ? "adeɛ 1" : `nneɛma ${count}`),
+};
+
+const inSize: Record<NotificationLanguage, (size: string | null) => string> = {
+  en: (size) => (size ? ` in size ${size}` : ""),
+  tw: (size) => (size ? ` (kɛseɛ ${size})` : ""),
+};
+
+// Every template in every language, so a missing translation fails the type check
+const templates: { [T in TemplateName]: Record<NotificationLanguage, Template<T>> } = {
+  order_placed: {
+    en: ({ name, orderNumber, itemCount, total, orderUrl }) => ({
+      subject: `We've received your order ${orderNumber}`,
+      email:
+        `Hi ${name},\n\n` +
+        `Thank you for your order ${orderNumber}: ${items.en(itemCount)}, GHS ${total} in total. ` +
+        "We'll let you know when it is on its way.\n\n" +
+        `View your order: ${orderUrl}` +
+        SIGN_OFF,
+      sms: `${SMS_PREFIX} we've received your order ${orderNumber} (GHS ${total}). Thank you! ${orderUrl}`,
+    }),
+    tw: ({ name, orderNumber, itemCount, total, orderUrl }) => ({
+      subject: `Yɛanya wo order ${orderNumber}`,
+      email:
+        `${name}, medaase!\n\n` +
+        `Yɛanya wo order ${orderNumber}: ${items.tw(itemCount)}, ne nyinaa GHS ${total}. ` +
+        "Yɛbɛbɔ wo amanneɛ bere a ɛreba.\n\n" +
+        `Hwɛ wo order: ${orderUrl}` +
+        SIGN_OFF,
+      sms: `${SMS_PREFIX} yɛanya wo order ${orderNumber} (GHS ${total}). Medaase! ${orderUrl}`,
+    }),
+  },
+
+  order_shipped: {
+    en: ({ name, orderNumber, orderUrl }) => ({
+      subject: `Your order ${orderNumber} is on its way`,
+      email:
+        `Hi ${name},\n\n` +
+        `Your order ${orderNumber} has been shipped and is on its way to you.\n\n` +
+        `Track it here: ${orderUrl}` +
+        SIGN_OFF,
+      sms: `${SMS_PREFIX} your order ${orderNumber} is on its way. ${orderUrl}`,
+    }),
+    tw: ({ name, orderNumber, orderUrl }) => ({
+      subject: `Wo order ${orderNumber} reba`,
+      email:
+        `${name},\n\n` +
+        `Yɛde wo order ${orderNumber} akɔ kwan so, ɛreba wo nkyɛn.\n\n` +
+        `Hwɛ baabi a ɛduru: ${orderUrl}` +
+        SIGN_OFF,
+      sms: `${SMS_PREFIX} wo order ${orderNumber} reba wo nkyɛn. ${orderUrl}`,
+    }),
+  },
+
+  order_delivered: {
+    en: ({ name, orderNumber }) => ({
+      subject: `Your order ${orderNumber} has been delivered`,
+      email:
+        `Hi ${name},\n\n` +
+        `Your order ${orderNumber} has been delivered. Thank you for shopping with us!` +
+        SIGN_OFF,
+      sms: `${SMS_PREFIX} your order ${orderNumber} has been delivered. Thank you!`,
+    }),
+    tw: ({ name, orderNumber }) => ({
+      subject: `Wo order ${orderNumber} aduru`,
+      email:
+        `${name},\n\n` +
+        `Wo order ${orderNumber} aduru wo nsam. Medaase sɛ wotɔɔ adeɛ wɔ yɛn nkyɛn!` +
+        SIGN_OFF,
+      sms: `${SMS_PREFIX} wo order ${orderNumber} aduru. Medaase!`,
+    }),
+  },
+
+  payment_received: {
+    en: ({ name, orderNumber, amount }) => ({
+      subject: `Payment received for order ${orderNumber}`,
+      email:
+        `Hi ${name},\n\n` +
+        `We've received your payment of GHS ${amount} for order ${orderNumber}. Thank you!` +
+        SIGN_OFF,
+      sms: `${SMS_PREFIX} payment of GHS ${amount} received for order ${orderNumber}. Thank you!`,
+    }),
+    tw: ({ name, orderNumber, amount }) => ({
+      subject: `Yɛanya wo sika ma order ${orderNumber}`,
+      email:
+        `${name},\n\n` +
+        `Yɛanya GHS ${amount} a wotuaeɛ ma order ${orderNumber}. Medaase!` +
+        SIGN_OFF,
+      sms: `${SMS_PREFIX} yɛanya GHS ${amount} ma order ${orderNumber}. Medaase!`,
+    }),
+  },
+
+  cart_reminder: {
+    en: ({ name, itemCount, cartValue, cartUrl }) => ({
+      subject: "You left something in your cart",
+      email:
+        `Hi ${name},\n\n` +
+        `You still have ${items.en(itemCount)} (GHS ${cartValue}) waiting in your cart. ` +
+        `Pick up where you left off: ${cartUrl}` +
+        SIGN_OFF,
+      sms: `${SMS_PREFIX} you still have ${items.en(itemCount)} (GHS ${cartValue}) in your cart. ${cartUrl}`,
+    }),
+    tw: ({ name, itemCount, cartValue, cartUrl }) => ({
+      subject: "Wogyaa biribi wɔ wo kart mu",
+      email:
+        `${name},\n\n` +
+        `${items.tw(itemCount)} (GHS ${cartValue}) da so wɔ wo kart mu. ` +
+        `Toa so fi baabi a wugyinaeɛ: ${cartUrl}` +
+        SIGN_OFF,
+      sms: `${SMS_PREFIX} ${items.tw(itemCount)} (GHS ${cartValue}) da so wɔ wo kart mu. ${cartUrl}`,
+    }),
+  },
+
+  wishlist_price_drop: {
+    en: ({ name, productName, oldPrice, newPrice, productUrl }) => ({
+      subject: `Price drop: ${productName}`,
+      email:
+        `Hi ${name},\n\n` +
+        `${productName} on your wishlist is now GHS ${newPrice}, down from GHS ${oldPrice}.\n\n` +
+        `Take a look: ${productUrl}` +
+        SIGN_OFF,
+      sms: `${SMS_PREFIX} ${productName} on your wishlist is now GHS ${newPrice} (was GHS ${oldPrice}). ${productUrl}`,
+    }),
+    tw: ({ name, productName, oldPrice, newPrice, productUrl }) => ({
+      subject: `${productName} bo so ate`,
+      email:
+        `${name},\n\n` +
+        `${productName} a ɛwɔ wo wishlist mu no bo so ate: ɛfiri GHS ${oldPrice} akɔ GHS ${newPrice}.\n\n` +
+        `Hwɛ: ${productUrl}` +
+        SIGN_OFF,
+      sms: `${SMS_PREFIX} ${productName} bo so ate, seesei ɛyɛ GHS ${newPrice} (na ɛyɛ GHS ${oldPrice}). ${productUrl}`,
+    }),
+  },
+
+  wishlist_back_in_stock: {
+    en: ({ name, productName, size, productUrl }) => ({
+      subject: `Back in stock: ${productName}`,
+      email:
+        `Hi ${name},\n\n` +
+        `${productName}${inSize.en(size)} from your wishlist is back in stock. ` +
+        `Get it before it sells out again: ${productUrl}` +
+        SIGN_OFF,
+      sms: `${SMS_PREFIX} ${productName}${inSize.en(size)} is back in stock. ${productUrl}`,
+    }),
+    tw: ({ name, productName, size, productUrl }) => ({
+      subject: `${productName} aba bio`,
+      email:
+        `${name},\n\n` +
+        `${productName}${inSize.tw(size)} a ɛwɔ wo wishlist mu no aba bio. ` +
+        `Tɔ bi ansa na asa bio: ${productUrl}` +
+        SIGN_OFF,
+      sms: `${SMS_PREFIX} ${productName}${inSize.tw(size)} aba bio. ${productUrl}`,
+    }),
+  },
+};
+
+export const renderTemplate = <T extends TemplateName>(
+  template: T,
+  language: NotificationLanguage,
+  data: TemplateData[T]
+): RenderedMessage => (templates[template] as Record<NotificationLanguage, Template<T>>)[language](data);
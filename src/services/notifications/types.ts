@@ -0,0 +1,28 @@
+export const NOTIFICATION_CHANNELS = ["email", "sms"] as const;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+// pending until sent, or until every retry has failed
+export type NotificationStatus = "pending" | "sent" | "failed";
+
+// English and Twi
+export const NOTIFICATION_LANGUAGES = ["en", "tw"] as const;
+export type NotificationLanguage = (typeof NOTIFICATION_LANGUAGES)[number];
+
+export interface OutgoingMessage {
+  channel: NotificationChannel;
+  to: string; // Email address or phone number
+  subject?: string; // Email only
+  body: string;
+}
+
+export interface SendResult {
+  providerReference?: string;
+}
+
+// Every email or SMS gateway implements this interface
+// send rejects when the message could not be handed over
+export interface NotificationTransport {
+  name: string;
+  channels: readonly NotificationChannel[];
+  send(message: OutgoingMessage): Promise<SendResult>;
+}
@@ -0,0 +1,91 @@
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { orderItems, orders, users } from "../db/schema.js";
+import type { DbExecutor } from "../db/index.js";
+import { formatPesewas, toPesewas } from "../utils/money.js";
+import { STOREFRONT_URL, notify } from "./notification.service.js";
+import type { NotificationRecipient } from "./notification.service.js";
+
+// Order lifecycle events the customer hears about
+export type OrderEvent =
+  | { type: "order_placed"; orderId: number }
+  | { type: "order_shipped"; orderId: number }
+  | { type: "order_delivered"; orderId: number }
+  | { type: "payment_received"; orderId: number; amount: string };
+
+type OrderRow = typeof orders.$inferSelect;
+
+// The account holder, or the contact details given at guest checkout
+// Undefined when there is nobody to tell, e.g. the account was deleted
+const findRecipient = async (
+  executor: DbExecutor,
+  order: OrderRow
+): Promise<NotificationRecipient | undefined> => {
+  if (!order.userId) {
+    return order.guestInfo ? { userId: null, ...order.guestInfo } : undefined;
+  }
+
+  const user = await executor
+    .select({ name: users.name, email: users.email, phone: users.phone })
+    .from(users)
+    .where(and(eq(users.id, order.userId), isNull(users.deletedAt)))
+    .limit(1);
+
+  return user[0] ? { userId: order.userId, ...user[0] } : undefined;
+};
+
+// Users see the order in their account; guests look it up on the tracking page
+const orderUrl = (order: OrderRow) =>
+  order.userId
+    ? `${STOREFRONT_URL}/orders/${order.id}`
+    : `${STOREFRONT_URL}/track-order?orderNumber=${order.orderNumber}`;
+
+const countItems = async (executor: DbExecutor, orderId: number) => {
+  const counted = await executor
+    .select({ itemCount: sql<number>`coalesce(sum(${orderItems.quantity}), 0)`.mapWith(Number) })
+    .from(orderItems)
+    .where(eq(orderItems.orderId, orderId));
+
+  return counted[0]?.itemCount ?? 0;
+};
+
+// Queue the customer's email and SMS for an order event
+// Publish inside the transaction that makes the change, so nothing is sent if it rolls back
+export const publishOrderEvent = async (executor: DbExecutor, event: OrderEvent) => {
+  const found = await executor
+    .select()
+    .from(orders)
+    .where(eq(orders.id, event.orderId))
+    .limit(1);
+
+  const order = found[0];
+  const recipient = order ? await findRecipient(executor, order) : undefined;
+  if (!order || !recipient) return 0;
+
+  const { name } = recipient;
+  const { orderNumber } = order;
+
+  switch (event.type) {
+    case "order_placed":
+      return notify(executor, recipient, "order_placed", {
+        name,
+        orderNumber,
+        itemCount: await countItems(executor, order.id),
+        total: formatPesewas(toPesewas(order.totalAmount)),
+        orderUrl: orderUrl(order),
+      });
+    case "order_shipped":
+      return notify(executor, recipient, "order_shipped", {
+        name,
+        orderNumber,
+        orderUrl: orderUrl(order),
+      });
+    case "order_delivered":
+      return notify(executor, recipient, "order_delivered", { name, orderNumber });
+    case "payment_received":
+      return notify(executor, recipient, "payment_received", {
+        name,
+        orderNumber,
+        amount: formatPesewas(toPesewas(event.amount)),
+      });
+  }
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { allowedNextStatuses, canTransition } from "./orderStatus.service.js";
+import type { OrderStatus } from "./orderStatus.service.js";
+
+describe("canTransition", () => {
+  it.each<[string | null, OrderStatus, boolean]>([
+    ["pending", "processing", true],
+    ["pending", "cancelled", true],
+    ["pending", "shipped", false],
+    ["pending", "delivered", false],
+    ["processing", "shipped", true],
+    ["processing", "cancelled", true],
+    ["processing", "pending", false],
+    ["shipped", "delivered", true],
+    ["shipped", "cancelled", false],
+    ["shipped", "processing", false],
+    ["delivered", "cancelled", false],
+    ["cancelled", "pending", false],
+    ["refunded", "pending", false],
+    [null, "pending", false],
+  ])("%s -> %s: %s", (from, to, allowed) => {
+    expect(canTransition(from, to)).toBe(allowed);
+  });
+
+  it("offers nothing after delivery or cancellation", () => {
+    expect(allowedNextStatuses("delivered")).toEqual([]);
+    expect(allowedNextStatuses("cancelled")).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import { orderStatusHistory } from "../db/schema.js";
+import type { DbExecutor } from "../db/index.js";
+
+export const ORDER_STATUSES = [
+  "pending",
+  "processing",
+  "shipped",
+  "delivered",
+  "cancelled",
+] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// The normal progression of an order, used to render tracking steps
+export const FULFILMENT_STEPS: OrderStatus[] = [
+  "pending",
+  "processing",
+  "shipped",
+  "delivered",
+];
+
+// Allowed next statuses; orders can only be cancelled before they ship
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["processing", "cancelled"],
+  processing: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+export const isOrderStatus = (value: unknown): value is OrderStatus =>
+  ORDER_STATUSES.includes(value as OrderStatus);
+
+export const allowedNextStatuses = (from: string | null): OrderStatus[] =>
+  isOrderStatus(from) ? TRANSITIONS[from] : [];
+
+export const canTransition = (from: string | null, to: OrderStatus) =>
+  allowedNextStatuses(from).includes(to);
+
+export interface StatusActor {
+  userId: number | null;
+  role: string; // customer, seller, admin, guest, system
+}
+
+// Append an entry to an order's status history
+// Pass fulfilmentId when the change is to one seller's part of the order
+export const recordStatusChange = async (
+  executor: DbExecutor,
+  change: {
+    orderId: number;
+    fulfilmentId?: number | null;
+    fromStatus: string | null;
+    toStatus: OrderStatus;
+    actor: StatusActor;
+    note?: string | null;
+  }
+) => {
+  await executor.insert(orderStatusHistory).values({
+    orderId: change.orderId,
+    fulfilmentId: change.fulfilmentId ?? null,
+    fromStatus: change.fromStatus,
+    toStatus: change.toStatus,
+    changedBy: change.actor.userId,
+    actorRole: change.actor.role,
+    note: change.note ?? null,
+  });
+};
@@ -0,0 +1,75 @@
+import crypto from "node:crypto";
+import type {
+  PaymentProvider,
+  PaymentWebhookEvent,
+} from "./types.js";
+
+// Local provider for development and testing
+// Payments stay pending until a signed webhook is posted to /api/v1/payments/webhook/fake:
+//   header  x-fake-signature: hex HMAC-SHA256 of the raw body using PAYMENT_WEBHOOK_SECRET
+//   body    { "providerReference": "...", "status": "successful" | "failed", "reason"?: "..." }
+
+export const FAKE_SIGNATURE_HEADER = "x-fake-signature";
+
+const getWebhookSecret = () => {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error("PAYMENT_WEBHOOK_SECRET is not configured");
+  }
+  return secret;
+};
+
+// Helper for scripts and tests that need to simulate the provider
+export const signFakeWebhook = (rawBody: string | Buffer) =>
+  crypto
+    .createHmac("sha256", getWebhookSecret())
+    .update(rawBody)
+    .digest("hex");
+
+export const fakeProvider: PaymentProvider = {
+  name: "fake",
+
+  async initiatePayment(input) {
+    const providerReference = `FAKE-${crypto.randomUUID()}`;
+
+    if (input.method === "card") {
+      return {
+        providerReference,
+        status: "pending",
+        checkoutUrl: `http://localhost/fake-checkout/${providerReference}`,
+      };
+    }
+
+    return { providerReference, status: "pending" };
+  },
+
+  verifyWebhookSignature(rawBody, headers) {
+    const signature = headers[FAKE_SIGNATURE_HEADER];
+    if (typeof signature !== "string") return false;
+
+    const expected = Buffer.from(signFakeWebhook(rawBody), "hex");
+    const received = Buffer.from(signature, "hex");
+
+    return (
+      expected.length === received.length &&
+      crypto.timingSafeEqual(expected, received)
+    );
+  },
+
+  parseWebhookEvent(payload) {
+    if (!payload || typeof payload !== "object") return null;
+
+    const { providerReference, status, reason } = payload as Record<
+      string,
+      unknown
+    >;
+
+    if (typeof providerReference !== "string") return null;
+    if (status !== "successful" && status !== "failed") return null;
+
+    const event: PaymentWebhookEvent = { providerReference, status };
+    if (typeof reason === "string") event.failureReason = reason;
+
+    return event;
+  },
+};
@@ -0,0 +1,42 @@
+import { fakeProvider } from "./fake.provider.js";
+import type { PaymentProvider } from "./types.js";
+
+export * from "./types.js";
+
+// Register real gateways here as they are integrated
+const providers: Record<string, PaymentProvider> = {
+  [fakeProvider.name]: fakeProvider,
+};
+
+const isProduction = () => process.env.NODE_ENV === "production";
+
+// Anyone with the fake provider's webhook secret can mark orders paid, so in
+// production it is only available when chosen with PAYMENT_PROVIDER=fake
+const isEnabled = (provider: PaymentProvider) =>
+  provider !== fakeProvider ||
+  !isProduction() ||
+  process.env.PAYMENT_PROVIDER === fakeProvider.name;
+
+// Provider used for new payments, selected with PAYMENT_PROVIDER
+// Outside production it defaults to the fake provider
+export const getActivePaymentProvider = (): PaymentProvider => {
+  const name = process.env.PAYMENT_PROVIDER || (isProduction() ? "" : fakeProvider.name);
+
+  if (!name) {
+    throw new Error("PAYMENT_PROVIDER is not configured");
+  }
+
+  const provider = getPaymentProvider(name);
+
+  if (!provider) {
+    throw new Error(`Unknown payment provider "${name}"`);
+  }
+
+  return provider;
+};
+
+// Look up an enabled provider by name, e.g. for its webhook route
+export const getPaymentProvider = (name: string): PaymentProvider | undefined => {
+  const provider = Object.hasOwn(providers, name) ? providers[name] : undefined;
+  return provider && isEnabled(provider) ? provider : undefined;
+};
@@ -0,0 +1,49 @@
+import type { IncomingHttpHeaders } from "node:http";
+
+export const PAYMENT_METHODS = [
+  "mtn_momo",
+  "vodafone_cash",
+  "airteltigo_money",
+  "card",
+] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const MOBILE_MONEY_METHODS: PaymentMethod[] = [
+  "mtn_momo",
+  "vodafone_cash",
+  "airteltigo_money",
+];
+
+export type PaymentAttemptStatus = "pending" | "successful" | "failed";
+
+export interface InitiatePaymentInput {
+  reference: string; // Our payment reference, echoed back by the provider
+  amount: string; // Decimal string, e.g. "120.50"
+  currency: string;
+  method: PaymentMethod;
+  phone?: string; // Required for mobile money
+  email?: string;
+}
+
+export interface InitiatePaymentResult {
+  providerReference: string;
+  status: PaymentAttemptStatus;
+  checkoutUrl?: string; // Card payments redirect the customer here
+  failureReason?: string;
+}
+
+export interface PaymentWebhookEvent {
+  providerReference: string;
+  status: Exclude<PaymentAttemptStatus, "pending">;
+  failureReason?: string;
+}
+
+// Every payment gateway implements this interface
+export interface PaymentProvider {
+  name: string;
+  initiatePayment(input: InitiatePaymentInput): Promise<InitiatePaymentResult>;
+  // Verify the webhook came from the provider, using the raw request body
+  verifyWebhookSignature(rawBody: Buffer, headers: IncomingHttpHeaders): boolean;
+  // Translate a provider webhook payload; null for events we ignore
+  parseWebhookEvent(payload: unknown): PaymentWebhookEvent | null;
+}
@@ -0,0 +1,255 @@
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gte,
+  ilike,
+  lt,
+  lte,
+  or,
+  sql,
+} from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+import { products, categories } from "../db/schema.js";
+import { db } from "../db/index.js";
+
+// Each filter is kept separately so a facet can be counted without its own filter
+// (e.g. size counts ignore the selected sizes, so other sizes stay selectable)
+export type ProductFilterKey =
+  | "category"
+  | "subCategory"
+  | "size"
+  | "price"
+  | "inStock"
+  | "bestSeller"
+  | "search";
+
+export type ProductFilters = Partial<Record<ProductFilterKey, SQL | undefined>>;
+
+export const PRODUCT_SORTS = {
+  newest: [desc(products.createdAt), desc(products.id)],
+  price_asc: [asc(products.price), desc(products.id)],
+  price_desc: [desc(products.price), desc(products.id)],
+  rating: [desc(products.rating), desc(products.reviewCount), desc(products.id)],
+};
+export type ProductSort = keyof typeof PRODUCT_SORTS;
+
+// Price buckets in GHS for the filter sidebar; max is exclusive
+export const PRICE_BUCKETS = [
+  { key: "0-50", min: 0, max: 50 },
+  { key: "50-100", min: 50, max: 100 },
+  { key: "100-200", min: 100, max: 200 },
+  { key: "200-500", min: 200, max: 500 },
+  { key: "500+", min: 500, max: null },
+] as const;
+
+// Weighted search document over name, category names and description
+// Must match the expression index in drizzle/0011_next_madrox.sql for the index to be used
+export const productSearchDocument = sql`(
+  setweight(to_tsvector('english'::regconfig, coalesce(${products.name}, '')), 'A') ||
+  setweight(to_tsvector('english'::regconfig, coalesce(${products.category}, '') || ' ' || coalesce(${products.subCategory}, '')), 'B') ||
+  setweight(to_tsvector('english'::regconfig, coalesce(${products.description}, '')), 'C')
+)`;
+
+const searchQuery = (term: string) =>
+  sql`websearch_to_tsquery('english'::regconfig, ${term})`;
+
+// Full-text match, or a close trigram match on the name to tolerate
+// misspellings (e.g. "kentey" finds "Kente Stole")
+export const searchCondition = (term: string) =>
+  sql`(${productSearchDocument} @@ ${searchQuery(term)} or ${term} <% ${products.name})`;
+
+// Relevance score: text rank plus how closely the term matches the name
+export const searchRank = (term: string) =>
+  sql<number>`(ts_rank_cd(${productSearchDocument}, ${searchQuery(term)}) + word_similarity(${term}, ${products.name}))`;
+
+const listParam = (value: unknown) =>
+  String(value)
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const idParam = (value: unknown) => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+// Translate query params into filter conditions
+// Returns an error message for malformed params
+export const buildProductFilters = (
+  query: Record<string, unknown>
+): { filters: ProductFilters; error?: string } => {
+  const filters: ProductFilters = {};
+  const {
+    category,
+    categoryId,
+    subCategory,
+    subCategoryId,
+    size,
+    minPrice,
+    maxPrice,
+    inStock,
+    bestSeller,
+    search,
+  } = query;
+
+  const categoryConditions: SQL[] = [];
+  if (category) categoryConditions.push(eq(products.category, String(category)));
+  if (categoryId) {
+    const id = idParam(categoryId);
+    if (id === null) return { filters, error: "Invalid categoryId" };
+    categoryConditions.push(
+      or(eq(products.categoryId, id), eq(products.subCategoryId, id))!
+    );
+  }
+  if (categoryConditions.length) filters.category = and(...categoryConditions);
+
+  const subCategoryConditions: SQL[] = [];
+  if (subCategory) {
+    subCategoryConditions.push(eq(products.subCategory, String(subCategory)));
+  }
+  if (subCategoryId) {
+    const id = idParam(subCategoryId);
+    if (id === null) return { filters, error: "Invalid subCategoryId" };
+    subCategoryConditions.push(eq(products.subCategoryId, id));
+  }
+  if (subCategoryConditions.length) {
+    filters.subCategory = and(...subCategoryConditions);
+  }
+
+  // ?size=S,M matches products offered in any of the sizes
+  if (size) {
+    const sizes = listParam(size);
+    if (sizes.length) {
+      filters.size = sql`${products.sizes}::jsonb ?| array[${sql.join(
+        sizes.map((value) => sql`${value}`),
+        sql`, `
+      )}]::text[]`;
+    }
+  }
+
+  const priceConditions: SQL[] = [];
+  for (const [param, value, compare] of [
+    ["minPrice", minPrice, gte],
+    ["maxPrice", maxPrice, lte],
+  ] as const) {
+    if (value === undefined || value === "") continue;
+    const amount = Number(value);
+    if (isNaN(amount) || amount < 0) {
+      return { filters, error: `${param} must be a positive number` };
+    }
+    priceConditions.push(compare(products.price, amount.toFixed(2)));
+  }
+  if (priceConditions.length) filters.price = and(...priceConditions);
+
+  if (inStock === "true") filters.inStock = eq(products.inStock, true);
+  if (bestSeller === "true") filters.bestSeller = eq(products.bestSeller, true);
+  if (search && String(search).trim()) {
+    filters.search = searchCondition(String(search).trim());
+  }
+
+  return { filters };
+};
+
+// AND together every filter except the excluded one
+export const combineFilters = (
+  filters: ProductFilters,
+  exclude?: ProductFilterKey
+) =>
+  and(
+    ...Object.entries(filters)
+      .filter(([key]) => key !== exclude)
+      .map(([, condition]) => condition)
+  );
+
+// Counts for the storefront filter sidebar
+export const getProductFacets = async (filters: ProductFilters) => {
+  const categoryCounts = await db
+    .select({
+      categoryId: products.categoryId,
+      category: products.category,
+      total: count(),
+    })
+    .from(products)
+    .where(combineFilters(filters, "category"))
+    .groupBy(products.categoryId, products.category)
+    .orderBy(desc(count()));
+
+  const sizeWhere = combineFilters(filters, "size") ?? sql`true`;
+  const sizeCounts = await db.execute<{ size: string; total: number }>(sql`
+    select s.size, count(*)::int as total
+    from ${products}
+    cross join lateral json_array_elements_text(coalesce(${products.sizes}, '[]'::json)) as s(size)
+    where ${sizeWhere}
+    group by s.size
+    order by total desc, s.size
+  `);
+
+  const priceCounts = await db
+    .select(
+      Object.fromEntries(
+        PRICE_BUCKETS.map((bucket) => [
+          bucket.key,
+          sql<number>`count(*) filter (where ${and(
+            gte(products.price, bucket.min.toFixed(2)),
+            bucket.max === null
+              ? undefined
+              : lt(products.price, bucket.max.toFixed(2))
+          )})`.mapWith(Number),
+        ])
+      )
+    )
+    .from(products)
+    .where(combineFilters(filters, "price"));
+
+  return {
+    categories: categoryCounts,
+    sizes: sizeCounts.rows,
+    priceRanges: PRICE_BUCKETS.map((bucket) => ({
+      ...bucket,
+      total: Number(priceCounts[0]?.[bucket.key] ?? 0),
+    })),
+  };
+};
+
+// Escape LIKE wildcards in user input
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+// Autocomplete for the search box: product names and categories
+export const getSearchSuggestions = async (term: string, limit = 8) => {
+  const prefix = `${escapeLike(term)}%`;
+
+  const productSuggestions = await db
+    .select({
+      id: products.id,
+      name: products.name,
+      category: products.category,
+      images: products.images,
+    })
+    .from(products)
+    .where(or(ilike(products.name, prefix), sql`${term} <% ${products.name}`))
+    // Prefix matches first, then the closest typo-tolerant matches
+    .orderBy(
+      desc(sql`${products.name} ilike ${prefix}`),
+      desc(sql`word_similarity(${term}, ${products.name})`),
+      desc(products.rating)
+    )
+    .limit(limit);
+
+  const categorySuggestions = await db
+    .select({ id: categories.id, name: categories.name, slug: categories.slug })
+    .from(categories)
+    .where(ilike(categories.name, `%${escapeLike(term)}%`))
+    .orderBy(asc(categories.name))
+    .limit(5);
+
+  return {
+    products: productSuggestions.map(({ images, ...product }) => ({
+      ...product,
+      image: images?.[0] ?? null,
+    })),
+    categories: categorySuggestions,
+  };
+};
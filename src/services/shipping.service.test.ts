@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { deliveryZones } from "../db/schema.js";
+import { DEFAULT_ITEM_WEIGHT_KG, zoneFee } from "./shipping.service.js";
+import type { ShippingLine } from "./shipping.service.js";
+
+const zone = (overrides: Partial<typeof deliveryZones.$inferSelect>) => ({
+  id: 1,
+  name: "Accra",
+  regions: ["Greater Accra"],
+  rateType: "weight",
+  baseFee: "20.00",
+  perUnitFee: "5.00",
+  includedUnits: 1,
+  etaMinDays: 1,
+  etaMaxDays: 3,
+  isActive: true,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+const line = (quantity: number, weightKg: string | null = null): ShippingLine => ({
+  sellerId: 1,
+  quantity,
+  weightKg,
+});
+
+describe("zoneFee", () => {
+  it.each([
+    { name: "no lines", rateType: "weight", lines: [], expected: 2000 },
+    { name: "under a kg", rateType: "weight", lines: [line(1, "0.40")], expected: 2000 },
+    { name: "a started kg", rateType: "weight", lines: [line(1, "1.20")], expected: 2500 },
+    {
+      name: "weight of every line and unit",
+      rateType: "weight",
+      lines: [line(2, "0.75"), line(1, "1.00")],
+      expected: 3000,
+    },
+    { name: "within included items", rateType: "item_count", lines: [line(1)], expected: 2000 },
+    {
+      name: "items past the included ones",
+      rateType: "item_count",
+      lines: [line(2), line(2, "9.00")],
+      expected: 3500,
+    },
+  ])("$name", ({ rateType, lines, expected }) => {
+    expect(zoneFee(zone({ rateType }), lines)).toBe(expected);
+  });
+
+  it("uses the default weight for lines without one", () => {
+    const units = Math.ceil(DEFAULT_ITEM_WEIGHT_KG * 3);
+    expect(zoneFee(zone({ includedUnits: 0 }), [line(3)])).toBe(2000 + 500 * units);
+  });
+});
@@ -0,0 +1,244 @@
+import { and, asc, eq, ne } from "drizzle-orm";
+import { deliveryZones, pickupPoints } from "../db/schema.js";
+import type { DbExecutor } from "../db/index.js";
+import { formatPesewas, toPesewas } from "../utils/money.js";
+import { normalizeRegion } from "../utils/address.js";
+import { ValidationError } from "../utils/errors.js";
+
+export const DELIVERY_METHODS = ["delivery", "pickup"] as const;
+export type DeliveryMethod = (typeof DELIVERY_METHODS)[number];
+
+export const RATE_TYPES = ["weight", "item_count"] as const;
+export type RateType = (typeof RATE_TYPES)[number];
+
+// Used for products without a shipping weight
+export const DEFAULT_ITEM_WEIGHT_KG = parseFloat(
+  process.env.DEFAULT_ITEM_WEIGHT_KG || "0.5"
+);
+
+export type ShippingErrorCode =
+  | "INVALID_DELIVERY_METHOD"
+  | "ADDRESS_REQUIRED"
+  | "SHIPPING_UNAVAILABLE"
+  | "PICKUP_POINT_NOT_FOUND";
+
+// Thrown when an order can't be shipped as requested; callers report the code to the client
+export class ShippingError extends ValidationError {
+  declare code: ShippingErrorCode;
+
+  constructor(code: ShippingErrorCode, message: string) {
+    super(message, { code, data: { errors: [{ code, message }] } });
+    this.name = "ShippingError";
+  }
+}
+
+type ZoneRow = typeof deliveryZones.$inferSelect;
+type PickupPointRow = typeof pickupPoints.$inferSelect;
+
+export interface ShippingLine {
+  sellerId: number | null;
+  quantity: number;
+  weightKg: string | null;
+}
+
+export interface ShippingOptions {
+  deliveryMethod?: unknown;
+  region?: string | null | undefined;
+  pickupPointId?: unknown;
+}
+
+export interface ShippingQuote {
+  deliveryMethod: DeliveryMethod;
+  zone: ZoneRow;
+  pickupPoint: PickupPointRow | null;
+  // Shipping fee per seller in pesewas; each seller's items ship separately
+  shippingBySeller: Map<number | null, number>;
+  etaMinDays: number;
+  etaMaxDays: number;
+  estimatedDeliveryFrom: Date;
+  estimatedDeliveryTo: Date;
+}
+
+export const isDeliveryMethod = (method: unknown): method is DeliveryMethod =>
+  DELIVERY_METHODS.includes(method as DeliveryMethod);
+
+// The active zone that delivers to a region
+// Zones can't share a region (see findOverlappingZones); should older data still
+// overlap, the oldest zone wins so quotes stay the same between requests
+export const findZoneForRegion = async (executor: DbExecutor, region: string) => {
+  const zones = await executor
+    .select()
+    .from(deliveryZones)
+    .where(eq(deliveryZones.isActive, true))
+    .orderBy(asc(deliveryZones.id));
+
+  const wanted = normalizeRegion(region);
+  return zones.find((zone) =>
+    zone.regions.some((zoneRegion) => normalizeRegion(zoneRegion) === wanted)
+  );
+};
+
+// Other active zones that already serve any of the regions, with the regions shared
+// Each region belongs to at most one active zone, so a customer's fee and delivery
+// window never depend on which zone is found first
+export const findOverlappingZones = async (
+  executor: DbExecutor,
+  regions: string[],
+  exceptZoneId?: number
+) => {
+  const zones = await executor
+    .select()
+    .from(deliveryZones)
+    .where(
+      and(
+        eq(deliveryZones.isActive, true),
+        exceptZoneId !== undefined ? ne(deliveryZones.id, exceptZoneId) : undefined
+      )
+    )
+    .orderBy(asc(deliveryZones.id));
+
+  const wanted = new Set(regions.map(normalizeRegion));
+  return zones.flatMap((zone) => {
+    const shared = zone.regions.filter((region) => wanted.has(normalizeRegion(region)));
+    return shared.length ? [{ zoneId: zone.id, name: zone.name, regions: shared }] : [];
+  });
+};
+
+// Delivery fee in pesewas for one seller's lines
+export const zoneFee = (zone: ZoneRow, lines: ShippingLine[]) => {
+  const units =
+    zone.rateType === "item_count"
+      ? lines.reduce((sum, line) => sum + line.quantity, 0)
+      : // Charged per started kg
+        Math.ceil(
+          lines.reduce(
+            (sum, line) =>
+              sum +
+              (line.weightKg !== null
+                ? parseFloat(line.weightKg)
+                : DEFAULT_ITEM_WEIGHT_KG) *
+                line.quantity,
+            0
+          )
+        );
+
+  return (
+    toPesewas(zone.baseFee) +
+    toPesewas(zone.perUnitFee) * Math.max(0, units - zone.includedUnits)
+  );
+};
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+// Work out the shipping fee for each seller and when the order should arrive
+// Delivery is priced by the zone covering the region; pickup is a flat fee per seller
+export const quoteShipping = async (
+  executor: DbExecutor,
+  lines: ShippingLine[],
+  options: ShippingOptions
+): Promise<ShippingQuote> => {
+  const deliveryMethod = options.deliveryMethod ?? "delivery";
+  if (!isDeliveryMethod(deliveryMethod)) {
+    throw new ShippingError(
+      "INVALID_DELIVERY_METHOD",
+      `Delivery method must be one of: ${DELIVERY_METHODS.join(", ")}`
+    );
+  }
+
+  const sellerIds = [...new Set(lines.map((line) => line.sellerId))];
+  const now = new Date();
+
+  if (deliveryMethod === "pickup") {
+    const pickupPointId = Number(options.pickupPointId);
+    const found = Number.isInteger(pickupPointId)
+      ? await executor
+          .select({ pickupPoint: pickupPoints, zone: deliveryZones })
+          .from(pickupPoints)
+          .innerJoin(deliveryZones, eq(pickupPoints.zoneId, deliveryZones.id))
+          .where(
+            and(
+              eq(pickupPoints.id, pickupPointId),
+              eq(pickupPoints.isActive, true),
+              eq(deliveryZones.isActive, true)
+            )
+          )
+          .limit(1)
+      : [];
+
+    if (!found[0]) {
+      throw new ShippingError(
+        "PICKUP_POINT_NOT_FOUND",
+        "Choose an available pickup point"
+      );
+    }
+
+    const { pickupPoint, zone } = found[0];
+    return {
+      deliveryMethod,
+      zone,
+      pickupPoint,
+      shippingBySeller: new Map(
+        sellerIds.map((sellerId) => [sellerId, toPesewas(pickupPoint.fee)])
+      ),
+      etaMinDays: pickupPoint.etaMinDays,
+      etaMaxDays: pickupPoint.etaMaxDays,
+      estimatedDeliveryFrom: addDays(now, pickupPoint.etaMinDays),
+      estimatedDeliveryTo: addDays(now, pickupPoint.etaMaxDays),
+    };
+  }
+
+  if (!options.region) {
+    throw new ShippingError(
+      "ADDRESS_REQUIRED",
+      "A shipping address with a region is required for delivery"
+    );
+  }
+
+  const zone = await findZoneForRegion(executor, options.region);
+  if (!zone) {
+    throw new ShippingError(
+      "SHIPPING_UNAVAILABLE",
+      `We don't deliver to ${options.region} yet`
+    );
+  }
+
+  return {
+    deliveryMethod,
+    zone,
+    pickupPoint: null,
+    shippingBySeller: new Map(
+      sellerIds.map((sellerId) => [
+        sellerId,
+        zoneFee(
+          zone,
+          lines.filter((line) => line.sellerId === sellerId)
+        ),
+      ])
+    ),
+    etaMinDays: zone.etaMinDays,
+    etaMaxDays: zone.etaMaxDays,
+    estimatedDeliveryFrom: addDays(now, zone.etaMinDays),
+    estimatedDeliveryTo: addDays(now, zone.etaMaxDays),
+  };
+};
+
+// Quote as returned to clients
+export const shippingQuoteResponse = (quote: ShippingQuote) => ({
+  deliveryMethod: quote.deliveryMethod,
+  zone: { id: quote.zone.id, name: quote.zone.name },
+  pickupPoint: quote.pickupPoint,
+  shippingAmount: formatPesewas(
+    [...quote.shippingBySeller.values()].reduce((sum, fee) => sum + fee, 0)
+  ),
+  sellers: [...quote.shippingBySeller].map(([sellerId, fee]) => ({
+    sellerId,
+    shippingFee: formatPesewas(fee),
+  })),
+  estimatedDelivery: {
+    minDays: quote.etaMinDays,
+    maxDays: quote.etaMaxDays,
+    from: quote.estimatedDeliveryFrom,
+    to: quote.estimatedDeliveryTo,
+  },
+});
@@ -0,0 +1,259 @@
+import { and, asc, desc, eq, gt, isNull, lt, notExists, or, sql } from "drizzle-orm";
+import { productStock, products, users, wishlist } from "../db/schema.js";
+import { db } from "../db/index.js";
+import type { DbExecutor } from "../db/index.js";
+import { formatPesewas, toPesewas } from "../utils/money.js";
+import { NotFoundError } from "../utils/errors.js";
+import { DEFAULT_SIZE } from "./inventory.service.js";
+import { addToCart, checkSize, findCartProduct, takeCartLine } from "./cart.service.js";
+import { STOREFRONT_URL, notify } from "./notification.service.js";
+
+export interface WishlistAlerts {
+  alertPriceDrop?: boolean | undefined;
+  alertBackInStock?: boolean | undefined;
+}
+
+export interface WishlistItemInput extends WishlistAlerts {
+  productId: number;
+  size?: string | undefined;
+}
+
+// Stock for the item's size; no stock row means the size was removed from the product
+const inStock = sql<number>`coalesce(${productStock.quantity}, 0)`.mapWith(Number);
+
+const stockJoin = and(
+  eq(productStock.productId, wishlist.productId),
+  eq(productStock.size, wishlist.size)
+);
+
+const availableStock = async (executor: DbExecutor, productId: number, size: string) => {
+  const stock = await executor
+    .select({ quantity: productStock.quantity })
+    .from(productStock)
+    .where(and(eq(productStock.productId, productId), eq(productStock.size, size)))
+    .limit(1);
+
+  return stock[0]?.quantity ?? 0;
+};
+
+// Only the alerts being set; turning one on restarts what it watches from today
+const alertChanges = (
+  alerts: WishlistAlerts,
+  price: string,
+  available: number
+): Partial<typeof wishlist.$inferInsert> => ({
+  ...(alerts.alertPriceDrop !== undefined ? { alertPriceDrop: alerts.alertPriceDrop } : {}),
+  ...(alerts.alertBackInStock !== undefined
+    ? { alertBackInStock: alerts.alertBackInStock }
+    : {}),
+  ...(alerts.alertPriceDrop ? { watchPrice: price } : {}),
+  ...(alerts.alertBackInStock ? { wasInStock: available > 0 } : {}),
+});
+
+const findWishlistItem = async (executor: DbExecutor, userId: number, itemId: number) => {
+  const item = await executor
+    .select()
+    .from(wishlist)
+    .where(and(eq(wishlist.id, itemId), eq(wishlist.userId, userId)))
+    .limit(1);
+
+  if (!item[0]) {
+    throw new NotFoundError("Wishlist item not found");
+  }
+  return item[0];
+};
+
+// Wishlist items with today's price and stock, newest first
+// priceDropped compares against the price when the item was saved
+export const listWishlistItems = async (executor: DbExecutor, userId: number) => {
+  const rows = await executor
+    .select({
+      item: wishlist,
+      product: {
+        name: products.name,
+        price: products.price,
+        images: products.images,
+      },
+      available: inStock,
+    })
+    .from(wishlist)
+    .innerJoin(products, eq(wishlist.productId, products.id))
+    .leftJoin(productStock, stockJoin)
+    .where(eq(wishlist.userId, userId))
+    .orderBy(desc(wishlist.createdAt), desc(wishlist.id));
+
+  const items = rows.map(({ item, product, available }) => ({
+    id: item.id,
+    productId: item.productId,
+    name: product.name,
+    image: product.images?.[0] ?? null,
+    size: item.size,
+    unitPrice: formatPesewas(toPesewas(product.price)),
+    priceAtAdd: item.priceAtAdd,
+    priceDropped: toPesewas(product.price) < toPesewas(item.priceAtAdd),
+    available,
+    outOfStock: available === 0,
+    alertPriceDrop: item.alertPriceDrop,
+    alertBackInStock: item.alertBackInStock,
+    addedAt: item.createdAt,
+  }));
+
+  return { items, itemCount: items.length };
+};
+
+// Save a product (and size) to the wishlist; saving it again takes today's price
+// Alerts left out keep their current setting, and are off for a new item
+export const saveWishlistItem = async (
+  executor: DbExecutor,
+  userId: number,
+  input: WishlistItemInput
+) => {
+  const product = await findCartProduct(executor, input.productId);
+  const size = checkSize(product.sizes, input.size);
+  const available = await availableStock(executor, product.id, size);
+
+  const baseline = {
+    priceAtAdd: product.price,
+    watchPrice: product.price,
+    wasInStock: available > 0,
+  };
+
+  await executor
+    .insert(wishlist)
+    .values({
+      userId,
+      productId: product.id,
+      size,
+      ...baseline,
+      ...alertChanges(input, product.price, available),
+    })
+    .onConflictDoUpdate({
+      target: [wishlist.userId, wishlist.productId, wishlist.size],
+      set: {
+        ...baseline,
+        ...alertChanges(input, product.price, available),
+        updatedAt: new Date(),
+      },
+    });
+};
+
+export const updateWishlistAlerts = (userId: number, itemId: number, alerts: WishlistAlerts) =>
+  db.transaction(async (tx) => {
+    const item = await findWishlistItem(tx, userId, itemId);
+    const product = await findCartProduct(tx, item.productId);
+    const available = await availableStock(tx, item.productId, item.size);
+
+    await tx
+      .update(wishlist)
+      .set({ ...alertChanges(alerts, product.price, available), updatedAt: new Date() })
+      .where(eq(wishlist.id, item.id));
+  });
+
+export const removeWishlistItem = async (userId: number, itemId: number) => {
+  const removed = await db
+    .delete(wishlist)
+    .where(and(eq(wishlist.id, itemId), eq(wishlist.userId, userId)))
+    .returning({ id: wishlist.id });
+
+  if (!removed.length) {
+    throw new NotFoundError("Wishlist item not found");
+  }
+};
+
+// Put a wishlist item in the user's cart; it stays on the wishlist if it is out of stock
+export const moveWishlistItemToCart = (userId: number, itemId: number, quantity: number) =>
+  db.transaction(async (tx) => {
+    const item = await findWishlistItem(tx, userId, itemId);
+
+    await tx.delete(wishlist).where(eq(wishlist.id, item.id));
+    await addToCart(tx, { userId }, { productId: item.productId, size: item.size, quantity });
+  });
+
+// Take a line out of the user's cart and save it to the wishlist
+export const saveCartLineForLater = (userId: number, lineId: number) =>
+  db.transaction(async (tx) => {
+    const line = await takeCartLine(tx, { userId }, lineId);
+    await saveWishlistItem(tx, userId, { productId: line.productId, size: line.size });
+  });
+
+// Queue alerts for wishlist items that dropped below the watched price or came
+// back in stock; returns how many items were alerted on
+export const sendWishlistAlerts = async () => {
+  const due = await db
+    .select({
+      item: wishlist,
+      product: { name: products.name, price: products.price },
+      user: { name: users.name, email: users.email, phone: users.phone },
+      available: inStock,
+    })
+    .from(wishlist)
+    .innerJoin(products, eq(wishlist.productId, products.id))
+    .innerJoin(users, and(eq(users.id, wishlist.userId), isNull(users.deletedAt)))
+    .leftJoin(productStock, stockJoin)
+    .where(
+      or(
+        and(eq(wishlist.alertPriceDrop, true), lt(products.price, wishlist.watchPrice)),
+        and(
+          eq(wishlist.alertBackInStock, true),
+          eq(wishlist.wasInStock, false),
+          gt(productStock.quantity, 0)
+        )
+      )
+    )
+    .orderBy(asc(wishlist.id));
+
+  for (const { item, product, user, available } of due) {
+    const recipient = { userId: item.userId, ...user };
+    const productUrl = `${STOREFRONT_URL}/products/${item.productId}`;
+    const priceDropped =
+      item.alertPriceDrop && toPesewas(product.price) < toPesewas(item.watchPrice);
+    const backInStock = item.alertBackInStock && !item.wasInStock && available > 0;
+
+    await db.transaction(async (tx) => {
+      if (priceDropped) {
+        await notify(tx, recipient, "wishlist_price_drop", {
+          name: user.name,
+          productName: product.name,
+          oldPrice: formatPesewas(toPesewas(item.watchPrice)),
+          newPrice: formatPesewas(toPesewas(product.price)),
+          productUrl,
+        });
+      }
+
+      if (backInStock) {
+        await notify(tx, recipient, "wishlist_back_in_stock", {
+          name: user.name,
+          productName: product.name,
+          size: item.size === DEFAULT_SIZE ? null : item.size,
+          productUrl,
+        });
+      }
+
+      await tx
+        .update(wishlist)
+        .set({
+          ...(priceDropped ? { watchPrice: product.price } : {}),
+          ...(backInStock ? { wasInStock: true } : {}),
+        })
+        .where(eq(wishlist.id, item.id));
+    });
+  }
+
+  // Remember what sold out, so coming back is noticed next time
+  await db
+    .update(wishlist)
+    .set({ wasInStock: false })
+    .where(
+      and(
+        eq(wishlist.wasInStock, true),
+        notExists(
+          db
+            .select({ id: productStock.id })
+            .from(productStock)
+            .where(and(stockJoin, gt(productStock.quantity, 0)))
+        )
+      )
+    );
+
+  return due.length;
+};
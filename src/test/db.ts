@@ -0,0 +1,29 @@
+import { PGlite } from "@electric-sql/pglite";
+import { pg_trgm } from "@electric-sql/pglite/contrib/pg_trgm";
+import { drizzle } from "drizzle-orm/pglite";
+import { generateDrizzleJson, generateMigration } from "drizzle-kit/api";
+import * as schema from "../db/schema.js";
+
+// Stands in for db/index.ts: an in-memory Postgres with the current schema
+// Each test file gets its own, via vi.mock("../db/index.js", () => import("../test/db.js"))
+const client = new PGlite({ extensions: { pg_trgm } });
+
+export const db = drizzle(client, { schema });
+
+const statements = await generateMigration(
+  generateDrizzleJson({}),
+  generateDrizzleJson(schema)
+);
+await client.exec("CREATE EXTENSION IF NOT EXISTS pg_trgm");
+for (const statement of statements) {
+  await client.exec(statement);
+}
+
+// Empty every table and restart ids; call in beforeEach
+export const resetDb = async () => {
+  const tables = await client.query<{ tablename: string }>(
+    "SELECT tablename FROM pg_tables WHERE schemaname = 'public'"
+  );
+  const names = tables.rows.map(({ tablename }) => `"${tablename}"`).join(", ");
+  await client.exec(`TRUNCATE ${names} RESTART IDENTITY CASCADE`);
+};
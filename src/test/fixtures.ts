@@ -0,0 +1,72 @@
+import { orders, products, users } from "../db/schema.js";
+import { db } from "../db/index.js";
+import { hashPassword } from "../utils/password.js";
+import { signAccessToken } from "../utils/token.js";
+import { setStockLevels } from "../services/inventory.service.js";
+
+export const TEST_PASSWORD = "correct-horse";
+
+// Hashed once: bcrypt is slow on purpose
+const passwordHash = await hashPassword(TEST_PASSWORD);
+
+let userCount = 0;
+
+// Insert a user and sign an access token for them
+export const createUser = async (
+  overrides: Partial<typeof users.$inferInsert> = {}
+) => {
+  userCount += 1;
+  const created = await db
+    .insert(users)
+    .values({
+      name: `User ${userCount}`,
+      email: `user${userCount}@example.com`,
+      password: passwordHash,
+      role: "customer",
+      ...overrides,
+    })
+    .returning();
+
+  const user = created[0]!;
+  const token = signAccessToken({ id: user.id, email: user.email, role: user.role || "customer" });
+  return { ...user, token };
+};
+
+let orderCount = 0;
+
+// Insert an order row directly, without items; amounts default to GHS 100
+export const createOrder = async (overrides: Partial<typeof orders.$inferInsert> = {}) => {
+  orderCount += 1;
+  const created = await db
+    .insert(orders)
+    .values({
+      orderNumber: `GMP-TEST${orderCount}`,
+      subtotalAmount: "100.00",
+      totalAmount: "100.00",
+      ...overrides,
+    })
+    .returning();
+
+  return created[0]!;
+};
+
+// Insert a product with stock per size, e.g. createProduct({ sizes: ["S", "M"] }, { S: 3, M: 0 })
+// Products without sizes keep their stock under "default"
+export const createProduct = async (
+  overrides: Partial<typeof products.$inferInsert> = {},
+  stock: Record<string, number> = { default: 10 }
+) => {
+  const created = await db
+    .insert(products)
+    .values({
+      name: "Kente scarf",
+      description: "Handwoven kente",
+      price: "50.00",
+      category: "Fashion",
+      ...overrides,
+    })
+    .returning();
+
+  await setStockLevels(db, created[0]!.id, stock);
+  return created[0]!;
+};
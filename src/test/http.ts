@@ -0,0 +1,38 @@
+import { once } from "node:events";
+import type { AddressInfo } from "node:net";
+import app from "../app.js";
+
+// The app on a random local port, so tests go through routing, validation and the
+// error middleware; unref'd so it never keeps a test run alive
+const server = app.listen(0, "127.0.0.1");
+await once(server, "listening");
+server.unref();
+
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+
+export interface ApiOptions {
+  body?: unknown;
+  token?: string;
+  headers?: Record<string, string>;
+}
+
+// Call a v1 endpoint, e.g. api("POST", "/auth/login", { body }); JSON bodies are parsed
+export const api = async (
+  method: string,
+  path: string,
+  { body, token, headers = {} }: ApiOptions = {}
+) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...headers,
+    },
+    ...(body !== undefined ? { body: typeof body === "string" ? body : JSON.stringify(body) } : {}),
+  });
+
+  // Loosely typed so tests can read into any response shape
+  const json: any = await response.json();
+  return { status: response.status, body: json, headers: response.headers };
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { parseDigitalAddress, validateAddress } from "./address.js";
+
+describe("parseDigitalAddress", () => {
+  it.each([
+    { code: "GA-123-4567", expected: { digitalAddress: "GA-123-4567", regions: ["Greater Accra"] } },
+    { code: " ga1234567 ", expected: { digitalAddress: "GA-123-4567", regions: ["Greater Accra"] } },
+    { code: "AK 0392 1234", expected: { digitalAddress: "AK-0392-1234", regions: ["Ashanti"] } },
+    {
+      code: "WS-123-4567",
+      expected: { digitalAddress: "WS-123-4567", regions: ["Western", "Western North"] },
+    },
+    { code: "ZZ-123-4567", expected: undefined },
+    { code: "GA-12-4567", expected: undefined },
+    { code: "G1-123-4567", expected: undefined },
+    { code: "", expected: undefined },
+  ])("$code", ({ code, expected }) => {
+    expect(parseDigitalAddress(code)).toEqual(expected);
+  });
+});
+
+describe("validateAddress", () => {
+  const valid = { homeAddress: "12 Oxford Street", city: "Osu", regionOrState: "Greater Accra" };
+
+  it.each([
+    {
+      name: "a complete address",
+      input: { ...valid, landmark: " Near the mall ", digitalAddress: "ga1234567" },
+      expected: {
+        homeAddress: "12 Oxford Street",
+        city: "Osu",
+        regionOrState: "Greater Accra",
+        country: "Ghana",
+        digitalAddress: "GA-123-4567",
+        landmark: "Near the mall",
+      },
+    },
+    {
+      name: "a loosely written region",
+      input: { ...valid, regionOrState: " greater  accra region " },
+      expected: {
+        homeAddress: "12 Oxford Street",
+        city: "Osu",
+        regionOrState: "Greater Accra",
+        country: "Ghana",
+        digitalAddress: null,
+        landmark: null,
+      },
+    },
+    {
+      name: "the region taken from the digital address",
+      input: { ...valid, regionOrState: "", digitalAddress: "AK-039-1234" },
+      expected: {
+        homeAddress: "12 Oxford Street",
+        city: "Osu",
+        regionOrState: "Ashanti",
+        country: "Ghana",
+        digitalAddress: "AK-039-1234",
+        landmark: null,
+      },
+    },
+  ])("accepts $name", ({ input, expected }) => {
+    expect(validateAddress(input)).toEqual({ address: expected });
+  });
+
+  it.each([
+    { name: "missing fields", input: {}, fields: ["homeAddress", "city", "regionOrState"] },
+    { name: "a long city", input: { ...valid, city: "x".repeat(101) }, fields: ["city"] },
+    { name: "another country", input: { ...valid, country: "Togo" }, fields: ["country"] },
+    { name: "an unknown region", input: { ...valid, regionOrState: "Lagos" }, fields: ["regionOrState"] },
+    {
+      name: "a malformed digital address",
+      input: { ...valid, digitalAddress: "123" },
+      fields: ["digitalAddress"],
+    },
+    {
+      name: "a digital address in another region",
+      input: { ...valid, regionOrState: "Ashanti", digitalAddress: "GA-123-4567" },
+      fields: ["digitalAddress"],
+    },
+    {
+      name: "a digital address covering several regions",
+      input: { ...valid, regionOrState: undefined, digitalAddress: "VH-123-4567" },
+      fields: ["regionOrState"],
+    },
+  ])("rejects $name", ({ input, fields }) => {
+    const result = validateAddress(input);
+    expect(result.errors?.map((error) => error.field)).toEqual(fields);
+  });
+});
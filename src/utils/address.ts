@@ -0,0 +1,169 @@
+import type { addresses, ShippingAddress } from "../db/schema.js";
+
+type AddressRow = typeof addresses.$inferSelect;
+
+// Ghana's 16 regions (since the 2018 referendum), as stored on addresses and orders
+export const GHANA_REGIONS = [
+  "Ahafo",
+  "Ashanti",
+  "Bono",
+  "Bono East",
+  "Central",
+  "Eastern",
+  "Greater Accra",
+  "North East",
+  "Northern",
+  "Oti",
+  "Savannah",
+  "Upper East",
+  "Upper West",
+  "Volta",
+  "Western",
+  "Western North",
+] as const;
+export type GhanaRegion = (typeof GHANA_REGIONS)[number];
+
+// The first letter of a GhanaPost GPS code is the region it was issued in
+// Codes predate the 2018 regions, so some letters cover several current regions
+const DIGITAL_ADDRESS_REGIONS: Record<string, GhanaRegion[]> = {
+  A: ["Ashanti"],
+  B: ["Bono", "Bono East", "Ahafo"],
+  C: ["Central"],
+  E: ["Eastern"],
+  G: ["Greater Accra"],
+  N: ["Northern", "Savannah", "North East"],
+  U: ["Upper East"],
+  V: ["Volta", "Oti"],
+  W: ["Western", "Western North"],
+  X: ["Upper West"],
+};
+
+// GhanaPost GPS: two letters (region and district), then 3-4 and 4 digits
+const DIGITAL_ADDRESS_REGEX = /^([A-Z])([A-Z])-?(\d{3,4})-?(\d{4})$/;
+
+export interface AddressFieldError {
+  field: string;
+  message: string;
+}
+
+// "Ashanti Region", " ashanti " and "ASHANTI" all compare equal
+export const normalizeRegion = (region: string) =>
+  region.trim().toLowerCase().replace(/\s+/g, " ").replace(/ region$/, "");
+
+// The canonical name of a region, or undefined if it isn't one
+export const toGhanaRegion = (region: string) =>
+  GHANA_REGIONS.find((name) => normalizeRegion(name) === normalizeRegion(region));
+
+// Format a GhanaPost GPS code as GA-123-4567, and list the regions its prefix covers
+// Returns undefined when the code isn't valid
+export const parseDigitalAddress = (code: string) => {
+  const match = DIGITAL_ADDRESS_REGEX.exec(code.trim().toUpperCase().replace(/\s/g, ""));
+  if (!match) return undefined;
+
+  const [, regionLetter, districtLetter, area, unique] = match;
+  const regions = DIGITAL_ADDRESS_REGIONS[regionLetter!];
+  if (!regions) return undefined;
+
+  return {
+    digitalAddress: `${regionLetter}${districtLetter}-${area}-${unique}`,
+    regions,
+  };
+};
+
+const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+// Check an address field by field and return it in the stored shape
+// The region may be left out when the digital address points to a single region
+export const validateAddress = (
+  input: Record<string, unknown>
+): { address: ShippingAddress; errors?: never } | { errors: AddressFieldError[] } => {
+  const errors: AddressFieldError[] = [];
+  const homeAddress = text(input.homeAddress);
+  const city = text(input.city);
+  const landmark = text(input.landmark);
+  const country = text(input.country) || "Ghana";
+
+  if (!homeAddress) {
+    errors.push({ field: "homeAddress", message: "Street or house address is required" });
+  } else if (homeAddress.length > 255) {
+    errors.push({ field: "homeAddress", message: "Must be at most 255 characters" });
+  }
+
+  if (!city) {
+    errors.push({ field: "city", message: "City or town is required" });
+  } else if (city.length > 100) {
+    errors.push({ field: "city", message: "Must be at most 100 characters" });
+  }
+
+  if (landmark.length > 255) {
+    errors.push({ field: "landmark", message: "Must be at most 255 characters" });
+  }
+
+  if (country.toLowerCase() !== "ghana") {
+    errors.push({ field: "country", message: "We only deliver within Ghana" });
+  }
+
+  let digitalAddress: string | null = null;
+  let digitalRegions: GhanaRegion[] | undefined;
+  if (text(input.digitalAddress)) {
+    const parsed = parseDigitalAddress(text(input.digitalAddress));
+    if (parsed) {
+      digitalAddress = parsed.digitalAddress;
+      digitalRegions = parsed.regions;
+    } else {
+      errors.push({
+        field: "digitalAddress",
+        message: "Must be a GhanaPost GPS address, e.g. GA-123-4567",
+      });
+    }
+  }
+
+  let region: GhanaRegion | undefined;
+  if (text(input.regionOrState)) {
+    region = toGhanaRegion(text(input.regionOrState));
+    if (!region) {
+      errors.push({
+        field: "regionOrState",
+        message: `Must be one of: ${GHANA_REGIONS.join(", ")}`,
+      });
+    } else if (digitalRegions && !digitalRegions.includes(region)) {
+      errors.push({
+        field: "digitalAddress",
+        message: `This digital address is in ${digitalRegions.join(" or ")}, not ${region}`,
+      });
+    }
+  } else if (digitalRegions?.length === 1) {
+    region = digitalRegions[0];
+  } else {
+    errors.push({
+      field: "regionOrState",
+      message: digitalRegions
+        ? `Choose the region: ${digitalRegions.join(", ")}`
+        : "Region is required",
+    });
+  }
+
+  if (errors.length || !region) return { errors };
+
+  return {
+    address: {
+      homeAddress,
+      city,
+      regionOrState: region,
+      country: "Ghana",
+      digitalAddress,
+      landmark: landmark || null,
+    },
+  };
+};
+
+// Convert a saved address into the shape stored on orders.shippingAddress
+export const toShippingAddress = (address: AddressRow): ShippingAddress => ({
+  homeAddress: address.homeAddress,
+  city: address.city,
+  regionOrState: address.regionOrState,
+  country: address.country,
+  digitalAddress: address.digitalAddress,
+  landmark: address.landmark,
+  ...(address.zipCode ? { zipCode: address.zipCode } : {}),
+});
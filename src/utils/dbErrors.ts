@@ -0,0 +1,9 @@
+// Postgres error code for unique constraint violations
+const UNIQUE_VIOLATION = "23505";
+
+// drizzle wraps driver errors, so check the error and its cause
+export const isUniqueViolation = (error: unknown): boolean => {
+  if (!error || typeof error !== "object") return false;
+  if ("code" in error && error.code === UNIQUE_VIOLATION) return true;
+  return "cause" in error && isUniqueViolation(error.cause);
+};
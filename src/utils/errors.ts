@@ -0,0 +1,68 @@
+// Errors a request can fail with. Handlers throw them and the error middleware
+// (src/middleware/error.middleware.ts) sends { success: false, message, code, data }
+// with the error's status; anything else is logged and reported as a 500
+
+export interface AppErrorOptions {
+  code?: string; // Stable, machine-readable; clients should branch on this, not the message
+  data?: unknown;
+}
+
+export class AppError extends Error {
+  public code: string;
+  public data: unknown;
+
+  constructor(
+    public status: number,
+    defaultCode: string,
+    message: string,
+    options: AppErrorOptions = {}
+  ) {
+    super(message);
+    this.name = "AppError";
+    this.code = options.code ?? defaultCode;
+    this.data = options.data;
+  }
+}
+
+// 400: the request can't be processed as sent; field problems go in data.errors
+export class ValidationError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(400, "VALIDATION_ERROR", message, options);
+    this.name = "ValidationError";
+  }
+}
+
+// 401: no valid access token
+export class UnauthorizedError extends AppError {
+  constructor(message = "Authentication required", options?: AppErrorOptions) {
+    super(401, "UNAUTHENTICATED", message, options);
+    this.name = "UnauthorizedError";
+  }
+}
+
+// 403: authenticated, but not allowed to do this
+export class ForbiddenError extends AppError {
+  constructor(
+    message = "You do not have permission to perform this action",
+    options?: AppErrorOptions
+  ) {
+    super(403, "FORBIDDEN", message, options);
+    this.name = "ForbiddenError";
+  }
+}
+
+// 404: the resource doesn't exist (or the caller may not know it exists)
+export class NotFoundError extends AppError {
+  constructor(message = "Not found", options?: AppErrorOptions) {
+    super(404, "NOT_FOUND", message, options);
+    this.name = "NotFoundError";
+  }
+}
+
+// 409: the request clashes with the current state, e.g. a duplicate or sold-out item
+export class ConflictError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(409, "CONFLICT", message, options);
+    this.name = "ConflictError";
+  }
+}
@@ -0,0 +1,28 @@
+// Amounts are handled in pesewas (GHS cents) so rounding happens in one place
+export const toPesewas = (amount: string | number) =>
+  Math.round(parseFloat(String(amount)) * 100);
+
+export const formatPesewas = (pesewas: number) => (pesewas / 100).toFixed(2);
+
+// Split an amount across weights in proportion, keeping the parts summing to the total
+export const allocatePesewas = (total: number, weights: number[]) => {
+  const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+  if (!weightTotal) return weights.map(() => 0);
+
+  const parts = weights.map((weight) => Math.floor((total * weight) / weightTotal));
+  let remainder = total - parts.reduce((sum, part) => sum + part, 0);
+
+  // Hand leftover pesewas to the heaviest lines first
+  const order = weights
+    .map((weight, index) => ({ weight, index }))
+    .sort((a, b) => b.weight - a.weight);
+  for (const { index, weight } of order) {
+    if (remainder <= 0) break;
+    if (weight > 0) {
+      parts[index]! += 1;
+      remainder -= 1;
+    }
+  }
+
+  return parts;
+};
@@ -0,0 +1,31 @@
+interface PaginationOptions {
+  defaultLimit?: number;
+  maxLimit?: number;
+}
+
+// Parse ?page=&limit= query params into safe page/limit/offset values
+export const parsePagination = (
+  query: Record<string, unknown>,
+  { defaultLimit = 20, maxLimit = 100 }: PaginationOptions = {}
+) => {
+  const page = Math.max(1, parseInt(String(query.page ?? "1")) || 1);
+  const requestedLimit = parseInt(String(query.limit ?? defaultLimit));
+  const limit = Math.min(
+    maxLimit,
+    Math.max(1, isNaN(requestedLimit) ? defaultLimit : requestedLimit)
+  );
+
+  return { page, limit, offset: (page - 1) * limit };
+};
+
+// Pagination block returned alongside paged results
+export const buildPaginationMeta = (
+  page: number,
+  limit: number,
+  total: number
+) => ({
+  page,
+  limit,
+  total,
+  totalPages: Math.ceil(total / limit),
+});
@@ -0,0 +1,13 @@
+import bcrypt from "bcryptjs";
+
+const PASSWORD_SALT_ROUNDS = 10;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const isValidPassword = (password: unknown): password is string =>
+  typeof password === "string" && password.length >= MIN_PASSWORD_LENGTH;
+
+export const hashPassword = (password: string) =>
+  bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
+
+export const verifyPassword = (password: string, hash: string) =>
+  bcrypt.compare(password, hash);
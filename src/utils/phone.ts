@@ -0,0 +1,15 @@
+// Ghana mobile numbers: 0XXXXXXXXX or (+)233XXXXXXXXX
+const GHANA_PHONE_REGEX = /^(?:\+?233|0)\d{9}$/;
+
+export const isGhanaPhone = (phone: unknown): phone is string =>
+  typeof phone === "string" && GHANA_PHONE_REGEX.test(phone.replace(/\s/g, ""));
+
+// Compare Ghana phone numbers regardless of format: 024 123 4567, +233241234567
+// and 233241234567 all refer to the same subscriber (last 9 digits)
+export const normalizePhone = (phone: string) =>
+  phone.replace(/\D/g, "").slice(-9);
+
+export const phonesMatch = (a: string, b: string) => {
+  const normalizedA = normalizePhone(a);
+  return normalizedA.length === 9 && normalizedA === normalizePhone(b);
+};
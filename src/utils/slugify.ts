@@ -0,0 +1,7 @@
+// Convert a display name into a URL-safe slug, e.g. "Men's Shoes" -> "men-s-shoes"
+export const slugify = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
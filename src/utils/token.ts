@@ -0,0 +1,111 @@
+import crypto from "node:crypto";
+import jwt from "jsonwebtoken";
+
+export interface AccessTokenPayload {
+  id: number;
+  email: string;
+  role: string;
+}
+
+const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_ACCESS_EXPIRES_IN || "15m";
+const REFRESH_TOKEN_TTL_DAYS = parseInt(
+  process.env.REFRESH_TOKEN_TTL_DAYS || "30"
+);
+
+const getAccessSecret = () => {
+  const secret = process.env.JWT_ACCESS_SECRET;
+  if (!secret) {
+    throw new Error("JWT_ACCESS_SECRET is not configured");
+  }
+  return secret;
+};
+
+// Sign a short-lived access token for the given user
+export const signAccessToken = (payload: AccessTokenPayload) =>
+  jwt.sign(payload, getAccessSecret(), {
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN as jwt.SignOptions["expiresIn"] & string,
+  });
+
+// Verify an access token; returns null when invalid or expired
+export const verifyAccessToken = (token: string): AccessTokenPayload | null => {
+  try {
+    const decoded = jwt.verify(token, getAccessSecret());
+    if (
+      typeof decoded !== "object" ||
+      typeof decoded.id !== "number" ||
+      typeof decoded.email !== "string" ||
+      typeof decoded.role !== "string"
+    ) {
+      return null;
+    }
+    return { id: decoded.id, email: decoded.email, role: decoded.role };
+  } catch {
+    return null;
+  }
+};
+
+// Refresh tokens are opaque random strings; only their hash is stored
+export const generateRefreshToken = () => {
+  const token = crypto.randomBytes(48).toString("base64url");
+  const expiresAt = new Date(
+    Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000
+  );
+  return { token, tokenHash: hashToken(token), expiresAt };
+};
+
+export const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const ORDER_TRACKING_TOKEN_TYPE = "order_tracking";
+
+// Long-lived token that lets a guest view one order without logging in
+export const signOrderTrackingToken = (orderId: number) =>
+  jwt.sign({ typ: ORDER_TRACKING_TOKEN_TYPE }, getAccessSecret(), {
+    subject: String(orderId),
+    expiresIn: "180d",
+  });
+
+// Returns the order id, or null when the token is invalid or expired
+export const verifyOrderTrackingToken = (token: string): number | null => {
+  try {
+    const decoded = jwt.verify(token, getAccessSecret());
+    if (
+      typeof decoded !== "object" ||
+      decoded.typ !== ORDER_TRACKING_TOKEN_TYPE ||
+      !decoded.sub
+    ) {
+      return null;
+    }
+    const orderId = parseInt(decoded.sub);
+    return isNaN(orderId) ? null : orderId;
+  } catch {
+    return null;
+  }
+};
+
+const GUEST_CART_TOKEN_TYPE = "guest_cart";
+
+// Names a guest cart; it has no expiry of its own since the cart's expiry moves
+// with activity, and the token stops working once the cart is deleted
+export const signGuestCartToken = (guestCartId: number) =>
+  jwt.sign({ typ: GUEST_CART_TOKEN_TYPE }, getAccessSecret(), {
+    subject: String(guestCartId),
+  });
+
+// Returns the guest cart id, or null when the token is invalid
+export const verifyGuestCartToken = (token: string): number | null => {
+  try {
+    const decoded = jwt.verify(token, getAccessSecret());
+    if (
+      typeof decoded !== "object" ||
+      decoded.typ !== GUEST_CART_TOKEN_TYPE ||
+      !decoded.sub
+    ) {
+      return null;
+    }
+    const guestCartId = parseInt(decoded.sub);
+    return isNaN(guestCartId) ? null : guestCartId;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,9 @@
+import type { users } from "../db/schema.js";
+
+type UserRow = typeof users.$inferSelect;
+
+// Strip the password hash before sending a user to the client
+export const toPublicUser = (user: UserRow) => {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+};
@@ -0,0 +1,13 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    // Tests sit next to the code they cover
+    dir: "src",
+    env: {
+      JWT_ACCESS_SECRET: "test-access-secret",
+      PAYMENT_WEBHOOK_SECRET: "test-webhook-secret",
+      RUN_JOBS: "false",
+    },
+  },
+});